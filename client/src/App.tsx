@@ -1,24 +1,162 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import type { NudgeChannel, User } from './types';
+import { apiErrorMessage, downloadWithReauth, fetchWithReauth } from './api';
+import NotificationTray from './components/NotificationTray';
+import DeviceMenu from './components/DeviceMenu';
+import ReAuthDialog from './components/ReAuthDialog';
+import AdminDashboard from './components/admin/AdminDashboard';
 
-function AdminDashboard({ user, onLogout }: { user: User; onLogout: () => void }) {
-  const [stats, setStats] = useState<any>(null);
-  const [loading, setLoading] = useState(true);
+// How long before the idle deadline the warning appears
+const EXPIRY_WARNING_MS = 2 * 60 * 1000;
+const SESSION_POLL_MS = 30 * 1000;
+
+// Warns before the server signs an idle session out, and reports when it has
+function SessionExpiryWarning({ onExpired, onLogout }: { onExpired: () => void; onLogout: () => void }) {
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const fetchStatus = async () => {
+    try {
+      const response = await fetch('/api/auth/session/status');
+      if (response.status === 401) {
+        onExpired();
+        return;
+      }
+      if (response.ok) {
+        setExpiresAt(new Date((await response.json()).expiresAt).getTime());
+      }
+    } catch (error) {
+      console.error('Failed to check session status:', error);
+    }
+  };
 
   useEffect(() => {
-    fetchStats();
+    fetchStatus();
+    const poll = window.setInterval(fetchStatus, SESSION_POLL_MS);
+    const tick = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => {
+      window.clearInterval(poll);
+      window.clearInterval(tick);
+    };
   }, []);
 
-  const fetchStats = async () => {
+  useEffect(() => {
+    if (expiresAt !== null && now >= expiresAt) onExpired();
+  }, [now, expiresAt]);
+
+  // Any authenticated request counts as activity
+  const staySignedIn = async () => {
     try {
-      const response = await fetch('/api/admin/stats');
+      const response = await fetch('/api/auth/session');
+      if (response.status === 401) {
+        onExpired();
+        return;
+      }
+      await fetchStatus();
+    } catch (error) {
+      console.error('Failed to extend session:', error);
+    }
+  };
+
+  if (expiresAt === null || expiresAt - now > EXPIRY_WARNING_MS) return null;
+
+  const secondsLeft = Math.max(0, Math.ceil((expiresAt - now) / 1000));
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-lg p-6 w-full max-w-sm" role="alertdialog" aria-labelledby="session-expiry-title">
+        <h2 id="session-expiry-title" className="text-lg font-semibold text-gray-900">Are you still there?</h2>
+        <p className="text-sm text-gray-600 mt-2">
+          For your security you will be signed out in {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}.
+        </p>
+        <div className="flex justify-end gap-2 mt-4">
+          <button onClick={onLogout} className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-md">
+            Log out
+          </button>
+          <button onClick={staySignedIn} className="px-4 py-2 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md">
+            Stay signed in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+type Trend = 'improving' | 'stable' | 'declining';
+type MetricAverages = { diet: number | null; exercise: number | null; medication: number | null };
+
+interface RosterPatient {
+  patientId: number;
+  name: string | null;
+  email: string;
+  lastScoreDate: string | null;
+  daysSinceLastScore: number | null;
+  averages7d: MetricAverages;
+  averages30d: MetricAverages;
+  trends: { dietTrend: Trend; exerciseTrend: Trend; medicationTrend: Trend };
+  badgeCount: number;
+  attentionNeeded: boolean;
+  attentionReasons: string[];
+}
+
+const trendClass = (trend: Trend) =>
+  trend === 'improving' ? 'text-green-600' : trend === 'declining' ? 'text-red-600' : 'text-gray-600';
+
+const formatAverages = (averages: MetricAverages) =>
+  [averages.diet, averages.exercise, averages.medication].map(v => v ?? '–').join(' / ');
+
+function DoctorDashboard({ user, onLogout }: { user: User; onLogout: () => void }) {
+  const [patients, setPatients] = useState<RosterPatient[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [sort, setSort] = useState<'attention' | 'name' | 'lastScoreDate' | 'average7d'>('attention');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(1);
+  const [messageTarget, setMessageTarget] = useState<RosterPatient | null>(null);
+  const [messageText, setMessageText] = useState('');
+  const [messageStatus, setMessageStatus] = useState('');
+  const pageSize = 20;
+
+  useEffect(() => {
+    const fetchRoster = async () => {
+      setLoading(true);
+      try {
+        const params = new URLSearchParams({ sort, order, page: String(page), pageSize: String(pageSize) });
+        const response = await fetch(`/api/doctor/patients?${params}`);
+        if (response.ok) {
+          const data = await response.json();
+          setPatients(data.patients);
+          setTotal(data.total);
+        }
+      } catch (error) {
+        console.error('Failed to fetch patient roster:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchRoster();
+  }, [sort, order, page]);
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+  const sendPatientMessage = async () => {
+    if (!messageTarget || !messageText.trim()) return;
+    try {
+      const response = await fetch(`/api/doctor/patients/${messageTarget.patientId}/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message: messageText })
+      });
+      const data = await response.json();
       if (response.ok) {
-        const data = await response.json();
-        setStats(data.stats);
+        setMessageStatus(`Message sent to ${messageTarget.name || messageTarget.email}`);
+        setMessageTarget(null);
+        setMessageText('');
+      } else {
+        setMessageStatus(data.error || 'Failed to send message');
       }
     } catch (error) {
-      console.error('Failed to fetch admin stats:', error);
-    } finally {
-      setLoading(false);
+      console.error('Failed to send message:', error);
+      setMessageStatus('Network error occurred');
     }
   };
 
@@ -28,81 +166,355 @@ function AdminDashboard({ user, onLogout }: { user: User; onLogout: () => void }
         <div className="bg-white rounded-lg shadow-sm border p-6">
           <div className="flex justify-between items-center mb-8">
             <div>
-              <h1 className="text-3xl font-bold text-gray-900">Keep Going Care Admin Dashboard</h1>
-              <p className="text-gray-600 mt-1">System Administrator: {user.email}</p>
+              <h1 className="text-3xl font-bold text-gray-900">Keep Going Care Doctor Dashboard</h1>
+              <p className="text-gray-600 mt-1">Signed in as {user.email}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <NotificationTray />
+              <DeviceMenu />
+              <button 
+                onClick={onLogout}
+                className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+              >
+                Logout
+              </button>
             </div>
-            <button 
-              onClick={onLogout}
-              className="px-4 py-2 text-sm bg-red-100 hover:bg-red-200 text-red-700 rounded-md transition-colors"
-            >
-              Logout
-            </button>
           </div>
 
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">My Patients ({total})</h2>
+            <div className="flex items-center gap-2 text-sm">
+              <label className="text-gray-600">Sort by</label>
+              <select
+                value={sort}
+                onChange={(e) => { setSort(e.target.value as typeof sort); setPage(1); }}
+                className="px-2 py-1 border border-gray-300 rounded-md"
+              >
+                <option value="attention">Attention needed</option>
+                <option value="name">Name</option>
+                <option value="lastScoreDate">Last score</option>
+                <option value="average7d">7-day average</option>
+              </select>
+              <button
+                onClick={() => setOrder(order === 'asc' ? 'desc' : 'asc')}
+                className="px-2 py-1 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                {order === 'asc' ? '↑ Asc' : '↓ Desc'}
+              </button>
+            </div>
+          </div>
+
+          {messageStatus && <p className="mb-4 text-sm text-gray-600">{messageStatus}</p>}
+          {messageTarget && (
+            <div className="mb-4 p-4 border rounded-lg bg-gray-50">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Message to {messageTarget.name || messageTarget.email}
+              </label>
+              <textarea
+                value={messageText}
+                onChange={(e) => setMessageText(e.target.value)}
+                maxLength={1000}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+              <div className="flex gap-2 mt-2">
+                <button
+                  onClick={sendPatientMessage}
+                  disabled={!messageText.trim()}
+                  className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Send
+                </button>
+                <button
+                  onClick={() => { setMessageTarget(null); setMessageText(''); }}
+                  className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
           {loading ? (
             <div className="flex items-center justify-center py-12">
-              <div className="text-lg text-gray-600">Loading dashboard...</div>
+              <div className="text-lg text-gray-600">Loading patients...</div>
             </div>
+          ) : patients.length === 0 ? (
+            <p className="text-gray-500 py-8 text-center">No patients are assigned to you yet.</p>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-              <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
-                <h3 className="text-lg font-semibold text-blue-900 mb-2">Total Users</h3>
-                <p className="text-3xl font-bold text-blue-800">{stats?.totalUsers || 0}</p>
-              </div>
-              
-              <div className="bg-green-50 border border-green-200 rounded-lg p-6">
-                <h3 className="text-lg font-semibold text-green-900 mb-2">Active Patients</h3>
-                <p className="text-3xl font-bold text-green-800">{stats?.totalPatients || 0}</p>
-              </div>
-              
-              <div className="bg-purple-50 border border-purple-200 rounded-lg p-6">
-                <h3 className="text-lg font-semibold text-purple-900 mb-2">Active Doctors</h3>
-                <p className="text-3xl font-bold text-purple-800">{stats?.totalDoctors || 0}</p>
-              </div>
-              
-              <div className="bg-orange-50 border border-orange-200 rounded-lg p-6">
-                <h3 className="text-lg font-semibold text-orange-900 mb-2">System Status</h3>
-                <p className="text-lg font-semibold text-green-600">✓ Operational</p>
-              </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2 pr-4">Patient</th>
+                    <th className="py-2 pr-4">Last score</th>
+                    <th className="py-2 pr-4">7-day avg (D / E / M)</th>
+                    <th className="py-2 pr-4">30-day avg (D / E / M)</th>
+                    <th className="py-2 pr-4">Trends</th>
+                    <th className="py-2 pr-4">Badges</th>
+                    <th className="py-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {patients.map((patient) => (
+                    <tr key={patient.patientId} className="border-b last:border-0 align-top">
+                      <td className="py-3 pr-4">
+                        <div className="font-medium text-gray-900">{patient.name || patient.email}</div>
+                        {patient.name && <div className="text-xs text-gray-500">{patient.email}</div>}
+                        <button
+                          onClick={() => { setMessageTarget(patient); setMessageStatus(''); }}
+                          className="mt-1 text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          Send message
+                        </button>
+                        <button
+                          onClick={async () => {
+                            const error = await downloadWithReauth(`/api/patients/${patient.patientId}/fhir`, `patient-${patient.patientId}-fhir.json`);
+                            if (error) setMessageStatus(`FHIR export failed: ${error}`);
+                          }}
+                          className="mt-1 ml-3 text-xs text-blue-600 hover:text-blue-800"
+                        >
+                          Export FHIR
+                        </button>
+                      </td>
+                      <td className="py-3 pr-4 text-gray-700">{patient.lastScoreDate || 'Never'}</td>
+                      <td className="py-3 pr-4 text-gray-700">{formatAverages(patient.averages7d)}</td>
+                      <td className="py-3 pr-4 text-gray-700">{formatAverages(patient.averages30d)}</td>
+                      <td className="py-3 pr-4 text-xs">
+                        <div>Diet: <span className={trendClass(patient.trends.dietTrend)}>{patient.trends.dietTrend}</span></div>
+                        <div>Exercise: <span className={trendClass(patient.trends.exerciseTrend)}>{patient.trends.exerciseTrend}</span></div>
+                        <div>Medication: <span className={trendClass(patient.trends.medicationTrend)}>{patient.trends.medicationTrend}</span></div>
+                      </td>
+                      <td className="py-3 pr-4 text-gray-700">{patient.badgeCount}</td>
+                      <td className="py-3">
+                        {patient.attentionNeeded ? (
+                          <div>
+                            <span className="inline-block px-2 py-0.5 text-xs font-medium bg-red-100 text-red-700 rounded">Attention</span>
+                            <ul className="mt-1 text-xs text-gray-600">
+                              {patient.attentionReasons.map((reason) => <li key={reason}>{reason}</li>)}
+                            </ul>
+                          </div>
+                        ) : (
+                          <span className="inline-block px-2 py-0.5 text-xs font-medium bg-green-100 text-green-700 rounded">On track</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
           )}
 
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-            <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
-              <h3 className="text-xl font-semibold text-gray-900 mb-4">SMS Integration Status</h3>
-              <div className="space-y-3">
-                <div className="flex items-center gap-3">
-                  <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                  <span className="text-gray-700">Twilio SMS Service Connected</span>
-                </div>
-                <div className="flex items-center gap-3">
-                  <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-                  <span className="text-gray-700">Verification Codes Enabled</span>
-                </div>
-                <div className="flex items-center gap-3">
-                  <div className="w-3 h-3 bg-blue-500 rounded-full"></div>
-                  <span className="text-gray-700">Admin Access Verified</span>
-                </div>
-              </div>
-            </div>
+          <div className="flex items-center justify-between mt-4 text-sm">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-gray-600">Page {page} of {totalPages}</span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= totalPages}
+              className="px-3 py-1 border border-gray-300 rounded-md disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
 
-            <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
-              <h3 className="text-xl font-semibold text-gray-900 mb-4">Quick Actions</h3>
-              <div className="space-y-3">
-                <button className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors">
-                  Manage Users
-                </button>
-                <button className="w-full px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors">
-                  View System Logs
+interface TierProgress {
+  ruleId: number;
+  tier: string;
+  requiredDays: number;
+  minScore: number;
+  criteria: string;
+  currentStreak: number;
+  daysRemaining: number;
+  earned: boolean;
+  earnedDate: string | null;
+  streakBroken: boolean;
+}
+
+interface BadgeProgress {
+  badgeType: string;
+  metric: string;
+  nextTier: string | null;
+  tiers: TierProgress[];
+}
+
+const NUDGE_CHANNEL_LABELS: Record<NudgeChannel, string> = {
+  in_app: 'In the app',
+  sms: 'SMS',
+  email: 'Email',
+};
+
+const TIER_BAR_COLOURS: Record<string, string> = {
+  Bronze: 'bg-amber-500',
+  Silver: 'bg-gray-400',
+  Gold: 'bg-yellow-400',
+  Platinum: 'bg-purple-500',
+};
+
+interface DeletionStatus {
+  status: 'pending_confirmation' | 'scheduled';
+  requestedAt: string;
+  scheduledFor: string | null;
+}
+
+// Download a copy of everything we hold, or ask for the account to be erased
+function AccountData() {
+  const [deletion, setDeletion] = useState<DeletionStatus | null>(null);
+  const [graceDays, setGraceDays] = useState(30);
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  useEffect(() => {
+    fetchDeletion();
+  }, []);
+
+  const fetchDeletion = async () => {
+    try {
+      const response = await fetch('/api/me/deletion');
+      if (response.ok) {
+        const data = await response.json();
+        setDeletion(data.deletion);
+        setGraceDays(data.graceDays);
+      }
+    } catch (error) {
+      console.error('Failed to fetch deletion status:', error);
+    }
+  };
+
+  // Without a code this texts one; with the code it confirms the deletion
+  const requestDeletion = async (confirmationCode?: string) => {
+    setMessage(null);
+    try {
+      const response = await fetchWithReauth('/api/me', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(confirmationCode ? { code: confirmationCode } : {})
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setMessage({ text: apiErrorMessage(data, 'Request failed'), isError: true });
+        return;
+      }
+      if (confirmationCode) {
+        setCode('');
+        setMessage({ text: 'Your account is scheduled for deletion.', isError: false });
+      } else {
+        setMessage({ text: data.code ? `${data.message} (dev code: ${data.code})` : data.message, isError: false });
+      }
+      await fetchDeletion();
+    } catch (error) {
+      console.error('Failed to request deletion:', error);
+      setMessage({ text: 'Network error occurred', isError: true });
+    }
+  };
+
+  const cancelDeletion = async () => {
+    setMessage(null);
+    try {
+      const response = await fetch('/api/me/deletion/cancel', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        setMessage({ text: apiErrorMessage(data, 'Request failed'), isError: true });
+        return;
+      }
+      setMessage({ text: 'Deletion cancelled. Your account will stay open.', isError: false });
+      await fetchDeletion();
+    } catch (error) {
+      console.error('Failed to cancel deletion:', error);
+      setMessage({ text: 'Network error occurred', isError: true });
+    }
+  };
+
+  return (
+    <div className="lg:col-span-3 bg-white rounded-lg shadow-sm border p-6">
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Your Data</h2>
+
+      {deletion?.status === 'scheduled' && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800 flex justify-between items-center">
+          <span>
+            Your account will be permanently deleted on {deletion.scheduledFor ? new Date(deletion.scheduledFor).toLocaleDateString() : 'the scheduled date'}.
+          </span>
+          <button onClick={cancelDeletion} className="px-3 py-1 bg-white border border-red-300 rounded-md hover:bg-red-100">
+            Keep my account
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h3 className="font-medium text-gray-900">Download your data</h3>
+          <p className="text-sm text-gray-600 mb-3">
+            A ZIP file with your scores, badges, conversations, care plan and more, in JSON and CSV.
+          </p>
+          <button
+            onClick={async () => {
+              const error = await downloadWithReauth('/api/me/export', 'keepgoingcare-export.zip');
+              if (error) setMessage({ text: error, isError: true });
+            }}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Download
+          </button>
+        </div>
+
+        {deletion?.status !== 'scheduled' && (
+          <div>
+            <h3 className="font-medium text-gray-900">Delete your account</h3>
+            <p className="text-sm text-gray-600 mb-3">
+              We will text you a code to confirm. Your data is erased {graceDays} days later, and you can change your mind until then.
+            </p>
+            <p className="text-xs text-gray-500 mb-3">
+              Some records are kept after erasure because the law requires it: the access log of who viewed or changed your
+              records (without the network address and browser of your own visits), and the care plan instructions your
+              doctors wrote for you.
+            </p>
+            {deletion?.status === 'pending_confirmation' ? (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="6-digit code"
+                  className="w-32 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <button
+                  onClick={() => requestDeletion(code.trim())}
+                  disabled={code.trim().length !== 6}
+                  className="px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+                >
+                  Confirm deletion
                 </button>
-                <button className="w-full px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors">
-                  Generate Reports
+                <button onClick={cancelDeletion} className="px-3 py-2 text-sm bg-gray-100 rounded-md hover:bg-gray-200">
+                  Cancel
                 </button>
               </div>
-            </div>
+            ) : (
+              <button
+                onClick={() => requestDeletion()}
+                className="px-4 py-2 text-sm bg-red-600 text-white rounded-md hover:bg-red-700"
+              >
+                Delete my account
+              </button>
+            )}
           </div>
-        </div>
+        )}
       </div>
+
+      {message && (
+        <p className={`mt-3 text-sm ${message.isError ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
     </div>
   );
 }
@@ -111,13 +523,24 @@ function PatientDashboard({ user, onLogout }: { user: User; onLogout: () => void
   console.log('Patient dashboard for:', user.email);
   const [chatMessage, setChatMessage] = useState('');
   const [chatHistory, setChatHistory] = useState<Array<{text: string, isUser: boolean, timestamp: string}>>([]);
+  const [chatSessionId, setChatSessionId] = useState<number | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const streamAbortRef = useRef<AbortController | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [scores, setScores] = useState({ diet: 5, exercise: 5, medication: 5 });
   const [context, setContext] = useState<any>(null);
+  const [badgeProgress, setBadgeProgress] = useState<BadgeProgress[]>([]);
   const [showScoreInput, setShowScoreInput] = useState(false);
+  const [scoreError, setScoreError] = useState('');
+  const [timezone, setTimezone] = useState(user.timezone);
+  const [nudgeChannel, setNudgeChannel] = useState<NudgeChannel>(user.nudgeChannel);
+  const [nudgeChannelError, setNudgeChannelError] = useState('');
+  const deviceTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
   useEffect(() => {
     fetchPatientContext();
+    fetchBadgeProgress();
+    restoreLastConversation();
   }, []);
 
   const fetchPatientContext = async () => {
@@ -132,68 +555,193 @@ function PatientDashboard({ user, onLogout }: { user: User; onLogout: () => void
     }
   };
 
+  const fetchBadgeProgress = async () => {
+    try {
+      const response = await fetch('/api/patient/badges/progress');
+      if (response.ok) {
+        const data = await response.json();
+        setBadgeProgress(data.badges);
+      }
+    } catch (error) {
+      console.error('Failed to fetch badge progress:', error);
+    }
+  };
+
+  // Reload the most recent conversation so chat survives a page refresh
+  const restoreLastConversation = async () => {
+    try {
+      const listResponse = await fetch('/api/chat/sessions?limit=1');
+      if (!listResponse.ok) return;
+      const { sessions } = await listResponse.json();
+      if (sessions.length === 0) return;
+
+      const sessionResponse = await fetch(`/api/chat/sessions/${sessions[0].id}`);
+      if (!sessionResponse.ok) return;
+      const { session } = await sessionResponse.json();
+      setChatHistory(session.messages.map((m: { role: string; content: string; timestamp: string }) => ({
+        text: m.content,
+        isUser: m.role === 'user',
+        timestamp: new Date(m.timestamp).toLocaleTimeString()
+      })));
+      if (session.active) {
+        setChatSessionId(session.id);
+      }
+    } catch (error) {
+      console.error('Failed to restore conversation:', error);
+    }
+  };
+
+  const applyDeviceTimezone = async () => {
+    try {
+      const response = await fetch('/api/profile', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ timezone: deviceTimezone })
+      });
+      if (response.ok) {
+        const data = await response.json();
+        setTimezone(data.user.timezone);
+        await fetchPatientContext();
+      }
+    } catch (error) {
+      console.error('Failed to update timezone:', error);
+    }
+  };
+
+  const updateNudgeChannel = async (channel: NudgeChannel) => {
+    setNudgeChannelError('');
+    try {
+      const response = await fetch('/api/profile', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nudgeChannel: channel })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        setNudgeChannel(data.user.nudgeChannel);
+      } else {
+        setNudgeChannelError(data.error || 'Failed to update reminders');
+      }
+    } catch (error) {
+      console.error('Failed to update nudge channel:', error);
+      setNudgeChannelError('Network error occurred');
+    }
+  };
+
   const handleSendMessage = async () => {
-    if (!chatMessage.trim() || isSubmitting) return;
+    if (!chatMessage.trim() || isStreaming) return;
 
     const userMessage = chatMessage.trim();
     setChatMessage('');
-    setIsSubmitting(true);
+    setIsStreaming(true);
 
-    // Add user message to chat
+    // Add user message plus an empty reply that fills in as text streams
     const newUserMessage = {
       text: userMessage,
       isUser: true,
       timestamp: new Date().toLocaleTimeString()
     };
-    setChatHistory(prev => [...prev, newUserMessage]);
+    const replyMessage = {
+      text: '',
+      isUser: false,
+      timestamp: new Date().toLocaleTimeString()
+    };
+    setChatHistory(prev => [...prev, newUserMessage, replyMessage]);
+
+    const updateReply = (update: (text: string) => string) => {
+      setChatHistory(prev => {
+        const next = [...prev];
+        const last = next[next.length - 1];
+        next[next.length - 1] = { ...last, text: update(last.text) };
+        return next;
+      });
+    };
+
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
 
     try {
-      const response = await fetch('/api/chat', {
+      const response = await fetch('/api/chat/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: userMessage })
+        body: JSON.stringify({ message: userMessage, sessionId: chatSessionId ?? undefined }),
+        signal: controller.signal
       });
 
-      const data = await response.json();
-      
-      if (response.ok) {
-        const aiMessage = {
-          text: data.response,
-          isUser: false,
-          timestamp: new Date().toLocaleTimeString()
-        };
-        setChatHistory(prev => [...prev, aiMessage]);
-      } else {
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
         throw new Error(data.error || 'Failed to get response');
       }
+
+      // Parse Server-Sent Events: blocks of "event:" and "data:" lines separated by a blank line
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split('\n\n');
+        buffer = events.pop() || '';
+
+        for (const block of events) {
+          const event = block.match(/^event: (.*)$/m)?.[1];
+          const data = JSON.parse(block.match(/^data: (.*)$/m)?.[1] || '{}');
+          if (event === 'delta') {
+            updateReply(text => text + data.text);
+          } else if (event === 'done') {
+            setChatSessionId(data.sessionId);
+          } else if (event === 'error') {
+            throw new Error(data.error);
+          }
+        }
+      }
     } catch (error) {
-      const errorMessage = {
-        text: "I'm having trouble responding right now. Please try again.",
-        isUser: false,
-        timestamp: new Date().toLocaleTimeString()
-      };
-      setChatHistory(prev => [...prev, errorMessage]);
+      if (controller.signal.aborted) {
+        updateReply(text => `${text}${text ? ' ' : ''}(cancelled)`);
+      } else {
+        updateReply(text => text || "I'm having trouble responding right now. Please try again.");
+      }
     } finally {
-      setIsSubmitting(false);
+      streamAbortRef.current = null;
+      setIsStreaming(false);
     }
   };
 
+  const cancelStream = () => {
+    streamAbortRef.current?.abort();
+  };
+
   const handleSubmitScores = async () => {
     setIsSubmitting(true);
+    setScoreError('');
+    const payload = JSON.stringify({
+      dietScore: scores.diet,
+      exerciseScore: scores.exercise,
+      medicationScore: scores.medication
+    });
+
     try {
-      const response = await fetch('/api/scores', {
+      let response = await fetch('/api/scores', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          dietScore: scores.diet,
-          exerciseScore: scores.exercise,
-          medicationScore: scores.medication
-        })
+        body: payload
       });
+      let data = await response.json();
+
+      // Today's scores already exist: correct them instead
+      if (response.status === 409 && data.details?.scoreDate) {
+        response = await fetch(`/api/scores/${data.details.scoreDate}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: payload
+        });
+        data = await response.json();
+      }
 
       if (response.ok) {
         setShowScoreInput(false);
-        await fetchPatientContext(); // Refresh context after submitting scores
+        await Promise.all([fetchPatientContext(), fetchBadgeProgress()]); // Refresh after submitting scores
         
         // Add success message to chat
         const successMessage = {
@@ -201,10 +749,18 @@ function PatientDashboard({ user, onLogout }: { user: User; onLogout: () => void
           isUser: false,
           timestamp: new Date().toLocaleTimeString()
         };
-        setChatHistory(prev => [...prev, successMessage]);
+        const badgeMessages = (data.newBadges || []).map((badge: { badgeType: string; badgeLevel: string }) => ({
+          text: `🏅 Congratulations! You earned the ${badge.badgeLevel} ${badge.badgeType} badge.`,
+          isUser: false,
+          timestamp: new Date().toLocaleTimeString()
+        }));
+        setChatHistory(prev => [...prev, successMessage, ...badgeMessages]);
+      } else {
+        setScoreError(data.error || 'Failed to submit scores');
       }
     } catch (error) {
       console.error('Failed to submit scores:', error);
+      setScoreError('Network error occurred');
     } finally {
       setIsSubmitting(false);
     }
@@ -221,13 +777,41 @@ function PatientDashboard({ user, onLogout }: { user: User; onLogout: () => void
               <div>
                 <h1 className="text-2xl font-bold text-gray-900">Keep Going Care</h1>
                 <p className="text-gray-600">Your Personal Health Assistant</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Timezone: {timezone}
+                  {deviceTimezone && deviceTimezone !== timezone && (
+                    <button
+                      onClick={applyDeviceTimezone}
+                      className="ml-2 text-blue-600 hover:text-blue-800 underline"
+                    >
+                      Use {deviceTimezone}
+                    </button>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Reminders:
+                  <select
+                    value={nudgeChannel}
+                    onChange={(e) => updateNudgeChannel(e.target.value as NudgeChannel)}
+                    className="ml-2 text-xs border border-gray-300 rounded px-1 py-0.5"
+                  >
+                    {(Object.keys(NUDGE_CHANNEL_LABELS) as NudgeChannel[]).map(channel => (
+                      <option key={channel} value={channel}>{NUDGE_CHANNEL_LABELS[channel]}</option>
+                    ))}
+                  </select>
+                  {nudgeChannelError && <span className="ml-2 text-red-600">{nudgeChannelError}</span>}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <NotificationTray />
+                <DeviceMenu />
+                <button 
+                  onClick={onLogout}
+                  className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+                >
+                  Logout
+                </button>
               </div>
-              <button 
-                onClick={onLogout}
-                className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
-              >
-                Logout
-              </button>
             </div>
           </div>
 
@@ -302,6 +886,9 @@ function PatientDashboard({ user, onLogout }: { user: User; onLogout: () => void
                     className="w-full"
                   />
                 </div>
+                {scoreError && (
+                  <p className="text-sm text-red-600">{scoreError}</p>
+                )}
                 <div className="flex gap-2">
                   <button
                     onClick={handleSubmitScores}
@@ -340,7 +927,7 @@ function PatientDashboard({ user, onLogout }: { user: User; onLogout: () => void
                           ? 'bg-blue-600 text-white' 
                           : 'bg-white border text-gray-800'
                       }`}>
-                        <p className="text-sm">{message.text}</p>
+                        <p className="text-sm">{message.text || "…"}</p>
                         <p className={`text-xs mt-1 ${message.isUser ? 'text-blue-100' : 'text-gray-500'}`}>
                           {message.timestamp}
                         </p>
@@ -359,33 +946,78 @@ function PatientDashboard({ user, onLogout }: { user: User; onLogout: () => void
                 onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
                 placeholder="Ask about your health progress, goals, or get personalized advice..."
                 className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
-                disabled={isSubmitting}
+                disabled={isStreaming}
               />
-              <button
-                onClick={handleSendMessage}
-                disabled={isSubmitting || !chatMessage.trim()}
-                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
-              >
-                {isSubmitting ? '...' : 'Send'}
-              </button>
+              {isStreaming ? (
+                <button
+                  onClick={cancelStream}
+                  className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors"
+                >
+                  Stop
+                </button>
+              ) : (
+                <button
+                  onClick={handleSendMessage}
+                  disabled={!chatMessage.trim()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  Send
+                </button>
+              )}
             </div>
             
             <div className="mt-3 text-xs text-gray-500">
               💡 Try asking: "How am I doing with my health goals?" or "What should I focus on today?"
             </div>
           </div>
+
+          {/* Badge Progress */}
+          {badgeProgress.length > 0 && (
+            <div className="lg:col-span-3 bg-white rounded-lg shadow-sm border p-6">
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Badge Progress</h2>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                {badgeProgress.map(badge => (
+                  <div key={badge.badgeType}>
+                    <h3 className="font-medium text-gray-900">{badge.badgeType}</h3>
+                    <p className="text-xs text-gray-500 mb-3">
+                      {badge.nextTier ? `Working towards ${badge.nextTier}` : 'Every tier earned!'}
+                    </p>
+                    <div className="space-y-3">
+                      {badge.tiers.map(tier => (
+                        <div key={tier.ruleId} title={tier.criteria}>
+                          <div className="flex justify-between text-xs mb-1">
+                            <span className="font-medium text-gray-700">{tier.tier} ({tier.minScore}+)</span>
+                            <span className="text-gray-500">
+                              {tier.earned
+                                ? `🏅 Earned${tier.earnedDate ? ` ${new Date(tier.earnedDate).toLocaleDateString()}` : ''}`
+                                : `${tier.currentStreak}/${tier.requiredDays} days · ${tier.daysRemaining} to go`}
+                            </span>
+                          </div>
+                          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                            <div
+                              className={`h-full ${TIER_BAR_COLOURS[tier.tier] || 'bg-blue-500'}`}
+                              style={{ width: `${tier.earned ? 100 : (tier.currentStreak / tier.requiredDays) * 100}%` }}
+                            />
+                          </div>
+                          {tier.streakBroken && !tier.earned && (
+                            <p className="text-xs text-red-600 mt-1">Your last score was below {tier.minScore}, so this streak restarted.</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <AccountData />
         </div>
       </div>
     </div>
   );
 }
 
-interface User {
-  id: number;
-  email: string;
-  role: 'admin' | 'doctor' | 'patient';
-}
-
 function App() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
@@ -489,40 +1121,24 @@ function App() {
     );
   }
 
+  const handleSessionExpired = () => {
+    setUser(null);
+    setError('Your session expired due to inactivity. Please sign in again.');
+  };
+
   if (user) {
-    if (user.role === 'admin') {
-      return <AdminDashboard user={user} onLogout={handleLogout} />;
-    }
-    
-    if (user.role === 'patient') {
-      return <PatientDashboard user={user} onLogout={handleLogout} />;
-    }
-    
+    const dashboard = user.role === 'admin'
+      ? <AdminDashboard user={user} onLogout={handleLogout} />
+      : user.role === 'patient'
+        ? <PatientDashboard user={user} onLogout={handleLogout} />
+        : <DoctorDashboard user={user} onLogout={handleLogout} />;
+
     return (
-      <div className="min-h-screen bg-gray-50 p-8">
-        <div className="max-w-4xl mx-auto">
-          <div className="bg-white rounded-lg shadow-sm border p-6">
-            <div className="flex justify-between items-center mb-6">
-              <div>
-                <h1 className="text-2xl font-bold text-gray-900">Keep Going Care</h1>
-                <p className="text-gray-600 mt-1">Welcome back, {user.email}</p>
-              </div>
-              <button 
-                onClick={handleLogout}
-                className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
-              >
-                Logout
-              </button>
-            </div>
-            
-            <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-              <h2 className="text-lg font-semibold text-blue-900 mb-2">Dashboard</h2>
-              <p className="text-blue-800">Role: <span className="font-medium capitalize">{user.role}</span></p>
-              <p className="text-blue-800 mt-1">User ID: {user.id}</p>
-            </div>
-          </div>
-        </div>
-      </div>
+      <>
+        {dashboard}
+        <ReAuthDialog />
+        <SessionExpiryWarning onExpired={handleSessionExpired} onLogout={handleLogout} />
+      </>
     );
   }
 
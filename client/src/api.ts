@@ -0,0 +1,54 @@
+// Shared helpers for calling the server API
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// Error message from an API error body ({ error, details }), with the first validation message if any
+export function apiErrorMessage(data: unknown, fallback: string): string {
+  if (!isRecord(data)) return fallback;
+  const error = typeof data.error === 'string' ? data.error : undefined;
+  const fieldErrors = isRecord(data.details) && 'fieldErrors' in data.details ? data.details.fieldErrors : data.details;
+  const first = isRecord(fieldErrors)
+    ? Object.values(fieldErrors).flat().find((message): message is string => typeof message === 'string')
+    : undefined;
+  if (!error) return first || fallback;
+  return first ? `${error}: ${first}` : error;
+}
+
+// Set while a ReAuthDialog is mounted; resolves true once the user re-confirms
+let requestReauth: (() => Promise<boolean>) | null = null;
+
+export function setReauthHandler(handler: (() => Promise<boolean>) | null) {
+  requestReauth = handler;
+}
+
+// fetch, but a 428 (sensitive action without a recent SMS code) opens the
+// re-auth prompt and retries once the user has confirmed
+export async function fetchWithReauth(input: string, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+  if (response.status !== 428 || !requestReauth) return response;
+  return (await requestReauth()) ? fetch(input, init) : response;
+}
+
+// Save a file from an endpoint that may need re-auth; returns an error message on failure
+export async function downloadWithReauth(url: string, fallbackName: string): Promise<string | null> {
+  try {
+    const response = await fetchWithReauth(url);
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      return apiErrorMessage(data, 'Download failed');
+    }
+    const disposition = response.headers.get('Content-Disposition') || '';
+    const filename = disposition.match(/filename="?([^";]+)"?/)?.[1] || fallbackName;
+    const objectUrl = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(objectUrl);
+    return null;
+  } catch (error) {
+    console.error('Download error:', error);
+    return 'Network error occurred';
+  }
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react';
+
+interface ActiveSession {
+  id: string;
+  current: boolean;
+  loginAt: string | null;
+  lastActivity: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+// Signed-in devices, with a way to sign out all but this one
+function DeviceMenu() {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [open, setOpen] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const fetchSessions = async () => {
+    try {
+      const response = await fetch('/api/auth/sessions');
+      if (response.ok) {
+        setSessions((await response.json()).sessions);
+      }
+    } catch (error) {
+      console.error('Failed to fetch sessions:', error);
+    }
+  };
+
+  const toggleMenu = () => {
+    const opening = !open;
+    setOpen(opening);
+    setMessage('');
+    if (opening) fetchSessions();
+  };
+
+  const logoutOthers = async () => {
+    try {
+      const response = await fetch('/api/auth/sessions/logout-others', { method: 'POST' });
+      const data = await response.json();
+      if (response.ok) {
+        setMessage(`Signed out ${data.loggedOut} other device${data.loggedOut === 1 ? '' : 's'}`);
+        fetchSessions();
+      } else {
+        setMessage(data.error || 'Failed to sign out other devices');
+      }
+    } catch (error) {
+      console.error('Failed to log out other devices:', error);
+      setMessage('Network error occurred');
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggleMenu}
+        className="px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+        aria-label="Signed-in devices"
+      >
+        💻
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border rounded-lg shadow-lg z-10">
+          <div className="px-4 py-2 border-b font-medium text-gray-900">Signed-in devices</div>
+          <div className="max-h-96 overflow-y-auto">
+            {sessions.map(s => (
+              <div key={s.id} className="px-4 py-3 border-b last:border-b-0">
+                <p className="text-sm text-gray-900 truncate" title={s.userAgent || undefined}>
+                  {s.userAgent || 'Unknown browser'}
+                  {s.current && <span className="ml-2 text-xs text-green-700">This device</span>}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {s.ipAddress || 'Unknown address'}
+                  {s.lastActivity && ` · active ${new Date(s.lastActivity).toLocaleString()}`}
+                </p>
+              </div>
+            ))}
+          </div>
+          <div className="px-4 py-2 border-t">
+            <button
+              onClick={logoutOthers}
+              disabled={!sessions.some(s => !s.current)}
+              className="text-sm text-red-600 hover:text-red-800 disabled:opacity-50"
+            >
+              Log out other devices
+            </button>
+            {message && <p className="text-xs text-gray-600 mt-1">{message}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DeviceMenu;
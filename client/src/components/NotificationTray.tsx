@@ -0,0 +1,146 @@
+import { useState, useEffect } from 'react';
+
+interface AppNotification {
+  id: number;
+  type: 'badge_awarded' | 'care_plan_updated' | 'nudge' | 'doctor_message' | 'safety_escalation';
+  title: string;
+  body: string;
+  readAt: string | null;
+  createdAt: string;
+}
+
+type NotificationEvent =
+  | { type: 'snapshot'; notifications: AppNotification[]; unreadCount: number }
+  | { type: 'notification'; notification: AppNotification }
+  | { type: 'read'; ids: number[]; unreadCount: number };
+
+const NOTIFICATION_ICONS: Record<AppNotification['type'], string> = {
+  badge_awarded: '🏅',
+  care_plan_updated: '📋',
+  nudge: '💬',
+  doctor_message: '🩺',
+  safety_escalation: '⚠️',
+};
+
+// Bell with unread count; live updates arrive over the notification socket
+function NotificationTray() {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let retryTimer: number | undefined;
+    let retryDelay = 1000;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+      socket = new WebSocket(`${protocol}://${window.location.host}/ws/notifications`);
+      socket.onopen = () => { retryDelay = 1000; };
+      socket.onmessage = (message) => {
+        const event: NotificationEvent = JSON.parse(message.data);
+        if (event.type === 'snapshot') {
+          setNotifications(event.notifications);
+          setUnreadCount(event.unreadCount);
+        } else if (event.type === 'notification') {
+          setNotifications(prev => [event.notification, ...prev.filter(n => n.id !== event.notification.id)]);
+          setUnreadCount(prev => prev + 1);
+        } else if (event.type === 'read') {
+          const readAt = new Date().toISOString();
+          setNotifications(prev => prev.map(n => event.ids.includes(n.id) ? { ...n, readAt: n.readAt || readAt } : n));
+          setUnreadCount(event.unreadCount);
+        }
+      };
+      socket.onclose = (event) => {
+        // 4001: the session was logged out; anything else is worth a retry
+        if (closed || event.code === 4001) return;
+        retryTimer = window.setTimeout(connect, retryDelay);
+        retryDelay = Math.min(retryDelay * 2, 30000);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      window.clearTimeout(retryTimer);
+      socket?.close();
+    };
+  }, []);
+
+  const toggleTray = async () => {
+    const opening = !open;
+    setOpen(opening);
+    if (!opening) return;
+    try {
+      const response = await fetch('/api/notifications?limit=20');
+      if (response.ok) {
+        const data = await response.json();
+        setNotifications(data.notifications);
+        setUnreadCount(data.unreadCount);
+      }
+    } catch (error) {
+      console.error('Failed to fetch notifications:', error);
+    }
+  };
+
+  const markRead = async (ids?: number[]) => {
+    try {
+      await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {})
+      });
+    } catch (error) {
+      console.error('Failed to mark notifications read:', error);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggleTray}
+        className="relative px-3 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-md transition-colors"
+        aria-label={`Notifications (${unreadCount} unread)`}
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 text-xs leading-5 text-white bg-red-600 rounded-full">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border rounded-lg shadow-lg z-10">
+          <div className="flex justify-between items-center px-4 py-2 border-b">
+            <span className="font-medium text-gray-900">Notifications</span>
+            {unreadCount > 0 && (
+              <button onClick={() => markRead()} className="text-xs text-blue-600 hover:text-blue-800">
+                Mark all read
+              </button>
+            )}
+          </div>
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-center text-gray-500">No notifications yet</p>
+            ) : notifications.map(notification => (
+              <button
+                key={notification.id}
+                onClick={() => !notification.readAt && markRead([notification.id])}
+                className={`w-full text-left px-4 py-3 border-b last:border-b-0 ${notification.readAt ? 'bg-white' : 'bg-blue-50'}`}
+              >
+                <p className="text-sm font-medium text-gray-900">
+                  {NOTIFICATION_ICONS[notification.type]} {notification.title}
+                </p>
+                <p className="text-sm text-gray-700 mt-1">{notification.body}</p>
+                <p className="text-xs text-gray-500 mt-1">{new Date(notification.createdAt).toLocaleString()}</p>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default NotificationTray;
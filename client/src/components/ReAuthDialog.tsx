@@ -0,0 +1,111 @@
+import { useState, useEffect } from 'react';
+import { apiErrorMessage, setReauthHandler } from '../api';
+
+// Prompt for a fresh SMS code when the server asks for step-up re-auth
+function ReAuthDialog() {
+  const [pending, setPending] = useState<((confirmed: boolean) => void) | null>(null);
+  const [code, setCode] = useState('');
+  const [status, setStatus] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    setReauthHandler(() => new Promise<boolean>(resolve => {
+      setCode('');
+      setError('');
+      setPending(() => resolve);
+      sendCode();
+    }));
+    return () => setReauthHandler(null);
+  }, []);
+
+  const sendCode = async () => {
+    setError('');
+    setStatus('Sending a verification code…');
+    try {
+      const response = await fetch('/api/auth/challenge', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        setStatus('');
+        setError(data.error || 'Failed to send verification code');
+        return;
+      }
+      setStatus(data.message);
+      // In development, show the code
+      if (data.code) setCode(data.code);
+    } catch (error) {
+      setStatus('');
+      setError('Network error occurred');
+    }
+  };
+
+  const close = (confirmed: boolean) => {
+    pending?.(confirmed);
+    setPending(null);
+  };
+
+  const verify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const response = await fetch('/api/auth/verify-challenge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ code })
+      });
+      const data = await response.json();
+      if (response.ok) {
+        close(true);
+      } else {
+        setError(apiErrorMessage(data, 'Invalid verification code'));
+      }
+    } catch (error) {
+      setError('Network error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!pending) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+      <form onSubmit={verify} className="bg-white rounded-lg shadow-lg p-6 w-full max-w-sm" role="dialog" aria-labelledby="reauth-title">
+        <h2 id="reauth-title" className="text-lg font-semibold text-gray-900">Confirm it's you</h2>
+        <p className="text-sm text-gray-600 mt-2">This action needs a fresh verification code.</p>
+        {status && <p className="text-xs text-gray-500 mt-2">{status}</p>}
+        <input
+          type="text"
+          inputMode="numeric"
+          maxLength={6}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="6-digit code"
+          className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+          autoFocus
+        />
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+        <div className="flex justify-between items-center mt-4">
+          <button type="button" onClick={sendCode} className="text-sm text-blue-600 hover:text-blue-800">
+            Resend code
+          </button>
+          <div className="flex gap-2">
+            <button type="button" onClick={() => close(false)} className="px-4 py-2 text-sm bg-gray-100 hover:bg-gray-200 rounded-md">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting || code.trim().length !== 6}
+              className="px-4 py-2 text-sm bg-blue-600 text-white hover:bg-blue-700 rounded-md disabled:opacity-50"
+            >
+              Verify
+            </button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+export default ReAuthDialog;
@@ -0,0 +1,310 @@
+import { useState, useEffect } from 'react';
+import type { User } from '../../types';
+import NotificationTray from '../NotificationTray';
+import DeviceMenu from '../DeviceMenu';
+import UserManagement from './UserManagement';
+import AuditLog from './AuditLog';
+import PendingDeletions from './PendingDeletions';
+
+interface SmsMessage {
+  id: number;
+  recipient: string;
+  template: string;
+  status: 'pending' | 'sent' | 'delivered' | 'failed';
+  error: string | null;
+  createdAt: string;
+}
+
+interface DailyCount {
+  date: string;
+  count: number;
+}
+
+interface SystemHealth {
+  status: 'operational' | 'degraded' | 'down';
+  database: { ok: boolean; latencyMs: number; error?: string };
+  ai: {
+    status: 'ok' | 'degraded' | 'down';
+    providers: { provider: string; model: string; ok: boolean; latencyMs: number; error?: string }[];
+  };
+  checkedAt: string;
+}
+
+interface AdminStats {
+  totalUsers: number;
+  totalAdmins: number;
+  totalDoctors: number;
+  totalPatients: number;
+  activePatients: number;
+  deactivatedUsers: number;
+  systemStatus: SystemHealth['status'];
+  health: SystemHealth;
+  window: { from: string; to: string; days: number };
+  dailyActivePatients: DailyCount[];
+  scoreSubmissions: DailyCount[];
+  chat: { activeSessions: number; patientMessages: number; daily: DailyCount[] };
+  averageScores: { diet: number | null; exercise: number | null; medication: number | null; submissions: number };
+  badgeAwards: { total: number; inWindow: number; daily: DailyCount[]; byType: { badgeType: string; count: number }[] };
+  doctorVerification: { verified: number; unverified: number };
+}
+
+const SYSTEM_STATUS_STYLES: Record<SystemHealth['status'], { label: string; className: string }> = {
+  operational: { label: '✓ Operational', className: 'text-green-600' },
+  degraded: { label: '! Degraded', className: 'text-yellow-600' },
+  down: { label: '✕ Down', className: 'text-red-600' },
+};
+
+// One bar per day; hover a bar for its date and value
+function DailyBarChart({ title, data, barClass }: { title: string; data: DailyCount[]; barClass: string }) {
+  const max = Math.max(1, ...data.map(d => d.count));
+  const total = data.reduce((sum, d) => sum + d.count, 0);
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex justify-between items-baseline mb-3">
+        <h4 className="text-sm font-semibold text-gray-900">{title}</h4>
+        <span className="text-xs text-gray-500">{total} total</span>
+      </div>
+      <div className="flex items-end gap-px h-24">
+        {data.map(d => (
+          <div key={d.date} className="flex-1 h-full flex items-end" title={`${d.date}: ${d.count}`}>
+            <div className={`w-full rounded-t ${barClass}`} style={{ height: `${(d.count / max) * 100}%` }} />
+          </div>
+        ))}
+      </div>
+      {data.length > 0 && (
+        <div className="flex justify-between mt-1 text-xs text-gray-400">
+          <span>{data[0].date.slice(5)}</span>
+          <span>{data[data.length - 1].date.slice(5)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AdminDashboard({ user, onLogout }: { user: User; onLogout: () => void }) {
+  const [stats, setStats] = useState<AdminStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [smsLog, setSmsLog] = useState<{ transport: string; messages: SmsMessage[] } | null>(null);
+  const [showUsers, setShowUsers] = useState(false);
+  const [showAudit, setShowAudit] = useState(false);
+  const [showDeletions, setShowDeletions] = useState(false);
+
+  useEffect(() => {
+    fetchStats();
+    fetchSmsLog();
+  }, []);
+
+  const fetchSmsLog = async () => {
+    try {
+      const response = await fetch('/api/admin/sms-messages?limit=10');
+      if (response.ok) {
+        setSmsLog(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to fetch SMS log:', error);
+    }
+  };
+
+  const fetchStats = async () => {
+    try {
+      const response = await fetch('/api/admin/stats');
+      if (response.ok) {
+        const data = await response.json();
+        setStats(data.stats);
+      }
+    } catch (error) {
+      console.error('Failed to fetch admin stats:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Keep Going Care Admin Dashboard</h1>
+              <p className="text-gray-600 mt-1">System Administrator: {user.email}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <NotificationTray />
+              <DeviceMenu />
+              <button 
+                onClick={onLogout}
+                className="px-4 py-2 text-sm bg-red-100 hover:bg-red-200 text-red-700 rounded-md transition-colors"
+              >
+                Logout
+              </button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="text-lg text-gray-600">Loading dashboard...</div>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-blue-900 mb-2">Total Users</h3>
+                <p className="text-3xl font-bold text-blue-800">{stats?.totalUsers || 0}</p>
+              </div>
+              
+              <div className="bg-green-50 border border-green-200 rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-green-900 mb-2">Active Patients</h3>
+                <p className="text-3xl font-bold text-green-800">{stats?.activePatients || 0}</p>
+                <p className="text-sm text-green-700 mt-1">of {stats?.totalPatients || 0} patients</p>
+              </div>
+              
+              <div className="bg-purple-50 border border-purple-200 rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-purple-900 mb-2">Doctors</h3>
+                <p className="text-3xl font-bold text-purple-800">{stats?.totalDoctors || 0}</p>
+                <p className="text-sm text-purple-700 mt-1">
+                  {stats?.doctorVerification.verified || 0} verified · {stats?.doctorVerification.unverified || 0} unverified
+                </p>
+              </div>
+              
+              <div className="bg-orange-50 border border-orange-200 rounded-lg p-6">
+                <h3 className="text-lg font-semibold text-orange-900 mb-2">System Status</h3>
+                <p className={`text-lg font-semibold ${stats ? SYSTEM_STATUS_STYLES[stats.systemStatus].className : 'text-gray-500'}`}>
+                  {stats ? SYSTEM_STATUS_STYLES[stats.systemStatus].label : 'Unknown'}
+                </p>
+                {stats && (
+                  <div className="mt-2 space-y-1 text-xs text-gray-600">
+                    <div title={stats.health.database.error}>
+                      Database: {stats.health.database.ok ? `ok (${stats.health.database.latencyMs}ms)` : 'unreachable'}
+                    </div>
+                    {stats.health.ai.providers.map(p => (
+                      <div key={p.provider} title={p.error}>
+                        AI {p.provider}: {p.ok ? `ok (${p.latencyMs}ms)` : 'unreachable'}
+                      </div>
+                    ))}
+                    {stats.health.ai.providers.length === 0 && <div>AI: no provider configured</div>}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {stats && (
+            <div className="mb-8">
+              <h3 className="text-xl font-semibold text-gray-900 mb-4">
+                Last {stats.window.days} Days <span className="text-sm font-normal text-gray-500">({stats.window.from} to {stats.window.to}, UTC)</span>
+              </h3>
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 mb-4">
+                <DailyBarChart title="Daily Active Patients" data={stats.dailyActivePatients} barClass="bg-green-500" />
+                <DailyBarChart title="Score Submissions" data={stats.scoreSubmissions} barClass="bg-blue-500" />
+                <DailyBarChart title="Patient Chat Messages" data={stats.chat.daily} barClass="bg-purple-500" />
+              </div>
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+                <div className="bg-white border border-gray-200 rounded-lg p-4">
+                  <h4 className="text-sm font-semibold text-gray-900 mb-3">Average Scores</h4>
+                  {([['Diet', stats.averageScores.diet], ['Exercise', stats.averageScores.exercise], ['Medication', stats.averageScores.medication]] as const).map(([label, value]) => (
+                    <div key={label} className="mb-2">
+                      <div className="flex justify-between text-xs text-gray-600 mb-1">
+                        <span>{label}</span>
+                        <span>{value ?? '—'} / 10</span>
+                      </div>
+                      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-500" style={{ width: `${((value ?? 0) / 10) * 100}%` }} />
+                      </div>
+                    </div>
+                  ))}
+                  <p className="text-xs text-gray-500 mt-2">From {stats.averageScores.submissions} submissions</p>
+                </div>
+                <div className="bg-white border border-gray-200 rounded-lg p-4">
+                  <h4 className="text-sm font-semibold text-gray-900 mb-3">Chat</h4>
+                  <p className="text-2xl font-bold text-gray-900">{stats.chat.patientMessages}</p>
+                  <p className="text-xs text-gray-500 mb-3">patient messages</p>
+                  <p className="text-2xl font-bold text-gray-900">{stats.chat.activeSessions}</p>
+                  <p className="text-xs text-gray-500">active sessions</p>
+                </div>
+                <div className="bg-white border border-gray-200 rounded-lg p-4">
+                  <div className="flex justify-between items-baseline mb-3">
+                    <h4 className="text-sm font-semibold text-gray-900">Badge Awards</h4>
+                    <span className="text-xs text-gray-500">{stats.badgeAwards.total} all time</span>
+                  </div>
+                  <p className="text-2xl font-bold text-gray-900">{stats.badgeAwards.inWindow}</p>
+                  <p className="text-xs text-gray-500 mb-3">awarded in this period</p>
+                  {stats.badgeAwards.byType.map(b => (
+                    <div key={b.badgeType} className="flex justify-between text-xs text-gray-600">
+                      <span>{b.badgeType}</span>
+                      <span>{b.count}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
+              <h3 className="text-xl font-semibold text-gray-900 mb-4">SMS Integration Status</h3>
+              <div className="space-y-3">
+                <div className="flex items-center gap-3">
+                  <div className={`w-3 h-3 rounded-full ${smsLog?.transport === 'twilio' ? 'bg-green-500' : 'bg-yellow-500'}`}></div>
+                  <span className="text-gray-700">
+                    Transport: <span className="font-medium">{smsLog?.transport || 'unknown'}</span>
+                  </span>
+                </div>
+                {smsLog && smsLog.messages.length === 0 && (
+                  <p className="text-sm text-gray-500">No SMS messages sent yet.</p>
+                )}
+                {smsLog?.messages.map((message) => (
+                  <div key={message.id} className="flex items-center justify-between text-sm">
+                    <span className="text-gray-700">
+                      {message.recipient} · {message.template}
+                    </span>
+                    <span
+                      title={message.error || undefined}
+                      className={`font-medium ${
+                        message.status === 'failed' ? 'text-red-600' :
+                        message.status === 'delivered' ? 'text-green-600' : 'text-gray-600'
+                      }`}
+                    >
+                      {message.status}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
+              <h3 className="text-xl font-semibold text-gray-900 mb-4">Quick Actions</h3>
+              <div className="space-y-3">
+                <button
+                  onClick={() => setShowUsers(!showUsers)}
+                  className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  {showUsers ? 'Hide Users' : 'Manage Users'}
+                </button>
+                <button
+                  onClick={() => setShowAudit(!showAudit)}
+                  className="w-full px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+                >
+                  {showAudit ? 'Hide Audit Trail' : 'View Audit Trail'}
+                </button>
+                <button
+                  onClick={() => setShowDeletions(!showDeletions)}
+                  className="w-full px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors"
+                >
+                  {showDeletions ? 'Hide Pending Deletions' : 'Pending Deletions'}
+                </button>
+                <button className="w-full px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors">
+                  Generate Reports
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {showUsers && <UserManagement currentUserId={user.id} />}
+          {showAudit && <AuditLog />}
+          {showDeletions && <PendingDeletions />}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AdminDashboard;
@@ -0,0 +1,144 @@
+import { useState, useEffect } from 'react';
+
+interface AuditEvent {
+  id: number;
+  occurredAt: string;
+  userId: number | null;
+  role: string | null;
+  action: 'read' | 'create' | 'update' | 'delete';
+  dataType: string;
+  patientId: number | null;
+  resourceId: string | null;
+  method: string;
+  path: string;
+  statusCode: number;
+  ipAddress: string | null;
+}
+
+function AuditLog() {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState({ userId: '', patientId: '', action: '', dataType: '', from: '', to: '' });
+  const [chain, setChain] = useState<{ valid: boolean; checked: number; brokenAt?: { id: number; reason: string } } | null>(null);
+  const pageSize = 50;
+
+  const query = (extra: Record<string, string> = {}) => {
+    const params = new URLSearchParams(extra);
+    Object.entries(filters).forEach(([key, value]) => { if (value.trim()) params.set(key, value.trim()); });
+    return params.toString();
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, [page]);
+
+  const fetchEvents = async () => {
+    try {
+      const response = await fetch(`/api/admin/audit?${query({ page: String(page), pageSize: String(pageSize) })}`);
+      if (response.ok) {
+        const data = await response.json();
+        setEvents(data.events);
+        setTotal(data.total);
+      }
+    } catch (error) {
+      console.error('Failed to fetch audit events:', error);
+    }
+  };
+
+  const verifyChain = async () => {
+    try {
+      const response = await fetch('/api/admin/audit/verify');
+      if (response.ok) {
+        setChain(await response.json());
+      }
+    } catch (error) {
+      console.error('Failed to verify audit trail:', error);
+    }
+  };
+
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (page === 1) fetchEvents();
+    else setPage(1);
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm';
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="mt-8 bg-gray-50 border border-gray-200 rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-semibold text-gray-900">Audit Trail</h3>
+        <div className="flex items-center gap-3 text-sm">
+          {chain && (
+            <span className={chain.valid ? 'text-green-700' : 'text-red-600'} title={chain.brokenAt?.reason}>
+              {chain.valid ? `✓ Chain intact (${chain.checked} events)` : `✕ Chain broken at event ${chain.brokenAt?.id}`}
+            </span>
+          )}
+          <button onClick={verifyChain} className="px-3 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">Verify</button>
+          <a href={`/api/admin/audit?${query({ format: 'csv' })}`} className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+            Export CSV
+          </a>
+        </div>
+      </div>
+
+      <form onSubmit={applyFilters} className="flex flex-wrap gap-2 mb-4">
+        <input placeholder="User ID" value={filters.userId} onChange={(e) => setFilters({ ...filters, userId: e.target.value })} className={`${inputClass} w-24`} />
+        <input placeholder="Patient ID" value={filters.patientId} onChange={(e) => setFilters({ ...filters, patientId: e.target.value })} className={`${inputClass} w-24`} />
+        <select value={filters.action} onChange={(e) => setFilters({ ...filters, action: e.target.value })} className={inputClass}>
+          <option value="">Any action</option>
+          <option value="read">Read</option>
+          <option value="create">Create</option>
+          <option value="update">Update</option>
+          <option value="delete">Delete</option>
+        </select>
+        <input placeholder="Data type" value={filters.dataType} onChange={(e) => setFilters({ ...filters, dataType: e.target.value })} className={`${inputClass} w-32`} />
+        <input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} className={inputClass} />
+        <input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} className={inputClass} />
+        <button type="submit" className="px-3 py-2 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">Filter</button>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2 pr-3">When</th>
+              <th className="py-2 pr-3">User</th>
+              <th className="py-2 pr-3">Action</th>
+              <th className="py-2 pr-3">Data</th>
+              <th className="py-2 pr-3">Patient</th>
+              <th className="py-2 pr-3">Request</th>
+              <th className="py-2">From</th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.map(event => (
+              <tr key={event.id} className="border-b">
+                <td className="py-1 pr-3 whitespace-nowrap">{new Date(event.occurredAt).toLocaleString()}</td>
+                <td className="py-1 pr-3">{event.userId ?? '—'} {event.role && <span className="text-gray-500">({event.role})</span>}</td>
+                <td className="py-1 pr-3">{event.action}</td>
+                <td className="py-1 pr-3">{event.dataType}{event.resourceId && <span className="text-gray-500"> #{event.resourceId}</span>}</td>
+                <td className="py-1 pr-3">{event.patientId ?? '—'}</td>
+                <td className={`py-1 pr-3 ${event.statusCode >= 400 ? 'text-red-600' : ''}`}>{event.method} {event.path} · {event.statusCode}</td>
+                <td className="py-1">{event.ipAddress || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {events.length === 0 && <p className="py-4 text-sm text-gray-500">No audit events match these filters.</p>}
+      </div>
+
+      <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+        <span>{total} event{total === 1 ? '' : 's'}</span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1} className="px-2 py-1 border rounded disabled:opacity-50">Previous</button>
+          <span>Page {page} of {totalPages}</span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= totalPages} className="px-2 py-1 border rounded disabled:opacity-50">Next</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default AuditLog;
@@ -0,0 +1,75 @@
+import { useState, useEffect } from 'react';
+
+interface PendingDeletion {
+  requestId: number;
+  userId: number;
+  email: string;
+  name: string | null;
+  status: 'pending_confirmation' | 'scheduled';
+  requestedAt: string;
+  confirmedAt: string | null;
+  scheduledFor: string | null;
+}
+
+function PendingDeletions() {
+  const [deletions, setDeletions] = useState<PendingDeletion[]>([]);
+  const [graceDays, setGraceDays] = useState<number | null>(null);
+
+  useEffect(() => {
+    fetchDeletions();
+  }, []);
+
+  const fetchDeletions = async () => {
+    try {
+      const response = await fetch('/api/admin/deletions');
+      if (response.ok) {
+        const data = await response.json();
+        setDeletions(data.deletions);
+        setGraceDays(data.graceDays);
+      }
+    } catch (error) {
+      console.error('Failed to fetch pending deletions:', error);
+    }
+  };
+
+  return (
+    <div className="mt-8 bg-gray-50 border border-gray-200 rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-semibold text-gray-900">Pending Account Deletions</h3>
+        {graceDays !== null && <span className="text-sm text-gray-500">Erased {graceDays} days after confirmation</span>}
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2 pr-3">Patient</th>
+              <th className="py-2 pr-3">Status</th>
+              <th className="py-2 pr-3">Requested</th>
+              <th className="py-2">Erasure due</th>
+            </tr>
+          </thead>
+          <tbody>
+            {deletions.map(deletion => (
+              <tr key={deletion.requestId} className="border-b">
+                <td className="py-2 pr-3">
+                  <div className="font-medium text-gray-900">{deletion.name || deletion.email}</div>
+                  <div className="text-xs text-gray-500">#{deletion.userId} · {deletion.email}</div>
+                </td>
+                <td className="py-2 pr-3">
+                  {deletion.status === 'scheduled'
+                    ? <span className="text-red-600">Confirmed</span>
+                    : <span className="text-yellow-700">Awaiting SMS confirmation</span>}
+                </td>
+                <td className="py-2 pr-3">{new Date(deletion.requestedAt).toLocaleString()}</td>
+                <td className="py-2">{deletion.scheduledFor ? new Date(deletion.scheduledFor).toLocaleDateString() : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {deletions.length === 0 && <p className="py-4 text-sm text-gray-500">No accounts are waiting to be deleted.</p>}
+      </div>
+    </div>
+  );
+}
+
+export default PendingDeletions;
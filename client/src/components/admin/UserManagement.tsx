@@ -0,0 +1,333 @@
+import { useState, useEffect } from 'react';
+import { apiErrorMessage, fetchWithReauth } from '../../api';
+
+interface AdminUser {
+  id: number;
+  email: string;
+  role: 'admin' | 'doctor' | 'patient';
+  name: string | null;
+  phoneNumber: string | null;
+  timezone: string;
+  isActive: boolean;
+  createdAt: string;
+  doctor?: { id: number; specialization: string | null; licenseNumber: string | null; patientCount: number };
+  assignedDoctors?: { doctorId: number; name: string }[];
+}
+
+interface UserForm {
+  role: 'doctor' | 'patient';
+  name: string;
+  email: string;
+  phoneNumber: string;
+  specialization: string;
+  licenseNumber: string;
+}
+
+const EMPTY_USER_FORM: UserForm = { role: 'patient', name: '', email: '', phoneNumber: '', specialization: '', licenseNumber: '' };
+
+
+function UserManagement({ currentUserId }: { currentUserId: number }) {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState('');
+  const [roleFilter, setRoleFilter] = useState('');
+  const [statusFilter, setStatusFilter] = useState('');
+  const [doctors, setDoctors] = useState<AdminUser[]>([]);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [form, setForm] = useState<UserForm>(EMPTY_USER_FORM);
+  const [showCreate, setShowCreate] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [assigningId, setAssigningId] = useState<number | null>(null);
+  const [selectedDoctorIds, setSelectedDoctorIds] = useState<number[]>([]);
+  const pageSize = 20;
+
+  useEffect(() => {
+    fetchUsers();
+  }, [page, roleFilter, statusFilter]);
+
+  useEffect(() => {
+    fetchDoctors();
+  }, []);
+
+  const fetchUsers = async () => {
+    const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize) });
+    if (search.trim()) params.set('search', search.trim());
+    if (roleFilter) params.set('role', roleFilter);
+    if (statusFilter) params.set('isActive', statusFilter);
+    try {
+      const response = await fetch(`/api/admin/users?${params}`);
+      if (response.ok) {
+        const data = await response.json();
+        setUsers(data.users);
+        setTotal(data.total);
+      }
+    } catch (error) {
+      console.error('Failed to fetch users:', error);
+    }
+  };
+
+  const fetchDoctors = async () => {
+    try {
+      const response = await fetch('/api/admin/users?role=doctor&isActive=true&pageSize=100');
+      if (response.ok) {
+        setDoctors((await response.json()).users);
+      }
+    } catch (error) {
+      console.error('Failed to fetch doctors:', error);
+    }
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (page === 1) fetchUsers();
+    else setPage(1);
+  };
+
+  // Shared by create, edit, (de)activate and assignment calls
+  const send = async (url: string, method: string, body: unknown, success: string) => {
+    try {
+      const response = await fetchWithReauth(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setMessage({ text: apiErrorMessage(data, 'Request failed'), isError: true });
+        return false;
+      }
+      setMessage({ text: success, isError: false });
+      fetchUsers();
+      fetchDoctors();
+      return true;
+    } catch (error) {
+      console.error('User management error:', error);
+      setMessage({ text: 'Network error occurred', isError: true });
+      return false;
+    }
+  };
+
+  const startEdit = (target: AdminUser) => {
+    setAssigningId(null);
+    setShowCreate(false);
+    setEditingId(target.id);
+    setForm({
+      role: target.role === 'doctor' ? 'doctor' : 'patient',
+      name: target.name || '',
+      email: target.email,
+      phoneNumber: target.phoneNumber || '',
+      specialization: target.doctor?.specialization || '',
+      licenseNumber: target.doctor?.licenseNumber || '',
+    });
+  };
+
+  const startAssign = (target: AdminUser) => {
+    setEditingId(null);
+    setShowCreate(false);
+    setAssigningId(target.id);
+    setSelectedDoctorIds(target.assignedDoctors?.map(d => d.doctorId) || []);
+  };
+
+  const submitForm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const doctorFields = form.role === 'doctor'
+      ? { specialization: form.specialization.trim() || null, licenseNumber: form.licenseNumber.trim() || null }
+      : {};
+    const contact = { name: form.name, email: form.email, phoneNumber: form.phoneNumber.trim() || null, ...doctorFields };
+
+    const ok = editingId
+      ? await send(`/api/admin/users/${editingId}`, 'PATCH', contact, 'User updated')
+      : await send('/api/admin/users', 'POST', { role: form.role, ...contact }, `${form.role === 'doctor' ? 'Doctor' : 'Patient'} created`);
+    if (ok) {
+      setEditingId(null);
+      setShowCreate(false);
+      setForm(EMPTY_USER_FORM);
+    }
+  };
+
+  const toggleActive = (target: AdminUser) => {
+    const label = target.name || target.email;
+    send(`/api/admin/users/${target.id}`, 'PATCH', { isActive: !target.isActive },
+      `${label} ${target.isActive ? 'deactivated' : 'reactivated'}`);
+  };
+
+  const saveAssignment = async () => {
+    if (assigningId === null) return;
+    const ok = await send(`/api/admin/patients/${assigningId}/doctors`, 'PUT', { doctorIds: selectedDoctorIds }, 'Care team updated');
+    if (ok) setAssigningId(null);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / pageSize));
+  const assigning = users.find(u => u.id === assigningId);
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm';
+
+  return (
+    <div className="mt-8 bg-gray-50 border border-gray-200 rounded-lg p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-xl font-semibold text-gray-900">Users</h3>
+        <button
+          onClick={() => { setShowCreate(!showCreate); setEditingId(null); setAssigningId(null); setForm(EMPTY_USER_FORM); }}
+          className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+        >
+          {showCreate ? 'Cancel' : 'Add User'}
+        </button>
+      </div>
+
+      {message && (
+        <p className={`mb-4 text-sm ${message.isError ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>
+      )}
+
+      {(showCreate || editingId !== null) && (
+        <form onSubmit={submitForm} className="mb-4 p-4 bg-white border rounded-lg grid grid-cols-1 md:grid-cols-3 gap-3">
+          {showCreate && (
+            <select
+              value={form.role}
+              onChange={(e) => setForm({ ...form, role: e.target.value as UserForm['role'] })}
+              className={inputClass}
+            >
+              <option value="patient">Patient</option>
+              <option value="doctor">Doctor</option>
+            </select>
+          )}
+          <input placeholder="Name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} className={inputClass} required />
+          <input type="email" placeholder="Email" value={form.email} onChange={(e) => setForm({ ...form, email: e.target.value })} className={inputClass} required />
+          <input
+            placeholder="Phone for SMS login, e.g. +15551234567"
+            value={form.phoneNumber}
+            onChange={(e) => setForm({ ...form, phoneNumber: e.target.value })}
+            className={inputClass}
+            required={form.role === 'doctor'}
+          />
+          {form.role === 'doctor' && (
+            <>
+              <input placeholder="Specialization" value={form.specialization} onChange={(e) => setForm({ ...form, specialization: e.target.value })} className={inputClass} />
+              <input placeholder="License number" value={form.licenseNumber} onChange={(e) => setForm({ ...form, licenseNumber: e.target.value })} className={inputClass} />
+            </>
+          )}
+          <div className="flex gap-2 md:col-span-3">
+            <button type="submit" className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700">
+              {editingId !== null ? 'Save Changes' : 'Create'}
+            </button>
+            {editingId !== null && (
+              <button type="button" onClick={() => setEditingId(null)} className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">
+                Cancel
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+
+      {assigning && (
+        <div className="mb-4 p-4 bg-white border rounded-lg">
+          <p className="text-sm font-medium text-gray-700 mb-2">Doctors for {assigning.name || assigning.email}</p>
+          {doctors.length === 0 && <p className="text-sm text-gray-500">No active doctors.</p>}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-1 mb-3">
+            {doctors.filter(d => d.doctor).map(d => (
+              <label key={d.doctor!.id} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={selectedDoctorIds.includes(d.doctor!.id)}
+                  onChange={(e) => setSelectedDoctorIds(e.target.checked
+                    ? [...selectedDoctorIds, d.doctor!.id]
+                    : selectedDoctorIds.filter(id => id !== d.doctor!.id))}
+                />
+                {d.name || d.email}
+                {d.doctor!.specialization && <span className="text-gray-500">· {d.doctor!.specialization}</span>}
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={saveAssignment} className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700">
+              Save Assignment
+            </button>
+            <button onClick={() => setAssigningId(null)} className="px-3 py-1 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleSearch} className="flex flex-wrap gap-2 mb-4">
+        <input
+          placeholder="Search name, email or phone"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className={`${inputClass} flex-1 min-w-[12rem]`}
+        />
+        <select value={roleFilter} onChange={(e) => { setRoleFilter(e.target.value); setPage(1); }} className={inputClass}>
+          <option value="">All roles</option>
+          <option value="patient">Patients</option>
+          <option value="doctor">Doctors</option>
+          <option value="admin">Admins</option>
+        </select>
+        <select value={statusFilter} onChange={(e) => { setStatusFilter(e.target.value); setPage(1); }} className={inputClass}>
+          <option value="">Any status</option>
+          <option value="true">Active</option>
+          <option value="false">Deactivated</option>
+        </select>
+        <button type="submit" className="px-3 py-2 text-sm bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300">Search</button>
+      </form>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2 pr-4">User</th>
+              <th className="py-2 pr-4">Role</th>
+              <th className="py-2 pr-4">Phone</th>
+              <th className="py-2 pr-4">Care Team</th>
+              <th className="py-2 pr-4">Status</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map(u => (
+              <tr key={u.id} className={`border-b ${u.isActive ? '' : 'text-gray-400'}`}>
+                <td className="py-2 pr-4">
+                  <div className="font-medium">{u.name || u.email}</div>
+                  {u.name && <div className="text-xs text-gray-500">{u.email}</div>}
+                </td>
+                <td className="py-2 pr-4 capitalize">{u.role}</td>
+                <td className="py-2 pr-4">{u.phoneNumber || '—'}</td>
+                <td className="py-2 pr-4">
+                  {u.role === 'patient' && (u.assignedDoctors?.length ? u.assignedDoctors.map(d => d.name).join(', ') : 'Unassigned')}
+                  {u.role === 'doctor' && `${u.doctor?.patientCount ?? 0} patients`}
+                </td>
+                <td className="py-2 pr-4">{u.isActive ? 'Active' : 'Deactivated'}</td>
+                <td className="py-2 whitespace-nowrap text-right space-x-3">
+                  {u.role !== 'admin' && (
+                    <button onClick={() => startEdit(u)} className="text-blue-600 hover:text-blue-800">Edit</button>
+                  )}
+                  {u.role === 'patient' && (
+                    <button onClick={() => startAssign(u)} className="text-blue-600 hover:text-blue-800">Assign</button>
+                  )}
+                  {u.id !== currentUserId && (
+                    <button
+                      onClick={() => toggleActive(u)}
+                      className={u.isActive ? 'text-red-600 hover:text-red-800' : 'text-green-600 hover:text-green-800'}
+                    >
+                      {u.isActive ? 'Deactivate' : 'Reactivate'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {users.length === 0 && <p className="py-4 text-sm text-gray-500">No users match these filters.</p>}
+      </div>
+
+      <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+        <span>{total} user{total === 1 ? '' : 's'}</span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setPage(page - 1)} disabled={page <= 1} className="px-2 py-1 border rounded disabled:opacity-50">Previous</button>
+          <span>Page {page} of {totalPages}</span>
+          <button onClick={() => setPage(page + 1)} disabled={page >= totalPages} className="px-2 py-1 border rounded disabled:opacity-50">Next</button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default UserManagement;
@@ -0,0 +1,11 @@
+// Shapes shared by the dashboards
+
+export type NudgeChannel = 'in_app' | 'sms' | 'email';
+
+export interface User {
+  id: number;
+  email: string;
+  role: 'admin' | 'doctor' | 'patient';
+  timezone: string;
+  nudgeChannel: NudgeChannel;
+}
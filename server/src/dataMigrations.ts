@@ -0,0 +1,171 @@
+import { and, eq, inArray, sql, SQL } from 'drizzle-orm';
+import { pgSchema, varchar } from 'drizzle-orm/pg-core';
+import { db } from './db';
+
+/**
+ * Tables are managed with `drizzle-kit push`, which only knows the schema.
+ * Data changes that a schema change depends on live here instead, as steps
+ * that are safe to run on every push: `before-push` steps prepare existing
+ * rows for the new schema (and are skipped while their tables do not exist
+ * yet), `after-push` steps fill in what the new schema expects.
+ * scripts/dbPush runs them around drizzle-kit.
+ */
+export type DataMigrationStage = 'before-push' | 'after-push';
+
+interface DataMigration {
+  name: string;
+  stage: DataMigrationStage;
+  /** Tables the step reads or writes; it is skipped unless they all exist. */
+  tables: string[];
+  statements: SQL[];
+}
+
+export const dataMigrations: DataMigration[] = [
+  {
+    // Before patient_scores_patient_date_idx, a patient could submit the same
+    // day more than once. Keep the most recently written entry for each day,
+    // the values the patient last gave.
+    name: 'dedupe-patient-scores',
+    stage: 'before-push',
+    tables: ['patient_scores'],
+    statements: [
+      sql`
+        DELETE FROM "patient_scores" s
+        USING "patient_scores" newer
+        WHERE newer."patient_id" = s."patient_id"
+          AND newer."score_date" = s."score_date"
+          AND (newer."updated_at", newer."id") > (s."updated_at", s."id")`,
+    ],
+  },
+  {
+    // Before patient_badges_patient_type_level_idx, concurrent evaluations
+    // could award the same tier twice. Keep the first award.
+    name: 'dedupe-patient-badges',
+    stage: 'before-push',
+    tables: ['patient_badges'],
+    statements: [
+      sql`
+        DELETE FROM "patient_badges" b
+        USING "patient_badges" earlier
+        WHERE earlier."patient_id" = b."patient_id"
+          AND earlier."badge_type" = b."badge_type"
+          AND earlier."badge_level" = b."badge_level"
+          AND (earlier."earned_date", earlier."id") < (b."earned_date", b."id")`,
+    ],
+  },
+  {
+    // Directives created before version history existed have no rows in
+    // care_plan_directive_versions, so point-in-time care plans (listAsOf)
+    // leave them out. Earlier edits were never kept, so each directive's
+    // current text becomes version 1, dated when the directive was created.
+    // Directives already retired also get a version 2 retirement, dated their
+    // last update. Only directives without history are touched.
+    name: 'backfill-care-plan-directive-versions',
+    stage: 'after-push',
+    tables: ['care_plan_directives', 'care_plan_directive_versions'],
+    statements: [
+      sql`
+        INSERT INTO "care_plan_directive_versions"
+          ("directive_id", "version", "change_type", "author_doctor_id", "directive", "category", "priority", "is_active", "diff", "created_at")
+        SELECT d."id", 1, 'created', d."doctor_id", d."directive", d."category", d."priority", true, NULL, d."created_at"
+        FROM "care_plan_directives" d
+        WHERE NOT EXISTS (
+          SELECT 1 FROM "care_plan_directive_versions" v WHERE v."directive_id" = d."id"
+        )`,
+      sql`
+        INSERT INTO "care_plan_directive_versions"
+          ("directive_id", "version", "change_type", "author_doctor_id", "directive", "category", "priority", "is_active", "diff", "created_at")
+        SELECT d."id", 2, 'retired', d."doctor_id", d."directive", d."category", d."priority", false,
+          '{"isActive":{"from":true,"to":false}}'::jsonb, d."updated_at"
+        FROM "care_plan_directives" d
+        WHERE d."is_active" = false
+          AND d."version" = 1
+          AND NOT EXISTS (
+            SELECT 1 FROM "care_plan_directive_versions" v WHERE v."directive_id" = d."id" AND v."version" = 2
+          )`,
+      // Keep the directive's version in step with its history so the next change is version 3
+      sql`
+        UPDATE "care_plan_directives" d
+        SET "version" = 2
+        WHERE d."is_active" = false
+          AND d."version" = 1
+          AND EXISTS (
+            SELECT 1 FROM "care_plan_directive_versions" v WHERE v."directive_id" = d."id" AND v."version" = 2
+          )`,
+    ],
+  },
+  {
+    // The hash chain detects edits after the fact; this stops them. Rows can
+    // only be added, except that erasing an account may clear the requester
+    // details (which the chain covers only through their digest).
+    name: 'audit-events-append-only',
+    stage: 'after-push',
+    tables: ['audit_events'],
+    statements: [
+      sql`
+        CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger LANGUAGE plpgsql AS $$
+        BEGIN
+          IF TG_OP = 'UPDATE'
+            AND OLD.personal_erased_at IS NULL AND NEW.personal_erased_at IS NOT NULL
+            AND NEW.ip_address IS NULL AND NEW.user_agent IS NULL AND NEW.details IS NULL AND NEW.personal_salt IS NULL
+            AND (NEW.id, NEW.occurred_at, NEW.user_id, NEW.role, NEW.action, NEW.data_type, NEW.patient_id, NEW.resource_id,
+                 NEW.method, NEW.path, NEW.status_code, NEW.personal_digest, NEW.prev_hash, NEW.hash)
+              IS NOT DISTINCT FROM
+                (OLD.id, OLD.occurred_at, OLD.user_id, OLD.role, OLD.action, OLD.data_type, OLD.patient_id, OLD.resource_id,
+                 OLD.method, OLD.path, OLD.status_code, OLD.personal_digest, OLD.prev_hash, OLD.hash)
+          THEN
+            RETURN NEW;
+          END IF;
+          RAISE EXCEPTION 'audit_events is append-only: % is not allowed', TG_OP;
+        END
+        $$`,
+      sql`DROP TRIGGER IF EXISTS "audit_events_append_only" ON "audit_events"`,
+      sql`
+        CREATE TRIGGER "audit_events_append_only"
+        BEFORE UPDATE OR DELETE ON "audit_events"
+        FOR EACH ROW EXECUTE FUNCTION audit_events_append_only()`,
+      sql`DROP TRIGGER IF EXISTS "audit_events_no_truncate" ON "audit_events"`,
+      sql`
+        CREATE TRIGGER "audit_events_no_truncate"
+        BEFORE TRUNCATE ON "audit_events"
+        FOR EACH STATEMENT EXECUTE FUNCTION audit_events_append_only()`,
+    ],
+  },
+];
+
+// Read-only view of the catalog, used to skip steps whose tables are not there yet
+const catalogTables = pgSchema('information_schema').table('tables', {
+  tableSchema: varchar('table_schema').notNull(),
+  tableName: varchar('table_name').notNull(),
+});
+
+async function existingTables(names: string[]): Promise<Set<string>> {
+  const rows = await db
+    .select({ name: catalogTables.tableName })
+    .from(catalogTables)
+    .where(and(eq(catalogTables.tableSchema, sql`current_schema()`), inArray(catalogTables.tableName, names)));
+  return new Set(rows.map(row => row.name));
+}
+
+/**
+ * Run every step of the stage, each in its own transaction. Returns the names
+ * of the steps that ran.
+ */
+export async function runDataMigrations(stage: DataMigrationStage): Promise<string[]> {
+  const ran: string[] = [];
+  for (const migration of dataMigrations.filter(m => m.stage === stage)) {
+    const present = await existingTables(migration.tables);
+    if (migration.tables.some(name => !present.has(name))) {
+      console.log(`[DB] Skipping ${migration.name}: its tables do not exist yet`);
+      continue;
+    }
+    await db.transaction(async (tx) => {
+      for (const statement of migration.statements) {
+        await tx.execute(statement);
+      }
+    });
+    console.log(`[DB] Ran ${migration.name}`);
+    ran.push(migration.name);
+  }
+  return ran;
+}
@@ -0,0 +1,26 @@
+import { Response } from 'express';
+
+/**
+ * Error carrying the HTTP status a route should answer with. Services throw
+ * these for expected failures; anything else is treated as a 500.
+ */
+export class HttpError extends Error {
+  constructor(public status: number, message: string, public details?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export class AuthError extends HttpError {
+  constructor(message: string, status: number = 400, public retryAfterSeconds?: number) {
+    super(status, message);
+    this.name = 'AuthError';
+  }
+}
+
+export function sendHttpError(res: Response, error: HttpError) {
+  if (error instanceof AuthError && error.retryAfterSeconds) {
+    res.set('Retry-After', String(error.retryAfterSeconds));
+  }
+  res.status(error.status).json({ error: error.message, ...(error.details ? { details: error.details } : {}) });
+}
@@ -2,331 +2,431 @@ import express, { Request, Response, RequestHandler } from 'express';
 import path from 'path';
 import session from 'express-session';
 import { db } from './db';
-import { users } from '../../shared/schema';
+import {
+  users,
+  scoreSubmissionSchema,
+  scoreValuesSchema,
+  scoreHistoryQuerySchema,
+  profileUpdateSchema,
+  badgeRuleSchema,
+  badgeRuleUpdateSchema,
+  trendQuerySchema,
+} from '../../shared/schema';
 import { eq } from 'drizzle-orm';
+import twilio from 'twilio';
+import { smsService } from './services/smsService';
+import { scoreService } from './services/scoreService';
+import { badgeService } from './services/badgeService';
+import { trendService } from './services/trendService';
+import { nudgeService } from './services/nudgeService';
+import { jobScheduler } from './services/jobScheduler';
+import { adminStatsService } from './services/adminStatsService';
+import { accountDeletionService } from './services/accountDeletionService';
+import { sessionStore } from './services/sessionStore';
+import { HttpError, sendHttpError } from './errors';
+import { isValidTimeZone } from './utils/dates';
+import { requireAuth, requireRole } from './middleware/auth';
+import { audit } from './middleware/audit';
+import { idleTimeoutMs, trackSessionActivity } from './middleware/session';
+import { doctorRouter } from './routes/doctor';
+import { adminRouter } from './routes/admin';
+import { accountRouter } from './routes/account';
+import { authRouter } from './routes/auth';
+import { chatRouter } from './routes/chat';
+import { notificationRouter } from './routes/notifications';
+import { patientRouter } from './routes/patients';
+import { attachNotificationSocket } from './routes/notificationSocket';
+import { notificationBus } from './services/notificationService';
 
 const app = express();
 const PORT = parseInt(process.env.PORT || '5000', 10);
 
-declare module 'express-session' {
-  interface SessionData {
-    userId?: number;
-    role?: string;
-    loginCode?: string;
-    loginEmail?: string;
-  }
+const isProduction = process.env.NODE_ENV === 'production';
+const DEV_SESSION_SECRET = 'keepgoingcare-dev-secret-2025';
+const sessionSecret = process.env.SESSION_SECRET || DEV_SESSION_SECRET;
+if (isProduction && (
+  sessionSecret.length < 32 ||
+  sessionSecret === DEV_SESSION_SECRET ||
+  sessionSecret === 'your-very-secure-session-secret-here'
+)) {
+  throw new Error('SESSION_SECRET must be set to a random string of at least 32 characters in production.');
+}
+
+// Sign-in codes go out by SMS: refuse to start without a transport rather than fail the first login
+if (isProduction) {
+  console.log(`[SMS] Using ${smsService.transportName} transport`);
 }
 
-// Session configuration
+// Session configuration. The cookie lifetime is the role's idle timeout,
+// renewed by trackSessionActivity; sessions live in Postgres
 const sessionConfig: session.SessionOptions = {
-  secret: process.env.SESSION_SECRET || 'keepgoingcare-dev-secret-2025',
+  store: sessionStore,
+  secret: sessionSecret,
   resave: false,
   saveUninitialized: false,
   cookie: {
-    maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+    maxAge: idleTimeoutMs('patient'),
     httpOnly: true,
-    secure: false, // Set to true in production with HTTPS
+    sameSite: 'lax',
+    secure: isProduction,
   },
 };
 
-app.use(session(sessionConfig));
+// Production runs behind a TLS-terminating proxy; trust it so secure cookies are sent
+if (isProduction) {
+  app.set('trust proxy', 1);
+}
+
+const sessionMiddleware = session(sessionConfig);
+app.use(sessionMiddleware);
+app.use('/api', trackSessionActivity);
 app.use(express.json());
 
-// Twilio SMS Service
-const sendSMS = async (to: string, message: string): Promise<boolean> => {
-  try {
-    const accountSid = process.env.TWILIO_ACCOUNT_SID;
-    const authToken = process.env.TWILIO_AUTH_TOKEN;
-    const fromNumber = process.env.TWILIO_PHONE_NUMBER;
+app.use('/api/auth', authRouter);
 
-    if (!accountSid || !authToken || !fromNumber) {
-      console.log('Twilio not configured, logging code instead');
-      return false;
+// Update the signed-in user's profile settings
+const updateProfile: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = profileUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid profile update', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+  const { timezone, nudgeChannel } = parsed.data;
+  if (timezone !== undefined && !isValidTimeZone(timezone)) {
+    res.status(400).json({ error: 'A valid IANA timezone is required' });
+    return;
+  }
+
+  try {
+    if (nudgeChannel === 'sms') {
+      const [current] = await db.select({ phoneNumber: users.phoneNumber }).from(users).where(eq(users.id, req.session.userId!));
+      if (!current?.phoneNumber) {
+        res.status(400).json({ error: 'Add a phone number before choosing SMS reminders' });
+        return;
+      }
     }
 
-    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`,
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: new URLSearchParams({
-        From: fromNumber,
-        To: to,
-        Body: message,
-      }),
-    });
+    const [user] = await db
+      .update(users)
+      .set({ timezone, nudgeChannel })
+      .where(eq(users.id, req.session.userId!))
+      .returning();
 
-    return response.ok;
+    res.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        timezone: user.timezone,
+        nudgeChannel: user.nudgeChannel
+      }
+    });
   } catch (error) {
-    console.error('SMS send error:', error);
-    return false;
+    console.error('Profile update error:', error);
+    res.status(500).json({ error: 'Failed to update profile' });
   }
 };
 
-// Request login code
-const requestLogin: RequestHandler = async (req: Request, res: Response) => {
-  const { email } = req.body;
-  
-  if (!email) {
-    res.status(400).json({ error: 'Email is required' });
-    return;
-  }
+app.patch('/api/profile', requireAuth, updateProfile);
 
+// Admin stats endpoint: aggregates over the last 30 days plus a system health probe
+const getAdminStats: RequestHandler = async (req: Request, res: Response) => {
   try {
-    // Check if user exists
-    const userResult = await db.select().from(users).where(eq(users.email, email));
-    
-    if (userResult.length === 0) {
-      res.status(404).json({ error: 'User not found' });
-      return;
-    }
-
-    const user = userResult[0];
-    
-    // Generate 6-digit code
-    const code = Math.floor(100000 + Math.random() * 900000).toString();
-    
-    // Try to send SMS if phone number exists
-    let smsSent = false;
-    if (user.phoneNumber) {
-      const message = `Your Keep Going Care verification code is: ${code}`;
-      smsSent = await sendSMS(user.phoneNumber, message);
-    }
-    
-    console.log(`Login code for ${email}: ${code} ${smsSent ? '(sent via SMS)' : '(SMS failed/not configured)'}`);
-    
-    // Store code temporarily
-    req.session.loginCode = code;
-    req.session.loginEmail = email;
-
-    res.json({ 
-      success: true,
-      message: smsSent ? 'Verification code sent via SMS' : 'Verification code generated',
-      code: process.env.NODE_ENV === 'development' ? code : undefined
-    });
+    const stats = await adminStatsService.getStats();
+    res.json({ stats });
   } catch (error) {
-    console.error('Request login error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    console.error('Admin stats error:', error);
+    res.status(500).json({ error: 'Failed to fetch admin stats' });
   }
 };
 
+app.get('/api/admin/stats', requireRole('admin'), getAdminStats);
 
-app.post('/api/auth/request-login', requestLogin);
+// Database and AI provider reachability; answers 503 when the database is down
+const getSystemHealth: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const health = await adminStatsService.checkHealth();
+    res.status(health.status === 'down' ? 503 : 200).json({ health });
+  } catch (error) {
+    console.error('Health probe error:', error);
+    res.status(500).json({ error: 'Failed to check system health' });
+  }
+};
+
+app.get('/api/admin/health', requireRole('admin'), getSystemHealth);
+app.use('/api/admin', adminRouter);
 
-// Verify login code
-const verifyLogin: RequestHandler = async (req: Request, res: Response) => {
-  const { email, code } = req.body;
-  
-  if (!email || !code) {
-    res.status(400).json({ error: 'Email and code are required' });
+// SMS delivery log for admins
+const getSmsMessages: RequestHandler = async (req: Request, res: Response) => {
+  const status = req.query.status as string | undefined;
+  if (status && !['pending', 'sent', 'delivered', 'failed'].includes(status)) {
+    res.status(400).json({ error: 'Invalid status filter' });
     return;
   }
+  const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
 
-  if (req.session.loginCode !== code || req.session.loginEmail !== email) {
-    res.status(400).json({ error: 'Invalid verification code' });
-    return;
+  try {
+    const messages = await smsService.listRecent(limit, status as 'pending' | 'sent' | 'delivered' | 'failed' | undefined);
+    res.json({ transport: smsService.transportName, messages });
+  } catch (error) {
+    console.error('SMS messages fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch SMS messages' });
   }
+};
 
-  // Clear the temporary login data
-  delete req.session.loginCode;
-  delete req.session.loginEmail;
+app.get('/api/admin/sms-messages', requireRole('admin'), getSmsMessages);
 
+// Badge tier rules for admins
+const getBadgeRules: RequestHandler = async (req: Request, res: Response) => {
   try {
-    // Find user in database
-    const userResult = await db.select().from(users).where(eq(users.email, email));
-    
-    if (userResult.length === 0) {
-      res.status(404).json({ error: 'User not found' });
-      return;
-    }
+    const rules = await badgeService.getRules(true);
+    res.json({ success: true, rules });
+  } catch (error) {
+    console.error('Badge rules fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch badge rules' });
+  }
+};
 
-    const user = userResult[0];
-    
-    // Set session
-    req.session.userId = user.id;
-    req.session.role = user.role;
+app.get('/api/admin/badge-rules', requireRole('admin'), getBadgeRules);
 
-    res.json({ 
-      user: {
-        id: user.id,
-        email: user.email,
-        role: user.role
-      }
-    });
+const createBadgeRule: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = badgeRuleSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid badge rule', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const rule = await badgeService.createRule(parsed.data);
+    res.status(201).json({ success: true, rule });
   } catch (error) {
-    console.error('Verify login error:', error);
-    res.status(500).json({ error: 'Internal server error' });
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Badge rule create error:', error);
+    res.status(500).json({ error: 'Failed to create badge rule' });
   }
 };
 
-app.post('/api/auth/verify-login', verifyLogin);
+app.post('/api/admin/badge-rules', requireRole('admin'), audit('badge_rules'), createBadgeRule);
 
-// Logout
-const logout: RequestHandler = (req: Request, res: Response) => {
-  req.session.destroy((err) => {
-    if (err) {
-      res.status(500).json({ error: 'Failed to logout' });
+const updateBadgeRule: RequestHandler = async (req: Request, res: Response) => {
+  const ruleId = Number(req.params.ruleId);
+  if (!Number.isInteger(ruleId) || ruleId <= 0) {
+    res.status(400).json({ error: 'Invalid badge rule ID' });
+    return;
+  }
+  const parsed = badgeRuleUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid badge rule update', details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const rule = await badgeService.updateRule(ruleId, parsed.data);
+    res.json({ success: true, rule });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
       return;
     }
-    res.json({ message: 'Logged out successfully' });
-  });
+    console.error('Badge rule update error:', error);
+    res.status(500).json({ error: 'Failed to update badge rule' });
+  }
 };
 
-app.post('/api/auth/logout', logout);
-
-// Check session endpoint
-const checkSession: RequestHandler = async (req: Request, res: Response) => {
-  if (req.session.userId) {
-    try {
-      // Get user from database
-      const userResult = await db.select().from(users).where(eq(users.id, req.session.userId));
-      
-      if (userResult.length === 0) {
-        res.status(404).json({ error: 'User not found' });
-        return;
-      }
+app.patch('/api/admin/badge-rules/:ruleId', requireRole('admin'), audit('badge_rules', { resourceParam: 'ruleId' }), updateBadgeRule);
 
-      const user = userResult[0];
-      res.json({ 
-        user: {
-          id: user.id,
-          email: user.email,
-          role: user.role
-        }
-      });
-    } catch (error) {
-      console.error('Check session error:', error);
-      res.status(500).json({ error: 'Internal server error' });
-    }
-  } else {
-    res.status(401).json({ error: 'No active session' });
+// Evaluate every active patient for a nudge now, regardless of their local hour
+const runNudges: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const summary = await nudgeService.runDue({ force: true });
+    res.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Nudge run error:', error);
+    res.status(500).json({ error: 'Failed to run nudges' });
   }
 };
 
-app.get('/api/auth/session', checkSession);
+app.post('/api/admin/nudges/run', requireRole('admin'), audit('nudges'), runNudges);
 
-// Admin stats endpoint
-const getAdminStats: RequestHandler = async (req: Request, res: Response) => {
-  if (!req.session.userId || req.session.role !== 'admin') {
-    res.status(403).json({ error: 'Admin access required' });
+// Twilio delivery status callback (configured via TWILIO_STATUS_CALLBACK_URL)
+const twilioStatusCallback: RequestHandler = async (req: Request, res: Response) => {
+  const authToken = process.env.TWILIO_AUTH_TOKEN;
+  const callbackUrl = process.env.TWILIO_STATUS_CALLBACK_URL;
+  const signature = req.header('X-Twilio-Signature');
+
+  if (!authToken || !callbackUrl || !signature || !twilio.validateRequest(authToken, signature, callbackUrl, req.body)) {
+    res.status(403).json({ error: 'Invalid signature' });
     return;
   }
 
+  const { MessageSid, MessageStatus, ErrorCode } = req.body;
   try {
-    const totalUsers = await db.select().from(users);
-    const adminUsers = totalUsers.filter(u => u.role === 'admin');
-    const doctorUsers = totalUsers.filter(u => u.role === 'doctor');
-    const patientUsers = totalUsers.filter(u => u.role === 'patient');
-
-    const stats = {
-      totalUsers: totalUsers.length,
-      totalAdmins: adminUsers.length,
-      totalDoctors: doctorUsers.length,
-      totalPatients: patientUsers.length,
-      systemStatus: 'operational'
-    };
-
-    res.json({ stats });
+    await smsService.updateDeliveryStatus(MessageSid, MessageStatus, ErrorCode);
+    res.status(204).end();
   } catch (error) {
-    console.error('Admin stats error:', error);
-    res.status(500).json({ error: 'Failed to fetch admin stats' });
+    console.error('Twilio status callback error:', error);
+    res.status(500).json({ error: 'Failed to record delivery status' });
   }
 };
 
-app.get('/api/admin/stats', getAdminStats);
+app.post('/api/webhooks/twilio/status', express.urlencoded({ extended: false }), twilioStatusCallback);
 
-// AI Chat endpoint
-const handleChat: RequestHandler = async (req: Request, res: Response) => {
-  if (!req.session.userId) {
-    res.status(401).json({ error: 'Authentication required' });
-    return;
-  }
+app.use('/api/chat', chatRouter);
 
-  const { message } = req.body;
-  if (!message || typeof message !== 'string') {
-    res.status(400).json({ error: 'Message is required' });
+// Patient scores endpoints
+const submitScore: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = scoreSubmissionSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid score submission', details: parsed.error.flatten().fieldErrors });
     return;
   }
 
   try {
-    const { supervisorAgentService } = await import('./services/supervisorAgent');
-    const response = await supervisorAgentService.processQuery(req.session.userId, message);
+    const { score, created } = await scoreService.submit(req.session.userId!, parsed.data);
+    const newBadges = await badgeService.checkAndAward(req.session.userId!);
 
-    res.json({
+    res.status(created ? 201 : 200).json({
       success: true,
-      response,
-      timestamp: new Date().toISOString()
+      message: created ? 'Scores submitted successfully' : 'Scores already recorded for this day',
+      score,
+      newBadges
     });
   } catch (error) {
-    console.error('Chat error:', error);
-    res.status(500).json({ error: 'Failed to process chat message' });
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Score submission error:', error);
+    res.status(500).json({ error: 'Failed to submit scores' });
   }
 };
 
-app.post('/api/chat', handleChat);
+app.post('/api/scores', requireRole('patient'), audit('scores'), submitScore);
 
-// Patient scores endpoint
-const submitScore: RequestHandler = async (req: Request, res: Response) => {
-  if (!req.session.userId) {
-    res.status(401).json({ error: 'Authentication required' });
+const updateScore: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = scoreValuesSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid score submission', details: parsed.error.flatten().fieldErrors });
     return;
   }
 
-  const { dietScore, exerciseScore, medicationScore, scoreDate } = req.body;
-  
-  if (!dietScore || !exerciseScore || !medicationScore) {
-    res.status(400).json({ error: 'All scores are required' });
+  try {
+    const score = await scoreService.update(req.session.userId!, req.params.date, parsed.data);
+    const newBadges = await badgeService.checkAndAward(req.session.userId!);
+    res.json({ success: true, message: 'Scores updated successfully', score, newBadges });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Score update error:', error);
+    res.status(500).json({ error: 'Failed to update scores' });
+  }
+};
+
+app.put('/api/scores/:date', requireRole('patient'), audit('scores', { resourceParam: 'date' }), updateScore);
+
+const getScoreHistory: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = scoreHistoryQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid date range', details: parsed.error.flatten().fieldErrors });
     return;
   }
 
   try {
-    const { patientScores } = await import('../../shared/schema');
-    
-    await db.insert(patientScores).values({
-      patientId: req.session.userId,
-      scoreDate: scoreDate || new Date().toISOString().split('T')[0],
-      dietScore: parseInt(dietScore),
-      exerciseScore: parseInt(exerciseScore),
-      medicationScore: parseInt(medicationScore)
-    });
-
-    res.json({ success: true, message: 'Scores submitted successfully' });
+    const history = await scoreService.history(req.session.userId!, parsed.data);
+    res.json({ success: true, ...history });
   } catch (error) {
-    console.error('Score submission error:', error);
-    res.status(500).json({ error: 'Failed to submit scores' });
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Score history error:', error);
+    res.status(500).json({ error: 'Failed to fetch score history' });
   }
 };
 
-app.post('/api/scores', submitScore);
+app.get('/api/scores', requireRole('patient'), audit('scores'), getScoreHistory);
 
-// Get patient context endpoint
-const getPatientContext: RequestHandler = async (req: Request, res: Response) => {
-  if (!req.session.userId) {
-    res.status(401).json({ error: 'Authentication required' });
+// Score trend analysis for the patient's own dashboard
+const getTrends: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = trendQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid trend query', details: parsed.error.flatten().fieldErrors });
     return;
   }
 
   try {
-    const { aiContextService } = await import('./services/aiContextService');
-    const context = await aiContextService.prepareContext(req.session.userId);
+    const trends = await trendService.getPatientTrends(req.session.userId!, parsed.data.days);
+    res.json({ success: true, trends });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Trend analysis error:', error);
+    res.status(500).json({ error: 'Failed to analyse trends' });
+  }
+};
+
+app.get('/api/patient/trends', requireRole('patient'), audit('trends'), getTrends);
+
+// Proactive nudges sent to the signed-in patient
+const getNudges: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const nudges = await nudgeService.listForPatient(req.session.userId!);
+    res.json({ success: true, nudges });
+  } catch (error) {
+    console.error('Nudge list error:', error);
+    res.status(500).json({ error: 'Failed to fetch nudges' });
+  }
+};
+
+app.get('/api/patient/nudges', requireRole('patient'), getNudges);
+
+const markNudgeRead: RequestHandler = async (req: Request, res: Response) => {
+  const nudgeId = Number(req.params.nudgeId);
+  if (!Number.isInteger(nudgeId) || nudgeId <= 0) {
+    res.status(400).json({ error: 'Invalid nudge ID' });
+    return;
+  }
 
-    if (!context) {
-      res.status(404).json({ error: 'Patient context not found' });
+  try {
+    const nudge = await nudgeService.markRead(req.session.userId!, nudgeId);
+    res.json({ success: true, nudge });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
       return;
     }
+    console.error('Nudge update error:', error);
+    res.status(500).json({ error: 'Failed to update nudge' });
+  }
+};
 
-    res.json({
-      success: true,
-      context
-    });
+app.post('/api/patient/nudges/:nudgeId/read', requireRole('patient'), markNudgeRead);
+
+// Progress towards each badge tier
+const getBadgeProgress: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const progress = await badgeService.getProgress(req.session.userId!);
+    res.json({ success: true, ...progress });
   } catch (error) {
-    console.error('Context fetch error:', error);
-    res.status(500).json({ error: 'Failed to fetch patient context' });
+    console.error('Badge progress error:', error);
+    res.status(500).json({ error: 'Failed to fetch badge progress' });
   }
 };
 
-app.get('/api/patient/context', getPatientContext);
+app.get('/api/patient/badges/progress', requireRole('patient'), getBadgeProgress);
+
+app.use('/api', patientRouter);
+
+app.use('/api/doctor', doctorRouter);
+app.use('/api/notifications', notificationRouter);
+app.use('/api/me', accountRouter);
 
 const healthCheck: RequestHandler = (req: Request, res: Response) => {
   res.status(200).send({ status: 'Keep Going Care server running with AI system' });
@@ -344,6 +444,29 @@ const serveApp: RequestHandler = (req: Request, res: Response) => {
 
 app.get('*', serveApp);
 
-app.listen(PORT, '0.0.0.0', () => {
+// Hourly; each patient is evaluated once a day at their local nudge hour
+if (process.env.NUDGES_ENABLED !== 'false') {
+  jobScheduler.schedule('proactive-nudges', 60 * 60 * 1000, () => nudgeService.runDue());
+}
+
+// Sign deactivated users out of every device, not just on their next request
+notificationBus.on('user-deactivated', (userId: number) => {
+  sessionStore.destroyForUser(userId)
+    .then(removed => removed.forEach(sessionId => notificationBus.emit('session-ended', sessionId)))
+    .catch(error => console.error(`Failed to end sessions for user ${userId}:`, error));
+});
+
+// Clears idle sessions from the store and closes their notification sockets
+jobScheduler.schedule('session-prune', 15 * 60 * 1000, async () => {
+  const removed = await sessionStore.pruneExpired();
+  removed.forEach(sessionId => notificationBus.emit('session-ended', sessionId));
+});
+
+// Hourly; erases accounts whose deletion grace period has ended
+jobScheduler.schedule('account-deletions', 60 * 60 * 1000, () => accountDeletionService.processDue());
+
+const server = app.listen(PORT, '0.0.0.0', () => {
   console.log(`KGCPR Integrated Server is now listening on port ${PORT}`);
-});
\ No newline at end of file
+  jobScheduler.start();
+});
+attachNotificationSocket(server, sessionMiddleware);
\ No newline at end of file
@@ -0,0 +1,63 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { auditService, AuditAction } from '../services/auditService';
+
+const METHOD_ACTIONS: Record<string, AuditAction> = {
+  GET: 'read',
+  HEAD: 'read',
+  POST: 'create',
+  PUT: 'update',
+  PATCH: 'update',
+  DELETE: 'delete',
+};
+
+export interface AuditOptions {
+  /** Overrides the action implied by the HTTP method. */
+  action?: AuditAction;
+  /** Route parameter naming the record touched, e.g. 'directiveId'. */
+  resourceParam?: string;
+}
+
+/**
+ * Record who touched which data, once the response has been sent. Place it
+ * after the auth guards on the route, requireRecentAuth included, so the
+ * patient resolved by requirePatientAccess is available and a request turned
+ * away for a fresh code is not logged as access; patients' own routes are
+ * attributed to themselves. Bodies are never stored, only the names of submitted fields.
+ */
+export function audit(dataType: string, options: AuditOptions = {}): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    // Route params belong to this layer; read them now rather than after the response
+    const params = { ...req.params };
+    const { userId, role } = req.session;
+
+    res.on('finish', () => {
+      if (!userId) return;
+
+      const paramPatientId = Number(params.patientId);
+      const patientId = req.patientId
+        ?? (Number.isInteger(paramPatientId) && paramPatientId > 0 ? paramPatientId : null)
+        ?? (role === 'patient' ? userId : null);
+      const action = options.action ?? METHOD_ACTIONS[req.method] ?? 'read';
+      const fields = req.body && typeof req.body === 'object' ? Object.keys(req.body) : [];
+      const query = Object.keys(req.query);
+
+      void auditService.record({
+        userId,
+        role: role ?? null,
+        action,
+        dataType,
+        patientId,
+        resourceId: options.resourceParam ? params[options.resourceParam] ?? null : null,
+        method: req.method,
+        path: req.originalUrl.split('?')[0].slice(0, 500),
+        statusCode: res.statusCode,
+        ipAddress: req.ip ?? null,
+        userAgent: req.get('User-Agent') ?? null,
+        details: action === 'read'
+          ? (query.length ? { query: req.query as Record<string, unknown> } : null)
+          : (fields.length ? { fields } : null),
+      });
+    });
+    next();
+  };
+}
@@ -0,0 +1,176 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { User } from '../../../shared/schema';
+import { careTeamService } from '../services/careTeamService';
+import { authService } from '../services/authService';
+import { notificationBus } from '../services/notificationService';
+
+export type UserRole = User['role'];
+
+const ACCOUNT_INACTIVE_MESSAGE = 'This account is no longer active. Please contact your administrator.';
+
+const STEP_UP_WINDOW_MS = parseInt(process.env.STEP_UP_WINDOW_MINUTES || '5', 10) * 60 * 1000;
+
+declare module 'express-session' {
+  interface SessionData {
+    userId?: number;
+    role?: UserRole;
+    /** Epoch milliseconds; see middleware/session. */
+    loginAt?: number;
+    lastActivity?: number;
+    ipAddress?: string;
+    userAgent?: string;
+    /** When the user last proved themselves with an SMS code (login or step-up). */
+    reauthenticatedAt?: number;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by requireRole('doctor') / requirePatientAccess for doctor sessions. */
+      doctorId?: number;
+      /** Set by requirePatientAccess to the validated patient ID. */
+      patientId?: number;
+    }
+  }
+}
+
+/**
+ * Answer 401 unless the session belongs to a signed-in user whose account is
+ * still active. The session of a deactivated or erased account is ended, in
+ * case it outlived the sign-out that should have removed it.
+ */
+async function checkSignedIn(req: Request, res: Response): Promise<boolean> {
+  if (!req.session.userId) {
+    res.status(401).json({ error: 'Authentication required' });
+    return false;
+  }
+  if (await authService.isAccountActive(req.session.userId)) {
+    return true;
+  }
+
+  const sessionId = req.sessionID;
+  req.session.destroy((err) => {
+    if (err) {
+      console.error('Failed to end session of inactive account:', err);
+    }
+    notificationBus.emit('session-ended', sessionId);
+    res.status(401).json({ error: ACCOUNT_INACTIVE_MESSAGE, code: 'ACCOUNT_INACTIVE' });
+  });
+  return false;
+}
+
+/**
+ * Reject requests without a signed-in, active user.
+ */
+export const requireAuth: RequestHandler = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (await checkSignedIn(req, res)) {
+      next();
+    }
+  } catch (error) {
+    console.error('Authentication check error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+async function resolveDoctorId(req: Request): Promise<number | undefined> {
+  if (req.doctorId === undefined && req.session.role === 'doctor') {
+    const doctor = await careTeamService.getDoctorForUser(req.session.userId!);
+    req.doctorId = doctor?.id;
+  }
+  return req.doctorId;
+}
+
+/**
+ * Only allow the listed roles. Doctor sessions must also have a doctor profile,
+ * whose ID is exposed as req.doctorId.
+ */
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!(await checkSignedIn(req, res))) {
+        return;
+      }
+      if (!req.session.role || !roles.includes(req.session.role)) {
+        res.status(403).json({ error: 'Insufficient permissions' });
+        return;
+      }
+      if (req.session.role === 'doctor' && !(await resolveDoctorId(req))) {
+        res.status(403).json({ error: 'Doctor profile not found' });
+        return;
+      }
+      next();
+    } catch (error) {
+      console.error('Role check error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
+/**
+ * Guard routes addressing a patient by route parameter. Patients may only reach
+ * their own data, doctors only patients actively assigned to them, admins any.
+ */
+export function requirePatientAccess(patientIdParam = 'patientId'): RequestHandler {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      if (!(await checkSignedIn(req, res))) {
+        return;
+      }
+
+      const patientId = Number(req.params[patientIdParam]);
+      if (!Number.isInteger(patientId) || patientId <= 0) {
+        res.status(400).json({ error: 'Invalid patient ID' });
+        return;
+      }
+
+      let allowed = false;
+      if (req.session.role === 'admin') {
+        allowed = true;
+      } else if (req.session.role === 'patient') {
+        allowed = req.session.userId === patientId;
+      } else if (req.session.role === 'doctor') {
+        const doctorId = await resolveDoctorId(req);
+        allowed = !!doctorId && await careTeamService.isAssigned(doctorId, patientId);
+      }
+
+      if (!allowed) {
+        res.status(403).json({ error: 'You do not have access to this patient' });
+        return;
+      }
+
+      req.patientId = patientId;
+      next();
+    } catch (error) {
+      console.error('Patient access check error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
+/**
+ * Require an SMS code entered within the last STEP_UP_WINDOW_MINUTES before a
+ * sensitive action. Otherwise answer 428 with code REAUTH_REQUIRED; the client
+ * then completes /api/auth/challenge and /api/auth/verify-challenge and
+ * retries. With `when`, only requests it matches need the fresh code.
+ */
+export function requireRecentAuth(when?: (req: Request) => boolean): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session.userId) {
+      res.status(401).json({ error: 'Authentication required' });
+      return;
+    }
+    if (when && !when(req)) {
+      next();
+      return;
+    }
+
+    const { reauthenticatedAt } = req.session;
+    if (!reauthenticatedAt || Date.now() - reauthenticatedAt > STEP_UP_WINDOW_MS) {
+      res.status(428).json({ error: 'Please confirm it is you with a verification code to continue.', code: 'REAUTH_REQUIRED' });
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,70 @@
+import { Request, Response, NextFunction } from 'express';
+import { UserRole } from './auth';
+import { notificationBus } from '../services/notificationService';
+
+const minutes = (value: string | undefined, fallback: number) => parseInt(value || String(fallback), 10) * 60 * 1000;
+
+// Staff sessions can reach every assigned patient, so they lapse sooner
+const IDLE_TIMEOUT_MS: Record<UserRole, number> = {
+  patient: minutes(process.env.SESSION_IDLE_MINUTES_PATIENT, 30),
+  doctor: minutes(process.env.SESSION_IDLE_MINUTES_DOCTOR, 15),
+  admin: minutes(process.env.SESSION_IDLE_MINUTES_ADMIN, 15),
+};
+
+// Polled by the client's expiry warning; reading it must not count as activity
+export const SESSION_STATUS_PATH = '/auth/session/status';
+
+// Saving on every request would rewrite the session row for each API call
+const ACTIVITY_RESOLUTION_MS = 60 * 1000;
+
+export const SESSION_EXPIRED_MESSAGE = 'Your session has expired due to inactivity. Please sign in again.';
+
+export function idleTimeoutMs(role: UserRole | undefined): number {
+  return IDLE_TIMEOUT_MS[role ?? 'patient'];
+}
+
+/**
+ * Mark a freshly signed-in session as active. Call after setting userId and role.
+ */
+export function startSessionActivity(req: Request): void {
+  const now = Date.now();
+  req.session.loginAt = now;
+  req.session.lastActivity = now;
+  req.session.ipAddress = req.ip;
+  req.session.userAgent = req.get('User-Agent')?.slice(0, 500);
+  req.session.cookie.maxAge = idleTimeoutMs(req.session.role);
+}
+
+/**
+ * When the idle deadline for the session's role has passed, end the session and
+ * answer 401 with code SESSION_EXPIRED. Otherwise record the activity, which
+ * pushes both the cookie and the stored session out by another idle period.
+ * Mount under /api, after the session middleware.
+ */
+export function trackSessionActivity(req: Request, res: Response, next: NextFunction) {
+  const { userId, role, lastActivity } = req.session;
+  if (!userId) {
+    next();
+    return;
+  }
+
+  const now = Date.now();
+  const timeoutMs = idleTimeoutMs(role);
+  if (lastActivity && now - lastActivity > timeoutMs) {
+    const sessionId = req.sessionID;
+    req.session.destroy((err) => {
+      if (err) {
+        console.error('Failed to end idle session:', err);
+      }
+      notificationBus.emit('session-ended', sessionId);
+      res.status(401).json({ error: SESSION_EXPIRED_MESSAGE, code: 'SESSION_EXPIRED' });
+    });
+    return;
+  }
+
+  if (req.path !== SESSION_STATUS_PATH && (!lastActivity || now - lastActivity >= ACTIVITY_RESOLUTION_MS)) {
+    req.session.lastActivity = now;
+    req.session.cookie.maxAge = timeoutMs;
+  }
+  next();
+}
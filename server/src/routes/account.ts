@@ -0,0 +1,105 @@
+import { Router, Request, Response, RequestHandler } from 'express';
+import { accountDeletionSchema } from '../../../shared/schema';
+import { requireRole, requireRecentAuth } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { dataExportService } from '../services/dataExportService';
+import { accountDeletionService } from '../services/accountDeletionService';
+import { HttpError, sendHttpError } from '../errors';
+
+// The signed-in patient's own account: data export and erasure
+export const accountRouter = Router();
+
+accountRouter.use(requireRole('patient'));
+
+// ZIP of everything linked to the account, each dataset as JSON and CSV
+const exportAccountData: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    res.set('Content-Type', 'application/zip');
+    res.attachment(`keepgoingcare-export-${new Date().toISOString().split('T')[0]}.zip`);
+    await dataExportService.writeArchive(req.session.userId!, res);
+  } catch (error) {
+    console.error('Account export error:', error);
+    if (res.headersSent) {
+      // Part of the archive is already out; cut it short so the download fails visibly
+      res.destroy();
+      return;
+    }
+    res.removeHeader('Content-Disposition');
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    res.status(500).json({ error: 'Failed to export account data' });
+  }
+};
+
+accountRouter.get('/export', requireRecentAuth(), audit('account_export'), exportAccountData);
+
+// Without a code, texts a confirmation code; with the code, schedules the
+// erasure for the end of the grace period
+const deleteAccount: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = accountDeletionSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid confirmation code', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const userId = req.session.userId!;
+    if (!parsed.data.code) {
+      const { code, smsSent } = await accountDeletionService.requestDeletion(userId);
+      res.status(202).json({
+        success: true,
+        message: smsSent
+          ? 'We have texted you a confirmation code'
+          : 'Confirmation code generated, but the text message could not be sent',
+        code: process.env.NODE_ENV === 'development' ? code : undefined,
+      });
+      return;
+    }
+
+    const deletion = await accountDeletionService.confirmDeletion(userId, parsed.data.code);
+    res.json({ success: true, deletion, graceDays: accountDeletionService.graceDays });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Account deletion error:', error);
+    res.status(500).json({ error: 'Failed to process deletion request' });
+  }
+};
+
+// Starting a deletion needs a fresh step-up; the confirming call is covered by
+// the deletion code, which only that step-up session could have requested
+const startsDeletion = (req: Request) => !req.body?.code;
+
+accountRouter.delete('/', requireRecentAuth(startsDeletion), audit('account'), deleteAccount);
+
+const getDeletionStatus: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const deletion = await accountDeletionService.getStatus(req.session.userId!);
+    res.json({ success: true, deletion, graceDays: accountDeletionService.graceDays });
+  } catch (error) {
+    console.error('Deletion status error:', error);
+    res.status(500).json({ error: 'Failed to fetch deletion status' });
+  }
+};
+
+accountRouter.get('/deletion', getDeletionStatus);
+
+const cancelDeletion: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    await accountDeletionService.cancelDeletion(req.session.userId!);
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Deletion cancel error:', error);
+    res.status(500).json({ error: 'Failed to cancel deletion' });
+  }
+};
+
+accountRouter.post('/deletion/cancel', audit('account', { action: 'update' }), cancelDeletion);
@@ -0,0 +1,177 @@
+import { Router, Request, Response, RequestHandler } from 'express';
+import {
+  adminUserQuerySchema,
+  adminUserCreateSchema,
+  adminUserUpdateSchema,
+  patientAssignmentSchema,
+  auditQuerySchema,
+} from '../../../shared/schema';
+import { requireRole, requireRecentAuth } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { userAdminService } from '../services/userAdminService';
+import { notificationBus } from '../services/notificationService';
+import { auditService } from '../services/auditService';
+import { accountDeletionService } from '../services/accountDeletionService';
+import { HttpError, sendHttpError } from '../errors';
+
+export const adminRouter = Router();
+
+adminRouter.use(requireRole('admin'));
+
+const parseIdParam = (req: Request, param: string, label: string): number => {
+  const id = Number(req.params[param]);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError(400, `Invalid ${label} ID`);
+  }
+  return id;
+};
+
+// User management
+
+const listUsers: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = adminUserQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid user query', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const result = await userAdminService.listUsers(parsed.data);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('User list error:', error);
+    res.status(500).json({ error: 'Failed to fetch users' });
+  }
+};
+
+adminRouter.get('/users', listUsers);
+
+const createUser: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = adminUserCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid user', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const user = await userAdminService.createUser(parsed.data);
+    res.status(201).json({ success: true, user });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('User create error:', error);
+    res.status(500).json({ error: 'Failed to create user' });
+  }
+};
+
+adminRouter.post('/users', audit('users'), createUser);
+
+// Edit contact details, or deactivate/reactivate with { isActive }
+const updateUser: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = adminUserUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid user update', details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const userId = parseIdParam(req, 'userId', 'user');
+    const user = await userAdminService.updateUser(req.session.userId!, userId, parsed.data);
+    if (parsed.data.isActive === false) {
+      notificationBus.emit('user-deactivated', userId);
+    }
+    res.json({ success: true, user });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('User update error:', error);
+    res.status(500).json({ error: 'Failed to update user' });
+  }
+};
+
+// Changing a phone number redirects every future login code, so it needs a fresh one
+const changesPhoneNumber = (req: Request) => req.body?.phoneNumber !== undefined;
+
+adminRouter.patch('/users/:userId', requireRecentAuth(changesPhoneNumber), audit('users', { resourceParam: 'userId' }), updateUser);
+
+// Replace a patient's care team; an empty list unassigns every doctor
+const setPatientDoctors: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = patientAssignmentSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid assignment', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const patientId = parseIdParam(req, 'patientId', 'patient');
+    const assignedDoctors = await userAdminService.setPatientDoctors(patientId, parsed.data.doctorIds);
+    res.json({ success: true, assignedDoctors });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Patient assignment error:', error);
+    res.status(500).json({ error: 'Failed to update patient assignment' });
+  }
+};
+
+adminRouter.put('/patients/:patientId/doctors', audit('care_team'), setPatientDoctors);
+
+// Audit trail
+
+// Filtered audit events as paged JSON, or every match (up to 10,000) as CSV with ?format=csv
+const listAuditEvents: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = auditQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid audit query', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    if (parsed.data.format === 'csv') {
+      const csv = await auditService.exportCsv(parsed.data);
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      res.attachment(`audit-${new Date().toISOString().split('T')[0]}.csv`);
+      res.send(csv);
+      return;
+    }
+    const result = await auditService.list(parsed.data);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Audit query error:', error);
+    res.status(500).json({ error: 'Failed to fetch audit events' });
+  }
+};
+
+adminRouter.get('/audit', audit('audit'), listAuditEvents);
+
+// Recompute the hash chain to detect edited, deleted or reordered events
+const verifyAuditChain: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const report = await auditService.verifyChain();
+    res.json({ success: true, ...report });
+  } catch (error) {
+    console.error('Audit verification error:', error);
+    res.status(500).json({ error: 'Failed to verify audit trail' });
+  }
+};
+
+adminRouter.get('/audit/verify', audit('audit'), verifyAuditChain);
+
+// Account deletions awaiting confirmation or their grace period
+const listPendingDeletions: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const deletions = await accountDeletionService.listPending();
+    res.json({ success: true, deletions, graceDays: accountDeletionService.graceDays });
+  } catch (error) {
+    console.error('Pending deletions error:', error);
+    res.status(500).json({ error: 'Failed to fetch pending deletions' });
+  }
+};
+
+adminRouter.get('/deletions', audit('users'), listPendingDeletions);
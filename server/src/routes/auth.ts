@@ -0,0 +1,235 @@
+import { Router, Request, Response, RequestHandler } from 'express';
+import { SessionData } from 'express-session';
+import { createHash } from 'crypto';
+import { eq } from 'drizzle-orm';
+import { db } from '../db';
+import { users, reauthCodeSchema } from '../../../shared/schema';
+import { authService } from '../services/authService';
+import { sessionStore } from '../services/sessionStore';
+import { notificationBus } from '../services/notificationService';
+import { requireAuth } from '../middleware/auth';
+import { idleTimeoutMs, startSessionActivity } from '../middleware/session';
+import { HttpError, sendHttpError } from '../errors';
+
+export const authRouter = Router();
+
+// Request login code
+const requestLogin: RequestHandler = async (req: Request, res: Response) => {
+  const { email } = req.body;
+  
+  if (!email) {
+    res.status(400).json({ error: 'Email is required' });
+    return;
+  }
+
+  try {
+    const { code, smsSent } = await authService.startLogin(email);
+
+    res.json({ 
+      success: true,
+      message: smsSent ? 'Verification code sent via SMS' : 'Verification code generated',
+      code: process.env.NODE_ENV === 'development' ? code : undefined
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Request login error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+authRouter.post('/request-login', requestLogin);
+
+// Verify login code
+const verifyLogin: RequestHandler = async (req: Request, res: Response) => {
+  const { email, code } = req.body;
+  
+  if (!email || !code) {
+    res.status(400).json({ error: 'Email and code are required' });
+    return;
+  }
+
+  try {
+    const user = await authService.verifyLogin(email, String(code));
+
+    // New session ID on sign-in, so an ID planted before login is worthless
+    await new Promise<void>((resolve, reject) => req.session.regenerate(err => (err ? reject(err) : resolve())));
+    req.session.userId = user.id;
+    req.session.role = user.role;
+    req.session.reauthenticatedAt = Date.now();
+    startSessionActivity(req);
+
+    res.json({ 
+      user: {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        timezone: user.timezone,
+        nudgeChannel: user.nudgeChannel
+      }
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Verify login error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+authRouter.post('/verify-login', verifyLogin);
+
+// Logout
+const logout: RequestHandler = (req: Request, res: Response) => {
+  const sessionId = req.sessionID;
+  req.session.destroy((err) => {
+    if (err) {
+      res.status(500).json({ error: 'Failed to logout' });
+      return;
+    }
+    notificationBus.emit('session-ended', sessionId);
+    res.json({ message: 'Logged out successfully' });
+  });
+};
+
+authRouter.post('/logout', logout);
+
+// Check session endpoint
+const checkSession: RequestHandler = async (req: Request, res: Response) => {
+  if (req.session.userId) {
+    try {
+      // Get user from database
+      const userResult = await db.select().from(users).where(eq(users.id, req.session.userId));
+      
+      if (userResult.length === 0) {
+        res.status(404).json({ error: 'User not found' });
+        return;
+      }
+
+      const user = userResult[0];
+      if (!user.isActive) {
+        // Deactivated since signing in: end the session rather than restore it
+        req.session.destroy(() => {
+          res.status(401).json({ error: 'This account has been deactivated' });
+        });
+        return;
+      }
+      res.json({ 
+        user: {
+          id: user.id,
+          email: user.email,
+          role: user.role,
+          timezone: user.timezone,
+          nudgeChannel: user.nudgeChannel
+        }
+      });
+    } catch (error) {
+      console.error('Check session error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  } else {
+    res.status(401).json({ error: 'No active session' });
+  }
+};
+
+authRouter.get('/session', checkSession);
+
+// Step-up: text the signed-in user a code before a sensitive action
+const requestChallenge: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const { code, smsSent, expiresAt } = await authService.startStepUp(req.session.userId!);
+    res.json({
+      success: true,
+      message: smsSent ? 'Verification code sent via SMS' : 'Verification code generated',
+      expiresAt,
+      code: process.env.NODE_ENV === 'development' ? code : undefined
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Step-up challenge error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+authRouter.post('/challenge', requireAuth, requestChallenge);
+
+const verifyChallenge: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = reauthCodeSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid verification code', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    await authService.verifyStepUp(req.session.userId!, parsed.data.code);
+    req.session.reauthenticatedAt = Date.now();
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Step-up verification error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+};
+
+authRouter.post('/verify-challenge', requireAuth, verifyChallenge);
+
+// When the idle session will lapse. Polling this does not count as activity
+const getSessionStatus: RequestHandler = (req: Request, res: Response) => {
+  const timeoutMs = idleTimeoutMs(req.session.role);
+  const lastActivity = req.session.lastActivity ?? Date.now();
+  res.json({
+    idleTimeoutSeconds: Math.round(timeoutMs / 1000),
+    expiresAt: new Date(lastActivity + timeoutMs).toISOString(),
+  });
+};
+
+authRouter.get('/session/status', requireAuth, getSessionStatus);
+
+// The signed-in user's devices. Session IDs are bearer credentials, so each
+// is identified by a hash instead
+const listSessions: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const rows = await sessionStore.listForUser(req.session.userId!);
+    const sessions = rows.map(row => {
+      const data = row.data as Partial<SessionData>;
+      return {
+        id: createHash('sha256').update(row.sid).digest('hex').slice(0, 16),
+        current: row.sid === req.sessionID,
+        loginAt: data.loginAt ? new Date(data.loginAt).toISOString() : null,
+        lastActivity: data.lastActivity ? new Date(data.lastActivity).toISOString() : null,
+        expiresAt: row.expiresAt,
+        ipAddress: data.ipAddress ?? null,
+        userAgent: data.userAgent ?? null,
+      };
+    });
+    res.json({ success: true, sessions });
+  } catch (error) {
+    console.error('Session list error:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+};
+
+authRouter.get('/sessions', requireAuth, listSessions);
+
+// Sign out every other device, keeping this one
+const logoutOtherSessions: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const removed = await sessionStore.destroyForUser(req.session.userId!, req.sessionID);
+    removed.forEach(sessionId => notificationBus.emit('session-ended', sessionId));
+    res.json({ success: true, loggedOut: removed.length });
+  } catch (error) {
+    console.error('Logout other sessions error:', error);
+    res.status(500).json({ error: 'Failed to log out other devices' });
+  }
+};
+
+authRouter.post('/sessions/logout-others', requireAuth, logoutOtherSessions);
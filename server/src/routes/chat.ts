@@ -0,0 +1,184 @@
+import { Router, Request, Response, RequestHandler } from 'express';
+import { chatMessageSchema, chatSessionListQuerySchema, ChatMessage, ChatSession } from '../../../shared/schema';
+import { requireRole } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { chatSessionService } from '../services/chatSessionService';
+import { supervisorAgentService } from '../services/supervisorAgent';
+import { HttpError, sendHttpError } from '../errors';
+
+export const chatRouter = Router();
+
+chatRouter.use(requireRole('patient'));
+
+// AI Chat endpoint; messages continue the patient's current conversation
+const handleChat: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = chatMessageSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Message is required', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const patientId = req.session.userId!;
+    const session = await chatSessionService.resolveForMessage(patientId, parsed.data.sessionId);
+    const history = session ? chatSessionService.historyForPrompt(session.messages) : [];
+
+    const userMessage: ChatMessage = { role: 'user', content: parsed.data.message, timestamp: new Date().toISOString() };
+    const response = await supervisorAgentService.processQuery(patientId, parsed.data.message, history);
+    const assistantMessage: ChatMessage = { role: 'assistant', content: response, timestamp: new Date().toISOString() };
+
+    const saved = await chatSessionService.append(patientId, session, [userMessage, assistantMessage]);
+
+    res.json({
+      success: true,
+      response,
+      sessionId: saved.id,
+      timestamp: assistantMessage.timestamp
+    });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Chat error:', error);
+    res.status(500).json({ error: 'Failed to process chat message' });
+  }
+};
+
+chatRouter.post('/', audit('chat'), handleChat);
+
+// Server-Sent Events helper
+const sendEvent = (res: Response, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * Only serve requests made by our own pages. The session cookie is SameSite=lax,
+ * so it still accompanies a top-level GET navigation from another site; without
+ * this check such a link could start a chat turn. Browsers send Sec-Fetch-Site;
+ * older ones are judged by the Referer instead, and requests with neither are
+ * refused.
+ */
+const requireSameOrigin: RequestHandler = (req: Request, res: Response, next) => {
+  const fetchSite = req.get('Sec-Fetch-Site');
+  let sameOrigin = fetchSite === 'same-origin';
+  if (!fetchSite) {
+    const referer = req.get('Referer');
+    try {
+      sameOrigin = !!referer && new URL(referer).origin === `${req.protocol}://${req.get('host')}`;
+    } catch {
+      sameOrigin = false;
+    }
+  }
+  if (!sameOrigin) {
+    res.status(403).json({ error: 'Chat streams can only be opened from this site' });
+    return;
+  }
+  next();
+};
+
+// Streaming chat: GET (EventSource, query string) or POST (fetch, JSON body).
+// The GET form is restricted to same-origin requests, and its query string is
+// kept out of the audit log by recording it as a create, like the POST.
+// Emits `delta` events as text arrives, then `done` once the turn is saved.
+const streamChat: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = chatMessageSchema.safeParse(req.method === 'GET' ? req.query : req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Message is required', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  const patientId = req.session.userId!;
+  let session: ChatSession | null;
+  try {
+    session = await chatSessionService.resolveForMessage(patientId, parsed.data.sessionId);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Chat stream error:', error);
+    res.status(500).json({ error: 'Failed to process chat message' });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  // Client cancelled or went away: stop generating and save nothing
+  const abort = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abort.abort();
+  });
+
+  try {
+    const history = session ? chatSessionService.historyForPrompt(session.messages) : [];
+    const userMessage: ChatMessage = { role: 'user', content: parsed.data.message, timestamp: new Date().toISOString() };
+
+    const response = await supervisorAgentService.processQueryStream(
+      patientId,
+      parsed.data.message,
+      history,
+      text => sendEvent(res, 'delta', { text }),
+      abort.signal
+    );
+    const assistantMessage: ChatMessage = { role: 'assistant', content: response, timestamp: new Date().toISOString() };
+
+    const saved = await chatSessionService.append(patientId, session, [userMessage, assistantMessage]);
+    sendEvent(res, 'done', { sessionId: saved.id, response, timestamp: assistantMessage.timestamp });
+  } catch (error) {
+    if (abort.signal.aborted) {
+      return;
+    }
+    console.error('Chat stream error:', error);
+    sendEvent(res, 'error', { error: 'Failed to process chat message' });
+  }
+  res.end();
+};
+
+chatRouter.get('/stream', requireSameOrigin, audit('chat', { action: 'create' }), streamChat);
+chatRouter.post('/stream', audit('chat'), streamChat);
+
+const listSessions: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = chatSessionListQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid session query', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const sessions = await chatSessionService.list(req.session.userId!, parsed.data.limit);
+    res.json({ success: true, sessions });
+  } catch (error) {
+    console.error('Chat session list error:', error);
+    res.status(500).json({ error: 'Failed to fetch chat sessions' });
+  }
+};
+
+chatRouter.get('/sessions', audit('chat'), listSessions);
+
+const getSession: RequestHandler = async (req: Request, res: Response) => {
+  const sessionId = Number(req.params.sessionId);
+  if (!Number.isInteger(sessionId) || sessionId <= 0) {
+    res.status(400).json({ error: 'Invalid session ID' });
+    return;
+  }
+
+  try {
+    const session = await chatSessionService.get(req.session.userId!, sessionId);
+    res.json({ success: true, session: { ...session, active: !chatSessionService.isIdle(session) } });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Chat session fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch chat session' });
+  }
+};
+
+chatRouter.get('/sessions/:sessionId', audit('chat', { resourceParam: 'sessionId' }), getSession);
@@ -0,0 +1,285 @@
+import { Router, Request, Response, RequestHandler } from 'express';
+import {
+  doctorRosterQuerySchema,
+  safetyEventQuerySchema,
+  carePlanDirectiveSchema,
+  carePlanDirectiveUpdateSchema,
+  carePlanDirectiveQuerySchema,
+  progressReportRequestSchema,
+  progressReportUpdateSchema,
+  doctorMessageSchema,
+} from '../../../shared/schema';
+import { requireRole, requirePatientAccess, requireRecentAuth } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { doctorService } from '../services/doctorService';
+import { carePlanService } from '../services/carePlanService';
+import { pprService } from '../services/pprService';
+import { careTeamService } from '../services/careTeamService';
+import { notificationService } from '../services/notificationService';
+import { HttpError, sendHttpError } from '../errors';
+
+export const doctorRouter = Router();
+
+doctorRouter.use(requireRole('doctor'));
+
+// Assigned patient roster with score summaries
+const getPatientRoster: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = doctorRosterQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid roster query', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const roster = await doctorService.getPatientRoster(req.doctorId!, parsed.data);
+    res.json({ success: true, ...roster });
+  } catch (error) {
+    console.error('Doctor roster error:', error);
+    res.status(500).json({ error: 'Failed to fetch patient roster' });
+  }
+};
+
+doctorRouter.get('/patients', audit('roster'), getPatientRoster);
+
+// Crisis escalations flagged by the assistant for this doctor's patients
+const getSafetyEvents: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = safetyEventQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid safety event query', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const events = await doctorService.listSafetyEvents(req.doctorId!, parsed.data.days);
+    res.json({ success: true, events });
+  } catch (error) {
+    console.error('Safety events error:', error);
+    res.status(500).json({ error: 'Failed to fetch safety events' });
+  }
+};
+
+doctorRouter.get('/safety-events', audit('safety_events'), getSafetyEvents);
+
+const parseIdParam = (req: Request, param: string, label: string): number => {
+  const id = Number(req.params[param]);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError(400, `Invalid ${label} ID`);
+  }
+  return id;
+};
+
+const patientAccess = requirePatientAccess('patientId');
+
+// Care Plan Directives
+
+const listDirectives: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = carePlanDirectiveQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid directive query', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const { asOf, includeRetired } = parsed.data;
+    if (asOf) {
+      // A bare date means "as of the end of that day" (UTC)
+      const asOfDate = new Date(asOf.length === 10 ? `${asOf}T23:59:59.999Z` : asOf);
+      const directives = await carePlanService.listAsOf(req.patientId!, asOfDate);
+      res.json({ success: true, asOf: asOfDate.toISOString(), directives });
+      return;
+    }
+
+    const directives = await carePlanService.list(req.patientId!, includeRetired === 'true');
+    res.json({ success: true, directives });
+  } catch (error) {
+    console.error('List directives error:', error);
+    res.status(500).json({ error: 'Failed to fetch care plan directives' });
+  }
+};
+
+const createDirective: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = carePlanDirectiveSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid care plan directive', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const directive = await carePlanService.create(req.patientId!, req.doctorId!, parsed.data);
+    res.status(201).json({ success: true, directive });
+  } catch (error) {
+    console.error('Create directive error:', error);
+    res.status(500).json({ error: 'Failed to create care plan directive' });
+  }
+};
+
+const updateDirective: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = carePlanDirectiveUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid care plan directive', details: parsed.error.flatten() });
+    return;
+  }
+
+  try {
+    const directive = await carePlanService.update(req.patientId!, parseIdParam(req, 'directiveId', 'directive'), req.doctorId!, parsed.data);
+    res.json({ success: true, directive });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Update directive error:', error);
+    res.status(500).json({ error: 'Failed to update care plan directive' });
+  }
+};
+
+const retireDirective: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const directive = await carePlanService.retire(req.patientId!, parseIdParam(req, 'directiveId', 'directive'), req.doctorId!);
+    res.json({ success: true, directive });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Retire directive error:', error);
+    res.status(500).json({ error: 'Failed to retire care plan directive' });
+  }
+};
+
+const getDirectiveHistory: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const versions = await carePlanService.history(req.patientId!, parseIdParam(req, 'directiveId', 'directive'));
+    res.json({ success: true, versions });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Directive history error:', error);
+    res.status(500).json({ error: 'Failed to fetch directive history' });
+  }
+};
+
+const auditDirectives = audit('cpds', { resourceParam: 'directiveId' });
+
+doctorRouter.get('/patients/:patientId/cpds', patientAccess, auditDirectives, listDirectives);
+doctorRouter.post('/patients/:patientId/cpds', patientAccess, requireRecentAuth(), auditDirectives, createDirective);
+doctorRouter.patch('/patients/:patientId/cpds/:directiveId', patientAccess, requireRecentAuth(), auditDirectives, updateDirective);
+doctorRouter.delete('/patients/:patientId/cpds/:directiveId', patientAccess, requireRecentAuth(), auditDirectives, retireDirective);
+doctorRouter.get('/patients/:patientId/cpds/:directiveId/history', patientAccess, auditDirectives, getDirectiveHistory);
+
+// Direct messages to a patient, delivered as in-app notifications
+const sendMessage: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = doctorMessageSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Message is required', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const doctor = await careTeamService.getDoctorForUser(req.session.userId!);
+    const notification = await notificationService.publish(req.patientId!, {
+      type: 'doctor_message',
+      title: `Message from ${doctor?.name || 'your doctor'}`,
+      body: parsed.data.message,
+      data: { doctorId: req.doctorId },
+    });
+    if (!notification) {
+      throw new Error('Notification could not be stored');
+    }
+    res.status(201).json({ success: true, message: notification });
+  } catch (error) {
+    console.error('Doctor message error:', error);
+    res.status(500).json({ error: 'Failed to send message' });
+  }
+};
+
+doctorRouter.post('/patients/:patientId/messages', patientAccess, audit('messages'), sendMessage);
+
+// Patient Progress Reports
+const generateReport: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = progressReportRequestSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid report request', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const report = await pprService.generateReport(req.patientId!, req.doctorId!, parsed.data.periodDays);
+    res.status(201).json({ success: true, report });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Generate report error:', error);
+    res.status(500).json({ error: 'Failed to generate progress report' });
+  }
+};
+
+const listReports: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const reports = await pprService.listReports(req.patientId!);
+    res.json({ success: true, reports });
+  } catch (error) {
+    console.error('List reports error:', error);
+    res.status(500).json({ error: 'Failed to fetch progress reports' });
+  }
+};
+
+const getReport: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const report = await pprService.getReport(req.patientId!, parseIdParam(req, 'reportId', 'report'));
+    res.json({ success: true, report });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Get report error:', error);
+    res.status(500).json({ error: 'Failed to fetch progress report' });
+  }
+};
+
+const updateReport: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = progressReportUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid report update', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const report = await pprService.updateReport(req.patientId!, parseIdParam(req, 'reportId', 'report'), parsed.data.reportMarkdown);
+    res.json({ success: true, report });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Update report error:', error);
+    res.status(500).json({ error: 'Failed to update progress report' });
+  }
+};
+
+const approveReport: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const report = await pprService.approveReport(req.patientId!, parseIdParam(req, 'reportId', 'report'), req.doctorId!);
+    res.json({ success: true, report });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('Approve report error:', error);
+    res.status(500).json({ error: 'Failed to approve progress report' });
+  }
+};
+
+const auditReports = audit('progress_reports', { resourceParam: 'reportId' });
+
+doctorRouter.post('/patients/:patientId/reports', patientAccess, auditReports, generateReport);
+doctorRouter.get('/patients/:patientId/reports', patientAccess, auditReports, listReports);
+doctorRouter.get('/patients/:patientId/reports/:reportId', patientAccess, auditReports, getReport);
+doctorRouter.patch('/patients/:patientId/reports/:reportId', patientAccess, auditReports, updateReport);
+doctorRouter.post('/patients/:patientId/reports/:reportId/approve', patientAccess, audit('progress_reports', { action: 'update', resourceParam: 'reportId' }), approveReport);
@@ -0,0 +1,131 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { Request, RequestHandler, Response } from 'express';
+import { WebSocket, WebSocketServer } from 'ws';
+import { UserNotification } from '../../../shared/schema';
+import { notificationBus, notificationService, NotificationReadEvent } from '../services/notificationService';
+
+export const NOTIFICATION_SOCKET_PATH = '/ws/notifications';
+
+const HEARTBEAT_MS = 30_000;
+const SNAPSHOT_LIMIT = 50;
+
+interface Connection {
+  userId: number;
+  sessionId: string;
+  alive: boolean;
+}
+
+function reject(socket: Duplex, status: number, message: string) {
+  socket.write(`HTTP/1.1 ${status} ${message}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+// Browsers always send Origin on WebSocket requests; refuse other sites' pages
+function sameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Authenticated push channel for in-app notifications. The upgrade request is
+ * run through the same express-session middleware as the REST API, so only
+ * signed-in users connect, and each socket only receives its user's events.
+ * Unread notifications are sent as a snapshot on connect.
+ */
+export function attachNotificationSocket(server: Server, sessionMiddleware: RequestHandler): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const connections = new Map<WebSocket, Connection>();
+
+  const sendToUser = (userId: number, payload: unknown) => {
+    const message = JSON.stringify(payload);
+    for (const [socket, connection] of connections) {
+      if (connection.userId === userId && socket.readyState === WebSocket.OPEN) {
+        socket.send(message);
+      }
+    }
+  };
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== NOTIFICATION_SOCKET_PATH) {
+      reject(socket, 404, 'Not Found');
+      return;
+    }
+    if (!sameOrigin(req)) {
+      reject(socket, 403, 'Forbidden');
+      return;
+    }
+
+    sessionMiddleware(req as Request, {} as Response, () => {
+      const request = req as Request;
+      const userId = request.session?.userId;
+      if (!userId) {
+        reject(socket, 401, 'Unauthorized');
+        return;
+      }
+      wss.handleUpgrade(req, socket, head, ws => {
+        connections.set(ws, { userId, sessionId: request.sessionID, alive: true });
+        wss.emit('connection', ws, req);
+      });
+    });
+  });
+
+  wss.on('connection', async (ws: WebSocket) => {
+    const connection = connections.get(ws)!;
+    ws.on('pong', () => { connection.alive = true; });
+    ws.on('close', () => { connections.delete(ws); });
+    ws.on('error', error => console.error(`[Notifications] Socket error for user ${connection.userId}:`, error.message));
+
+    try {
+      const [unread, unreadCount] = await Promise.all([
+        notificationService.list(connection.userId, { unreadOnly: true, limit: SNAPSHOT_LIMIT }),
+        notificationService.unreadCount(connection.userId),
+      ]);
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ type: 'snapshot', notifications: unread, unreadCount }));
+      }
+    } catch (error) {
+      console.error(`[Notifications] Failed to send snapshot to user ${connection.userId}:`, error);
+    }
+  });
+
+  notificationBus.on('notification', (notification: UserNotification) => {
+    sendToUser(notification.userId, { type: 'notification', notification });
+  });
+  notificationBus.on('read', (event: NotificationReadEvent) => {
+    sendToUser(event.userId, { type: 'read', ids: event.ids, unreadCount: event.unreadCount });
+  });
+  notificationBus.on('session-ended', (sessionId: string) => {
+    for (const [socket, connection] of connections) {
+      if (connection.sessionId === sessionId) socket.close(4001, 'Session ended');
+    }
+  });
+  notificationBus.on('user-deactivated', (userId: number) => {
+    for (const [socket, connection] of connections) {
+      if (connection.userId === userId) socket.close(4001, 'Account deactivated');
+    }
+  });
+
+  // Drop sockets that stopped answering pings (sleeping laptops, dead proxies)
+  const heartbeat = setInterval(() => {
+    for (const [socket, connection] of connections) {
+      if (!connection.alive) {
+        socket.terminate();
+        connections.delete(socket);
+        continue;
+      }
+      connection.alive = false;
+      socket.ping();
+    }
+  }, HEARTBEAT_MS);
+  heartbeat.unref();
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
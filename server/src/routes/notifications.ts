@@ -0,0 +1,50 @@
+import { Router, Request, Response, RequestHandler } from 'express';
+import { notificationListQuerySchema, notificationReadSchema } from '../../../shared/schema';
+import { requireAuth } from '../middleware/auth';
+import { notificationService } from '../services/notificationService';
+
+export const notificationRouter = Router();
+
+notificationRouter.use(requireAuth);
+
+// Recent notifications for the signed-in user; live updates arrive over the socket
+const listNotifications: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = notificationListQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid notification query', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const userId = req.session.userId!;
+    const [notifications, unreadCount] = await Promise.all([
+      notificationService.list(userId, { unreadOnly: parsed.data.unread === 'true', limit: parsed.data.limit }),
+      notificationService.unreadCount(userId),
+    ]);
+    res.json({ success: true, notifications, unreadCount });
+  } catch (error) {
+    console.error('Notification list error:', error);
+    res.status(500).json({ error: 'Failed to fetch notifications' });
+  }
+};
+
+notificationRouter.get('/', listNotifications);
+
+// Mark specific notifications read, or all of them when no IDs are given
+const markNotificationsRead: RequestHandler = async (req: Request, res: Response) => {
+  const parsed = notificationReadSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ error: 'Invalid notification IDs', details: parsed.error.flatten().fieldErrors });
+    return;
+  }
+
+  try {
+    const result = await notificationService.markRead(req.session.userId!, parsed.data.ids);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Notification update error:', error);
+    res.status(500).json({ error: 'Failed to update notifications' });
+  }
+};
+
+notificationRouter.post('/read', markNotificationsRead);
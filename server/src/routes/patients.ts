@@ -0,0 +1,51 @@
+import { Router, Request, Response, RequestHandler } from 'express';
+import { requireRole, requirePatientAccess, requireRecentAuth } from '../middleware/auth';
+import { audit } from '../middleware/audit';
+import { fhirService } from '../services/fhirService';
+import { HttpError, sendHttpError } from '../errors';
+
+// Mounted at /api: the patient's own /patient routes and the /patients/:patientId
+// routes that patients and their care team share
+export const patientRouter = Router();
+
+// Get patient context endpoint (own context, or a patient's context via requirePatientAccess)
+const getPatientContext: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const { aiContextService } = await import('../services/aiContextService');
+    const context = await aiContextService.prepareContext(req.patientId ?? req.session.userId!);
+
+    if (!context) {
+      res.status(404).json({ error: 'Patient context not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      context
+    });
+  } catch (error) {
+    console.error('Context fetch error:', error);
+    res.status(500).json({ error: 'Failed to fetch patient context' });
+  }
+};
+
+patientRouter.get('/patient/context', requireRole('patient'), audit('context'), getPatientContext);
+patientRouter.get('/patients/:patientId/context', requirePatientAccess('patientId'), audit('context'), getPatientContext);
+
+// FHIR R4 Bundle of the patient's self-reported data, for import into an EHR.
+// Only the patient and their assigned doctors may export it.
+const exportFhirBundle: RequestHandler = async (req: Request, res: Response) => {
+  try {
+    const bundle = await fhirService.buildPatientBundle(req.patientId!);
+    res.type('application/fhir+json').send(JSON.stringify(bundle));
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendHttpError(res, error);
+      return;
+    }
+    console.error('FHIR export error:', error);
+    res.status(500).json({ error: 'Failed to export patient data' });
+  }
+};
+
+patientRouter.get('/patients/:patientId/fhir', requireRole('patient', 'doctor'), requirePatientAccess('patientId'), requireRecentAuth(), audit('fhir_export'), exportFhirBundle);
@@ -0,0 +1,29 @@
+import { spawnSync } from 'child_process';
+import path from 'path';
+import { runDataMigrations } from '../dataMigrations';
+
+/**
+ * Apply shared/schema.ts to DATABASE_URL: prepare existing rows, push the
+ * schema with drizzle-kit (interactive, so it can ask about renames), then
+ * fill in data the new schema expects. Safe to run repeatedly.
+ */
+async function main() {
+  await runDataMigrations('before-push');
+
+  const push = spawnSync('npx', ['drizzle-kit', 'push'], {
+    cwd: path.join(__dirname, '..', '..', '..'),
+    stdio: 'inherit',
+  });
+  if (push.status !== 0) {
+    throw new Error(`drizzle-kit push failed (exit code ${push.status})`);
+  }
+
+  await runDataMigrations('after-push');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Database push failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,253 @@
+import { db } from '../db';
+import {
+  users,
+  loginChallenges,
+  smsMessages,
+  patientScores,
+  patientBadges,
+  patientNudges,
+  chatSessions,
+  supervisorAgentLogs,
+  progressReports,
+  doctorPatients,
+  notifications,
+  accountDeletionRequests,
+  auditEvents,
+  AccountDeletionRequest,
+} from '../../../shared/schema';
+import { and, asc, desc, eq, inArray, isNull, lte, sql } from 'drizzle-orm';
+import { authService } from './authService';
+import { auditService } from './auditService';
+import { notificationBus } from './notificationService';
+import { HttpError } from '../errors';
+
+const GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '30', 10);
+
+const OPEN_STATUSES: AccountDeletionRequest['status'][] = ['pending_confirmation', 'scheduled'];
+
+export interface DeletionStatus {
+  status: AccountDeletionRequest['status'];
+  requestedAt: Date;
+  scheduledFor: Date | null;
+}
+
+export interface PendingDeletion {
+  requestId: number;
+  userId: number;
+  email: string;
+  name: string | null;
+  status: AccountDeletionRequest['status'];
+  requestedAt: Date;
+  confirmedAt: Date | null;
+  scheduledFor: Date | null;
+}
+
+const toStatus = (request: AccountDeletionRequest): DeletionStatus => ({
+  status: request.status,
+  requestedAt: request.createdAt,
+  scheduledFor: request.scheduledFor,
+});
+
+async function openRequest(userId: number): Promise<AccountDeletionRequest | undefined> {
+  const [request] = await db
+    .select()
+    .from(accountDeletionRequests)
+    .where(and(eq(accountDeletionRequests.userId, userId), inArray(accountDeletionRequests.status, OPEN_STATUSES)))
+    .orderBy(desc(accountDeletionRequests.createdAt))
+    .limit(1);
+  return request;
+}
+
+export const accountDeletionService = {
+  graceDays: GRACE_DAYS,
+
+  /**
+   * Start a deletion request by texting a confirmation code to the patient's
+   * phone. Asking again replaces the previous code, within the limits on
+   * one-time codes.
+   */
+  async requestDeletion(userId: number): Promise<{ code: string; expiresAt: Date; smsSent: boolean }> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user || user.deletedAt) {
+      throw new HttpError(404, 'User not found');
+    }
+    if (!user.phoneNumber) {
+      throw new HttpError(400, 'Add a mobile number to your profile so we can confirm the deletion by text message.');
+    }
+
+    const existing = await openRequest(userId);
+    if (existing?.status === 'scheduled') {
+      throw new HttpError(409, 'Your account is already scheduled for deletion.');
+    }
+
+    const challenge = await authService.startDeletionCode(userId);
+    if (existing) {
+      await db
+        .update(accountDeletionRequests)
+        .set({ updatedAt: new Date() })
+        .where(eq(accountDeletionRequests.id, existing.id));
+    } else {
+      await db.insert(accountDeletionRequests).values({ userId });
+    }
+    return challenge;
+  },
+
+  /**
+   * Check the texted code and schedule the erasure for the end of the grace
+   * period. Wrong guesses count towards a lockout, as with login codes.
+   */
+  async confirmDeletion(userId: number, code: string): Promise<DeletionStatus> {
+    const request = await openRequest(userId);
+    if (!request || request.status !== 'pending_confirmation') {
+      throw new HttpError(400, 'No deletion request is awaiting confirmation. Please request a new code.');
+    }
+    await authService.verifyDeletionCode(userId, code);
+
+    const now = new Date();
+    const [scheduled] = await db
+      .update(accountDeletionRequests)
+      .set({
+        status: 'scheduled',
+        confirmedAt: now,
+        scheduledFor: new Date(now.getTime() + GRACE_DAYS * 24 * 60 * 60 * 1000),
+        updatedAt: now,
+      })
+      .where(eq(accountDeletionRequests.id, request.id))
+      .returning();
+    return toStatus(scheduled);
+  },
+
+  async cancelDeletion(userId: number): Promise<void> {
+    const cancelled = await db
+      .update(accountDeletionRequests)
+      .set({ status: 'cancelled', cancelledAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(accountDeletionRequests.userId, userId), inArray(accountDeletionRequests.status, OPEN_STATUSES)))
+      .returning({ id: accountDeletionRequests.id });
+    if (cancelled.length === 0) {
+      throw new HttpError(404, 'There is no deletion request to cancel.');
+    }
+  },
+
+  async getStatus(userId: number): Promise<DeletionStatus | null> {
+    const request = await openRequest(userId);
+    return request ? toStatus(request) : null;
+  },
+
+  /**
+   * Open requests for the admin dashboard, soonest erasure first.
+   */
+  async listPending(): Promise<PendingDeletion[]> {
+    return db
+      .select({
+        requestId: accountDeletionRequests.id,
+        userId: users.id,
+        email: users.email,
+        name: users.name,
+        status: accountDeletionRequests.status,
+        requestedAt: accountDeletionRequests.createdAt,
+        confirmedAt: accountDeletionRequests.confirmedAt,
+        scheduledFor: accountDeletionRequests.scheduledFor,
+      })
+      .from(accountDeletionRequests)
+      .innerJoin(users, eq(accountDeletionRequests.userId, users.id))
+      .where(inArray(accountDeletionRequests.status, OPEN_STATUSES))
+      .orderBy(sql`${accountDeletionRequests.scheduledFor} asc nulls last`, asc(accountDeletionRequests.createdAt));
+  },
+
+  /**
+   * Erase one patient in a single transaction. Personal records are deleted;
+   * rows other people rely on are kept but stripped of the patient's content:
+   * AI escalation logs lose their transcripts, approved progress reports lose
+   * their input data, the patient's own audit events lose their IP address,
+   * user agent and details (the chain only covers their salted digest), and
+   * the user row itself is anonymised so foreign keys still resolve.
+   *
+   * Care plan directives and their versions are retained as the doctors'
+   * clinical record, including free text written about the patient; the
+   * account page says so.
+   */
+  async eraseUser(requestId: number, userId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(patientScores).where(eq(patientScores.patientId, userId));
+      await tx.delete(patientBadges).where(eq(patientBadges.patientId, userId));
+      await tx.delete(chatSessions).where(eq(chatSessions.patientId, userId));
+      await tx.delete(patientNudges).where(eq(patientNudges.patientId, userId));
+      await tx.delete(notifications).where(eq(notifications.userId, userId));
+      await tx.delete(loginChallenges).where(eq(loginChallenges.userId, userId));
+      await tx.delete(smsMessages).where(eq(smsMessages.userId, userId));
+      await tx
+        .delete(progressReports)
+        .where(and(eq(progressReports.patientId, userId), eq(progressReports.status, 'draft')));
+      await tx
+        .update(progressReports)
+        .set({ inputBundle: {}, updatedAt: new Date() })
+        .where(eq(progressReports.patientId, userId));
+      await tx
+        .update(supervisorAgentLogs)
+        .set({ context: null, aiResponse: null, phiReport: null })
+        .where(eq(supervisorAgentLogs.patientId, userId));
+      await tx
+        .update(auditEvents)
+        .set({ ipAddress: null, userAgent: null, details: null, personalSalt: null, personalErasedAt: new Date() })
+        .where(and(eq(auditEvents.userId, userId), isNull(auditEvents.personalErasedAt)));
+      await tx
+        .update(doctorPatients)
+        .set({ isActive: false })
+        .where(eq(doctorPatients.patientId, userId));
+      await tx
+        .update(users)
+        .set({
+          email: `deleted-user-${userId}@deleted.invalid`,
+          name: null,
+          phoneNumber: null,
+          nudgeChannel: 'in_app',
+          isActive: false,
+          deletedAt: new Date(),
+        })
+        .where(eq(users.id, userId));
+      await tx
+        .update(accountDeletionRequests)
+        .set({ status: 'completed', completedAt: new Date(), updatedAt: new Date() })
+        .where(eq(accountDeletionRequests.id, requestId));
+    });
+
+    notificationBus.emit('user-deactivated', userId);
+    await auditService.record({
+      userId: null,
+      role: null,
+      action: 'delete',
+      dataType: 'account',
+      patientId: userId,
+      resourceId: String(requestId),
+      method: 'JOB',
+      path: 'account-deletions',
+      statusCode: 200,
+      ipAddress: null,
+      userAgent: null,
+      details: { graceDays: GRACE_DAYS },
+    });
+  },
+
+  /**
+   * Erase every account whose grace period has ended. Failures are logged
+   * and retried on the next run.
+   */
+  async processDue(now = new Date()): Promise<{ completed: number; failed: number }> {
+    const due = await db
+      .select({ id: accountDeletionRequests.id, userId: accountDeletionRequests.userId })
+      .from(accountDeletionRequests)
+      .where(and(eq(accountDeletionRequests.status, 'scheduled'), lte(accountDeletionRequests.scheduledFor, now)));
+
+    const summary = { completed: 0, failed: 0 };
+    for (const request of due) {
+      try {
+        await this.eraseUser(request.id, request.userId);
+        summary.completed++;
+      } catch (error) {
+        console.error(`[Deletion] Failed to erase user ${request.userId} (request ${request.id}):`, error);
+        summary.failed++;
+      }
+    }
+    return summary;
+  },
+};
@@ -0,0 +1,197 @@
+import { db } from '../db';
+import { users, doctors, patientScores, patientBadges, chatSessions } from '../../../shared/schema';
+import { and, count, desc, gte, lte, sql } from 'drizzle-orm';
+import { DEFAULT_TIMEZONE, localIsoDate, shiftIsoDate } from '../utils/dates';
+import { llmService, LlmHealth } from './llmService';
+
+const STATS_WINDOW_DAYS = 30;
+const DB_PROBE_TIMEOUT_MS = 5_000;
+
+export interface DailyCount {
+  date: string;
+  count: number;
+}
+
+export interface SystemHealth {
+  /** `down` when the database is unreachable, `degraded` when the AI chain is impaired. */
+  status: 'operational' | 'degraded' | 'down';
+  database: { ok: boolean; latencyMs: number; error?: string };
+  ai: LlmHealth;
+  checkedAt: string;
+}
+
+export interface AdminStats {
+  totalUsers: number;
+  totalAdmins: number;
+  totalDoctors: number;
+  totalPatients: number;
+  activePatients: number;
+  deactivatedUsers: number;
+  systemStatus: SystemHealth['status'];
+  health: SystemHealth;
+  window: { from: string; to: string; days: number };
+  dailyActivePatients: DailyCount[];
+  scoreSubmissions: DailyCount[];
+  chat: { activeSessions: number; patientMessages: number; daily: DailyCount[] };
+  averageScores: { diet: number | null; exercise: number | null; medication: number | null; submissions: number };
+  badgeAwards: { total: number; inWindow: number; daily: DailyCount[]; byType: { badgeType: string; count: number }[] };
+  doctorVerification: { verified: number; unverified: number };
+}
+
+// One entry per day in the window, zero where the query returned nothing
+function fillDays(rows: { date: string; count: number }[], from: string, days: number): DailyCount[] {
+  const byDate = new Map(rows.map(row => [row.date, Number(row.count)]));
+  return Array.from({ length: days }, (_, i) => {
+    const date = shiftIsoDate(from, i);
+    return { date, count: byDate.get(date) ?? 0 };
+  });
+}
+
+async function probeDatabase(): Promise<SystemHealth['database']> {
+  const startedAt = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      db.execute(sql`select 1`),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`timed out after ${DB_PROBE_TIMEOUT_MS}ms`)), DB_PROBE_TIMEOUT_MS);
+      }),
+    ]);
+    return { ok: true, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return { ok: false, latencyMs: Date.now() - startedAt, error: error instanceof Error ? error.message : String(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export const adminStatsService = {
+  async checkHealth(): Promise<SystemHealth> {
+    const [database, ai] = await Promise.all([probeDatabase(), llmService.probe()]);
+    return {
+      status: !database.ok ? 'down' : ai.status === 'ok' ? 'operational' : 'degraded',
+      database,
+      ai,
+      checkedAt: new Date().toISOString(),
+    };
+  },
+
+  /**
+   * Dashboard figures, aggregated in SQL over the last 30 days (UTC). A patient
+   * is active on a day when they submitted scores or sent the assistant a message.
+   */
+  async getStats(): Promise<AdminStats> {
+    const to = localIsoDate(DEFAULT_TIMEZONE);
+    const from = shiftIsoDate(to, -(STATS_WINDOW_DAYS - 1));
+    const fromTimestamp = new Date(`${from}T00:00:00Z`);
+
+    // Chat history is stored per session, so patient messages are unpacked from the JSON
+    const patientMessages = sql`
+      select s.patient_id, ((m->>'timestamp')::timestamptz at time zone 'UTC')::date as day
+      from ${chatSessions} s, jsonb_array_elements(s.messages) m
+      where s.last_activity >= ${from}::date and m->>'role' = 'user'`;
+
+    const [
+      userCounts,
+      activeDays,
+      submissions,
+      chatDays,
+      [{ activeSessions }],
+      [averages],
+      [{ totalBadges }],
+      badgeDays,
+      badgeTypes,
+      verification,
+      health,
+    ] = await Promise.all([
+      db
+        .select({ role: users.role, isActive: users.isActive, total: count() })
+        .from(users)
+        .groupBy(users.role, users.isActive),
+      db.execute<{ date: string; count: number }>(sql`
+        select day::text as date, count(distinct patient_id)::int as count from (
+          select ${patientScores.patientId} as patient_id, ${patientScores.createdAt}::date as day
+          from ${patientScores} where ${patientScores.createdAt} >= ${from}::date
+          union all
+          select patient_id, day from (${patientMessages}) messages
+        ) activity
+        where day >= ${from}::date
+        group by day`),
+      db
+        .select({ date: patientScores.scoreDate, count: count() })
+        .from(patientScores)
+        .where(and(gte(patientScores.scoreDate, from), lte(patientScores.scoreDate, to)))
+        .groupBy(patientScores.scoreDate),
+      db.execute<{ date: string; count: number }>(sql`
+        select day::text as date, count(*)::int as count
+        from (${patientMessages}) messages
+        where day >= ${from}::date
+        group by day`),
+      db
+        .select({ activeSessions: count() })
+        .from(chatSessions)
+        .where(gte(chatSessions.lastActivity, fromTimestamp)),
+      db
+        .select({
+          diet: sql<number | null>`round(avg(${patientScores.dietScore}), 1)`.mapWith(Number),
+          exercise: sql<number | null>`round(avg(${patientScores.exerciseScore}), 1)`.mapWith(Number),
+          medication: sql<number | null>`round(avg(${patientScores.medicationScore}), 1)`.mapWith(Number),
+          submissions: count(),
+        })
+        .from(patientScores)
+        .where(and(gte(patientScores.scoreDate, from), lte(patientScores.scoreDate, to))),
+      db.select({ totalBadges: count() }).from(patientBadges),
+      db
+        .select({ date: sql<string>`${patientBadges.earnedDate}::date::text`, count: count() })
+        .from(patientBadges)
+        .where(gte(patientBadges.earnedDate, fromTimestamp))
+        .groupBy(sql`${patientBadges.earnedDate}::date`),
+      db
+        .select({ badgeType: patientBadges.badgeType, count: count() })
+        .from(patientBadges)
+        .where(gte(patientBadges.earnedDate, fromTimestamp))
+        .groupBy(patientBadges.badgeType)
+        .orderBy(desc(count())),
+      db
+        .select({ isVerified: doctors.isVerified, total: count() })
+        .from(doctors)
+        .groupBy(doctors.isVerified),
+      this.checkHealth(),
+    ]);
+
+    const countUsers = (match: (row: typeof userCounts[number]) => boolean) =>
+      userCounts.filter(match).reduce((sum, row) => sum + row.total, 0);
+    const chatDaily = fillDays([...chatDays], from, STATS_WINDOW_DAYS);
+    const badgeDaily = fillDays(badgeDays, from, STATS_WINDOW_DAYS);
+
+    return {
+      totalUsers: countUsers(() => true),
+      totalAdmins: countUsers(row => row.role === 'admin'),
+      totalDoctors: countUsers(row => row.role === 'doctor'),
+      totalPatients: countUsers(row => row.role === 'patient'),
+      activePatients: countUsers(row => row.role === 'patient' && row.isActive),
+      deactivatedUsers: countUsers(row => !row.isActive),
+      systemStatus: health.status,
+      health,
+      window: { from, to, days: STATS_WINDOW_DAYS },
+      dailyActivePatients: fillDays([...activeDays], from, STATS_WINDOW_DAYS),
+      scoreSubmissions: fillDays(submissions, from, STATS_WINDOW_DAYS),
+      chat: {
+        activeSessions,
+        patientMessages: chatDaily.reduce((sum, day) => sum + day.count, 0),
+        daily: chatDaily,
+      },
+      averageScores: averages,
+      badgeAwards: {
+        total: totalBadges,
+        inWindow: badgeDaily.reduce((sum, day) => sum + day.count, 0),
+        daily: badgeDaily,
+        byType: badgeTypes,
+      },
+      doctorVerification: {
+        verified: verification.find(row => row.isVerified)?.total ?? 0,
+        unverified: verification.find(row => !row.isVerified)?.total ?? 0,
+      },
+    };
+  },
+};
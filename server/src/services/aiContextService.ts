@@ -1,20 +1,28 @@
 import { db } from '../db';
 import { users, patientScores, patientBadges, carePlanDirectives, supervisorAgentLogs } from '../../../shared/schema';
 import { eq, gte, desc, and } from 'drizzle-orm';
+import type { PhiRedactionReport } from './phiDeidentificationService';
+import { DEFAULT_TIMEZONE, daysBetween, localIsoDate, shiftIsoDate } from '../utils/dates';
+import { analyzeTrends, TrendAnalysis, TREND_WINDOW_DAYS } from './trendService';
 
-interface PatientContext {
+export interface PatientContext {
   id: number;
   name: string;
   email: string;
+  phoneNumber: string | null;
+  timezone: string;
+  localDate: string;
   recentScores: any[];
   badges: any[];
   carePlanDirectives: any[];
   lastActivity: Date | null;
+  daysSinceLastActivity: number | null;
   trends: {
     dietTrend: 'improving' | 'stable' | 'declining';
     exerciseTrend: 'improving' | 'stable' | 'declining';
     medicationTrend: 'improving' | 'stable' | 'declining';
   };
+  trendAnalysis: TrendAnalysis;
 }
 
 class AIContextService {
@@ -31,6 +39,8 @@ class AIContextService {
           id: users.id,
           name: users.name,
           email: users.email,
+          phoneNumber: users.phoneNumber,
+          timezone: users.timezone,
           createdAt: users.createdAt
         })
         .from(users)
@@ -41,20 +51,22 @@ class AIContextService {
         return null;
       }
 
-      // Get recent scores (last 14 days)
-      const fourteenDaysAgo = new Date();
-      fourteenDaysAgo.setDate(fourteenDaysAgo.getDate() - 14);
+      // Get recent scores (last 14 days, or the trend window if longer, in the patient's own timezone)
+      const timezone = patient.timezone || DEFAULT_TIMEZONE;
+      const localDate = localIsoDate(timezone);
+      const fourteenDaysAgo = shiftIsoDate(localDate, -13);
 
-      const recentScores = await db
+      const windowScores = await db
         .select()
         .from(patientScores)
         .where(
           and(
             eq(patientScores.patientId, patientId),
-            gte(patientScores.scoreDate, fourteenDaysAgo)
+            gte(patientScores.scoreDate, shiftIsoDate(localDate, -(Math.max(14, TREND_WINDOW_DAYS) - 1)))
           )
         )
         .orderBy(desc(patientScores.scoreDate));
+      const recentScores = windowScores.filter(s => s.scoreDate >= fourteenDaysAgo);
 
       // Get all earned badges
       const badges = await db
@@ -75,22 +87,31 @@ class AIContextService {
         );
 
       // Calculate health trends
-      const trends = this.calculateTrends(recentScores);
+      const trendAnalysis = analyzeTrends(windowScores, localDate);
+      const trends = this.trendLabels(trendAnalysis);
 
       // Determine last activity
       const lastActivity = recentScores.length > 0 
         ? new Date(recentScores[0].scoreDate) 
         : null;
+      const daysSinceLastActivity = recentScores.length > 0
+        ? daysBetween(recentScores[0].scoreDate, localDate)
+        : null;
 
       const context: PatientContext = {
         id: patient.id,
         name: patient.name || "Patient",
         email: patient.email || "",
+        phoneNumber: patient.phoneNumber,
+        timezone,
+        localDate,
         recentScores,
         badges,
         carePlanDirectives: cpds,
         lastActivity,
-        trends
+        daysSinceLastActivity,
+        trends,
+        trendAnalysis
       };
 
       console.log(`[MCP] Context prepared: ${recentScores.length} scores, ${badges.length} badges, ${cpds.length} CPDs`);
@@ -103,52 +124,13 @@ class AIContextService {
   }
 
   /**
-   * Calculate health trends from recent scores using MCP framework
+   * Headline trend per metric, as used in prompts and the doctor roster
    */
-  private calculateTrends(scores: any[]): PatientContext['trends'] {
-    if (scores.length < 3) {
-      return {
-        dietTrend: 'stable',
-        exerciseTrend: 'stable',
-        medicationTrend: 'stable'
-      };
-    }
-
-    // Compare recent 3 scores vs older 3 scores
-    const recent = scores.slice(0, 3);
-    const older = scores.slice(3, 6);
-
-    if (recent.length < 2 || older.length < 2) {
-      return {
-        dietTrend: 'stable',
-        exerciseTrend: 'stable',
-        medicationTrend: 'stable'
-      };
-    }
-
-    const recentAvg = {
-      diet: recent.reduce((sum, s) => sum + s.dietScore, 0) / recent.length,
-      exercise: recent.reduce((sum, s) => sum + s.exerciseScore, 0) / recent.length,
-      medication: recent.reduce((sum, s) => sum + s.medicationScore, 0) / recent.length
-    };
-
-    const olderAvg = {
-      diet: older.reduce((sum, s) => sum + s.dietScore, 0) / older.length,
-      exercise: older.reduce((sum, s) => sum + s.exerciseScore, 0) / older.length,
-      medication: older.reduce((sum, s) => sum + s.medicationScore, 0) / older.length
-    };
-
-    const getTrend = (recent: number, older: number) => {
-      const diff = recent - older;
-      if (diff > 0.5) return 'improving';
-      if (diff < -0.5) return 'declining';
-      return 'stable';
-    };
-
+  trendLabels(analysis: TrendAnalysis): PatientContext['trends'] {
     return {
-      dietTrend: getTrend(recentAvg.diet, olderAvg.diet),
-      exerciseTrend: getTrend(recentAvg.exercise, olderAvg.exercise),
-      medicationTrend: getTrend(recentAvg.medication, olderAvg.medication)
+      dietTrend: analysis.metrics.diet.direction,
+      exerciseTrend: analysis.metrics.exercise.direction,
+      medicationTrend: analysis.metrics.medication.direction
     };
   }
 
@@ -159,17 +141,20 @@ class AIContextService {
     patientId: number,
     action: string,
     context: any,
-    aiResponse: string
+    aiResponse: string,
+    phiReport?: PhiRedactionReport,
+    doctorId: number | null = null
   ): Promise<void> {
     try {
       await db
         .insert(supervisorAgentLogs)
         .values({
           patientId,
-          doctorId: null,
+          doctorId,
           action,
           context: JSON.stringify(context),
-          aiResponse
+          aiResponse,
+          phiReport
         });
     } catch (error) {
       console.error('[MCP] Error logging AI interaction:', error);
@@ -197,9 +182,7 @@ class AIContextService {
         };
       }
 
-      const daysSinceLastActivity = context.lastActivity 
-        ? Math.floor((Date.now() - context.lastActivity.getTime()) / (1000 * 60 * 60 * 24))
-        : 999;
+      const daysSinceLastActivity = context.daysSinceLastActivity ?? 999;
 
       // MCP-based engagement scoring
       const engagementLevel = 
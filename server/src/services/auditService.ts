@@ -0,0 +1,184 @@
+import { createHash, randomBytes } from 'crypto';
+import { db } from '../db';
+import { auditEvents, AuditEvent, AuditQuery } from '../../../shared/schema';
+import { and, asc, count, desc, eq, gt, gte, lt, sql } from 'drizzle-orm';
+import { shiftIsoDate } from '../utils/dates';
+import { toCsv } from '../utils/csv';
+
+// Serialises appends across every server process so each row links to the true previous one
+const AUDIT_CHAIN_LOCK = 0x6b67_6175; // 'kgau'
+const CSV_EXPORT_LIMIT = 10_000;
+const VERIFY_BATCH_SIZE = 1_000;
+
+export type AuditAction = AuditEvent['action'];
+
+export type AuditEventInput = Omit<
+  AuditEvent,
+  'id' | 'occurredAt' | 'personalSalt' | 'personalDigest' | 'personalErasedAt' | 'prevHash' | 'hash'
+>;
+
+export interface AuditChainReport {
+  valid: boolean;
+  checked: number;
+  /** First event whose hash or link does not match, when the chain is broken. */
+  brokenAt?: { id: number; reason: string };
+}
+
+// JSON with object keys sorted, so jsonb's key reordering does not change the hash
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Salted digest of the fields that identify the requester. The chain hashes
+ * this rather than the raw values, so they can be erased later; the salt keeps
+ * the digest of a short value such as an IP address from being brute-forced.
+ */
+export function digestPersonalFields(salt: string, event: Pick<AuditEvent, 'ipAddress' | 'userAgent' | 'details'>): string {
+  return createHash('sha256').update(salt).update(canonicalJson([event.ipAddress, event.userAgent, event.details])).digest('hex');
+}
+
+export function hashAuditEvent(event: Omit<AuditEvent, 'id' | 'hash'>): string {
+  const payload = canonicalJson([
+    event.prevHash,
+    event.occurredAt.toISOString(),
+    event.userId,
+    event.role,
+    event.action,
+    event.dataType,
+    event.patientId,
+    event.resourceId,
+    event.method,
+    event.path,
+    event.statusCode,
+    event.personalDigest,
+  ]);
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+function filters(query: AuditQuery) {
+  return and(
+    query.userId ? eq(auditEvents.userId, query.userId) : undefined,
+    query.patientId ? eq(auditEvents.patientId, query.patientId) : undefined,
+    query.role ? eq(auditEvents.role, query.role) : undefined,
+    query.action ? eq(auditEvents.action, query.action) : undefined,
+    query.dataType ? eq(auditEvents.dataType, query.dataType) : undefined,
+    query.from ? gte(auditEvents.occurredAt, new Date(`${query.from}T00:00:00Z`)) : undefined,
+    query.to ? lt(auditEvents.occurredAt, new Date(`${shiftIsoDate(query.to, 1)}T00:00:00Z`)) : undefined
+  );
+}
+
+const CSV_COLUMNS: (keyof AuditEvent)[] = [
+  'id', 'occurredAt', 'userId', 'role', 'action', 'dataType', 'patientId', 'resourceId',
+  'method', 'path', 'statusCode', 'ipAddress', 'userAgent', 'details', 'personalErasedAt', 'prevHash', 'hash',
+];
+
+export const auditService = {
+  /**
+   * Append an event to the chain. Like notifications, a failure is logged and
+   * never fails the request being audited.
+   */
+  async record(input: AuditEventInput): Promise<AuditEvent | null> {
+    try {
+      return await db.transaction(async (tx) => {
+        await tx.execute(sql`select pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK})`);
+        const [last] = await tx
+          .select({ hash: auditEvents.hash })
+          .from(auditEvents)
+          .orderBy(desc(auditEvents.id))
+          .limit(1);
+
+        const personalSalt = randomBytes(16).toString('hex');
+        const event = {
+          ...input,
+          occurredAt: new Date(),
+          personalSalt,
+          personalDigest: digestPersonalFields(personalSalt, input),
+          personalErasedAt: null,
+          prevHash: last?.hash ?? null,
+        };
+        const [inserted] = await tx
+          .insert(auditEvents)
+          .values({ ...event, hash: hashAuditEvent(event) })
+          .returning();
+        return inserted;
+      });
+    } catch (error) {
+      console.error(`[Audit] Failed to record ${input.action} ${input.dataType} by user ${input.userId}:`, error);
+      return null;
+    }
+  },
+
+  async list(query: AuditQuery): Promise<{ events: AuditEvent[]; page: number; pageSize: number; total: number }> {
+    const where = filters(query);
+    const [{ total }] = await db.select({ total: count() }).from(auditEvents).where(where);
+    const events = await db
+      .select()
+      .from(auditEvents)
+      .where(where)
+      .orderBy(desc(auditEvents.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    return { events, page: query.page, pageSize: query.pageSize, total };
+  },
+
+  /**
+   * Matching events as CSV, newest first, capped at CSV_EXPORT_LIMIT rows.
+   */
+  async exportCsv(query: AuditQuery): Promise<string> {
+    const events = await db
+      .select()
+      .from(auditEvents)
+      .where(filters(query))
+      .orderBy(desc(auditEvents.id))
+      .limit(CSV_EXPORT_LIMIT);
+    return toCsv(events, CSV_COLUMNS);
+  },
+
+  /**
+   * Recompute every hash in order and check each row links to the one before.
+   * Requester details are checked against their digest unless they were erased.
+   */
+  async verifyChain(): Promise<AuditChainReport> {
+    let checked = 0;
+    let prevHash: string | null = null;
+    let afterId = 0;
+
+    for (;;) {
+      const batch = await db
+        .select()
+        .from(auditEvents)
+        .where(gt(auditEvents.id, afterId))
+        .orderBy(asc(auditEvents.id))
+        .limit(VERIFY_BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      for (const event of batch) {
+        if (event.prevHash !== prevHash) {
+          return { valid: false, checked, brokenAt: { id: event.id, reason: 'Previous hash does not match the preceding event' } };
+        }
+        const { id: _id, hash, ...fields } = event;
+        if (!event.personalErasedAt && digestPersonalFields(event.personalSalt ?? '', event) !== event.personalDigest) {
+          return { valid: false, checked, brokenAt: { id: event.id, reason: 'Requester details do not match their digest' } };
+        }
+        if (hashAuditEvent(fields) !== hash) {
+          return { valid: false, checked, brokenAt: { id: event.id, reason: 'Event contents do not match its hash' } };
+        }
+        prevHash = hash;
+        checked++;
+      }
+      afterId = batch[batch.length - 1].id;
+    }
+
+    return { valid: true, checked };
+  },
+};
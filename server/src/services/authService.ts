@@ -0,0 +1,191 @@
+import { randomInt } from 'crypto';
+import { db } from '../db';
+import { users, loginChallenges, User, LoginChallenge } from '../../../shared/schema';
+import { and, desc, eq, gte, isNull, lt, sql } from 'drizzle-orm';
+import bcrypt from 'bcryptjs';
+import { smsService } from './smsService';
+import { AuthError } from '../errors';
+
+const CODE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const MAX_VERIFY_ATTEMPTS = 5;
+const RESEND_INTERVAL_MS = 60 * 1000; // 1 minute between codes
+const MAX_CODES_PER_HOUR = 5;
+const DEACTIVATED_MESSAGE = 'This account has been deactivated. Please contact your administrator.';
+
+type ChallengePurpose = LoginChallenge['purpose'];
+
+/**
+ * Issue a new one-time code for the user. Any earlier unused code for the same
+ * purpose is invalidated; only the bcrypt hash is stored.
+ */
+async function issueChallenge(user: User, purpose: ChallengePurpose): Promise<{ code: string; expiresAt: Date; smsSent: boolean }> {
+  const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+  const recent = await db
+    .select()
+    .from(loginChallenges)
+    .where(and(
+      eq(loginChallenges.userId, user.id),
+      eq(loginChallenges.purpose, purpose),
+      gte(loginChallenges.createdAt, oneHourAgo)
+    ))
+    .orderBy(desc(loginChallenges.createdAt));
+
+  if (recent.length > 0) {
+    const sinceLast = Date.now() - recent[0].createdAt.getTime();
+    if (sinceLast < RESEND_INTERVAL_MS) {
+      const wait = Math.ceil((RESEND_INTERVAL_MS - sinceLast) / 1000);
+      throw new AuthError(`Please wait ${wait} seconds before requesting another code.`, 429, wait);
+    }
+  }
+  if (recent.length >= MAX_CODES_PER_HOUR) {
+    const wait = Math.ceil((recent[recent.length - 1].createdAt.getTime() + 60 * 60 * 1000 - Date.now()) / 1000);
+    throw new AuthError('Too many verification codes requested. Please try again later.', 429, wait);
+  }
+
+  // Only one code can be live per user and purpose
+  await db
+    .update(loginChallenges)
+    .set({ consumedAt: new Date() })
+    .where(and(
+      eq(loginChallenges.userId, user.id),
+      eq(loginChallenges.purpose, purpose),
+      isNull(loginChallenges.consumedAt)
+    ));
+
+  const code = randomInt(100000, 1000000).toString();
+  const codeHash = await bcrypt.hash(code, 10);
+  const expiresAt = new Date(Date.now() + CODE_TTL_MS);
+
+  await db.insert(loginChallenges).values({ userId: user.id, purpose, codeHash, expiresAt });
+
+  let smsSent = false;
+  if (user.phoneNumber) {
+    const delivery = purpose === 'deletion'
+      ? await smsService.send(user.phoneNumber, 'deletion_code', { code }, user.id)
+      : await smsService.sendVerificationCode(user.phoneNumber, code, user.id);
+    smsSent = delivery.success;
+  }
+
+  return { code, expiresAt, smsSent };
+}
+
+/**
+ * Check a code against the user's live challenge for the purpose. Each wrong
+ * guess counts towards the lockout; a locked or expired challenge needs a new code.
+ */
+async function verifyChallenge(user: User, purpose: ChallengePurpose, code: string): Promise<void> {
+  const [challenge] = await db
+    .select()
+    .from(loginChallenges)
+    .where(and(
+      eq(loginChallenges.userId, user.id),
+      eq(loginChallenges.purpose, purpose),
+      isNull(loginChallenges.consumedAt)
+    ))
+    .orderBy(desc(loginChallenges.createdAt))
+    .limit(1);
+
+  if (!challenge) {
+    throw new AuthError(purpose === 'login'
+      ? 'No login attempt found. Please request a new code.'
+      : 'No verification code is pending. Please request a new code.');
+  }
+  if (challenge.lockedAt) {
+    throw new AuthError('Too many incorrect attempts. Please request a new code.', 429);
+  }
+  if (new Date() > challenge.expiresAt) {
+    await db.update(loginChallenges).set({ consumedAt: new Date() }).where(eq(loginChallenges.id, challenge.id));
+    throw new AuthError('Your verification code has expired. Please request a new one.');
+  }
+
+  // Claim the attempt in SQL before comparing so parallel guesses cannot exceed the limit
+  const [claimed] = await db
+    .update(loginChallenges)
+    .set({ attempts: sql`${loginChallenges.attempts} + 1` })
+    .where(and(
+      eq(loginChallenges.id, challenge.id),
+      lt(loginChallenges.attempts, MAX_VERIFY_ATTEMPTS),
+      isNull(loginChallenges.consumedAt)
+    ))
+    .returning({ attempts: loginChallenges.attempts });
+
+  if (!claimed) {
+    throw new AuthError('Too many incorrect attempts. Please request a new code.', 429);
+  }
+
+  const isCodeValid = await bcrypt.compare(code, challenge.codeHash);
+  if (!isCodeValid) {
+    if (claimed.attempts >= MAX_VERIFY_ATTEMPTS) {
+      await db.update(loginChallenges).set({ lockedAt: new Date() }).where(eq(loginChallenges.id, challenge.id));
+      throw new AuthError('Too many incorrect attempts. Please request a new code.', 429);
+    }
+    throw new AuthError(`The verification code you entered is incorrect. ${MAX_VERIFY_ATTEMPTS - claimed.attempts} attempts remaining.`);
+  }
+
+  await db.update(loginChallenges).set({ consumedAt: new Date() }).where(eq(loginChallenges.id, challenge.id));
+}
+
+async function activeUser(userId: number): Promise<User> {
+  const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+  if (!user) { throw new AuthError('User not found', 404); }
+  if (!user.isActive) { throw new AuthError(DEACTIVATED_MESSAGE, 403); }
+  return user;
+}
+
+export const authService = {
+  /**
+   * Whether the user may still use the service: the account exists, has not
+   * been deactivated and has not been erased.
+   */
+  async isAccountActive(userId: number): Promise<boolean> {
+    const user = await db.query.users.findFirst({
+      columns: { isActive: true, deletedAt: true },
+      where: eq(users.id, userId),
+    });
+    return !!user && user.isActive && !user.deletedAt;
+  },
+
+  /**
+   * Issue a new one-time login code for the user with this email.
+   */
+  async startLogin(email: string): Promise<{ user: User; code: string; expiresAt: Date; smsSent: boolean }> {
+    const user = await db.query.users.findFirst({ where: eq(users.email, email) });
+    if (!user) { throw new AuthError('User not found', 404); }
+    if (!user.isActive) { throw new AuthError(DEACTIVATED_MESSAGE, 403); }
+
+    return { user, ...(await issueChallenge(user, 'login')) };
+  },
+
+  async verifyLogin(email: string, code: string): Promise<User> {
+    const user = await db.query.users.findFirst({ where: eq(users.email, email) });
+    if (!user) { throw new AuthError('Invalid verification code'); }
+    if (!user.isActive) { throw new AuthError(DEACTIVATED_MESSAGE, 403); }
+
+    await verifyChallenge(user, 'login', code);
+    return user;
+  },
+
+  /**
+   * Text a signed-in user a code to re-confirm their identity before a
+   * sensitive action. Step-up codes are separate from login codes.
+   */
+  async startStepUp(userId: number): Promise<{ code: string; expiresAt: Date; smsSent: boolean }> {
+    return issueChallenge(await activeUser(userId), 'step_up');
+  },
+
+  async verifyStepUp(userId: number, code: string): Promise<void> {
+    await verifyChallenge(await activeUser(userId), 'step_up', code);
+  },
+
+  /**
+   * Text a patient the code that confirms their account deletion. Shares the
+   * resend interval, hourly cap and lockout of the other one-time codes.
+   */
+  async startDeletionCode(userId: number): Promise<{ code: string; expiresAt: Date; smsSent: boolean }> {
+    return issueChallenge(await activeUser(userId), 'deletion');
+  },
+
+  async verifyDeletionCode(userId: number, code: string): Promise<void> {
+    await verifyChallenge(await activeUser(userId), 'deletion', code);
+  }
+};
@@ -0,0 +1,233 @@
+import { db } from '../db';
+import { badgeRules, patientBadges, patientScores, BadgeRule, BadgeRuleInput, BadgeRuleUpdate, PatientBadge, PatientScore } from '../../../shared/schema';
+import { asc, desc, eq } from 'drizzle-orm';
+import { HttpError } from '../errors';
+import { shiftIsoDate } from '../utils/dates';
+import { scoreService } from './scoreService';
+import { notificationService } from './notificationService';
+
+type BadgeMetric = BadgeRule['metric'];
+
+// The original programme's tiers, seeded when no rules exist yet
+const TIER_REQUIREMENTS = [
+  { tier: 'Bronze', requiredDays: 14, minScore: 5 },
+  { tier: 'Silver', requiredDays: 28, minScore: 7 },
+  { tier: 'Gold', requiredDays: 112, minScore: 8 },
+  { tier: 'Platinum', requiredDays: 168, minScore: 9 },
+];
+
+const DEFAULT_BADGE_TYPES: { badgeType: string; metric: BadgeMetric }[] = [
+  { badgeType: 'Healthy Meal Plan Hero', metric: 'dietScore' },
+  { badgeType: 'E&W Consistency Champion', metric: 'exerciseScore' },
+  { badgeType: 'Medication Maverick', metric: 'medicationScore' },
+];
+
+export const DEFAULT_BADGE_RULES: BadgeRuleInput[] = DEFAULT_BADGE_TYPES.flatMap(type =>
+  TIER_REQUIREMENTS.map(requirement => ({ ...type, ...requirement })));
+
+const METRIC_LABELS: Record<BadgeMetric, string> = {
+  dietScore: 'diet',
+  exerciseScore: 'exercise',
+  medicationScore: 'medication',
+};
+
+/**
+ * Consecutive days, counting back from the most recent submission, on which
+ * the metric met the threshold. Scores must be ordered newest first; a missed
+ * day or a low score ends the streak.
+ */
+export function qualifyingStreak(scores: PatientScore[], metric: BadgeMetric, minScore: number): number {
+  let streak = 0;
+  let expectedDate = scores[0]?.scoreDate;
+  for (const score of scores) {
+    if (score.scoreDate !== expectedDate || score[metric] < minScore) break;
+    streak++;
+    expectedDate = shiftIsoDate(expectedDate, -1);
+  }
+  return streak;
+}
+
+export interface TierProgress {
+  ruleId: number;
+  tier: string;
+  requiredDays: number;
+  minScore: number;
+  criteria: string;
+  currentStreak: number;
+  daysRemaining: number;
+  earned: boolean;
+  earnedDate: Date | null;
+  /** The latest submission fell below this tier's threshold and ended a running streak. */
+  streakBroken: boolean;
+}
+
+export interface BadgeProgress {
+  badgeType: string;
+  metric: BadgeMetric;
+  nextTier: string | null;
+  tiers: TierProgress[];
+}
+
+export function describeRule(rule: Pick<BadgeRule, 'metric' | 'requiredDays' | 'minScore'>): string {
+  return `${rule.requiredDays} consecutive days with a ${METRIC_LABELS[rule.metric]} score of ${rule.minScore} or more`;
+}
+
+export const badgeService = {
+  /**
+   * Active rules, grouped by badge type and ordered by tier length.
+   */
+  async getRules(includeInactive = false): Promise<BadgeRule[]> {
+    const query = () => db
+      .select()
+      .from(badgeRules)
+      .where(includeInactive ? undefined : eq(badgeRules.isActive, true))
+      .orderBy(asc(badgeRules.badgeType), asc(badgeRules.requiredDays));
+
+    const rules = await query();
+    if (rules.length > 0 || includeInactive) {
+      return rules;
+    }
+
+    const [existing] = await db.select({ id: badgeRules.id }).from(badgeRules).limit(1);
+    if (existing) {
+      return rules; // every rule has been deactivated on purpose
+    }
+    await db.insert(badgeRules).values(DEFAULT_BADGE_RULES).onConflictDoNothing();
+    return query();
+  },
+
+  async createRule(input: BadgeRuleInput): Promise<BadgeRule> {
+    const [created] = await db.insert(badgeRules).values(input).onConflictDoNothing().returning();
+    if (!created) {
+      throw new HttpError(409, `A ${input.tier} tier already exists for ${input.badgeType}`);
+    }
+    return created;
+  },
+
+  async updateRule(ruleId: number, changes: BadgeRuleUpdate): Promise<BadgeRule> {
+    const [updated] = await db
+      .update(badgeRules)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(badgeRules.id, ruleId))
+      .returning();
+    if (!updated) {
+      throw new HttpError(404, 'Badge rule not found');
+    }
+    return updated;
+  },
+
+  /**
+   * How far the patient is towards every tier of every active badge. A streak
+   * only counts as current if the latest submission was today or yesterday.
+   */
+  async getProgress(patientId: number): Promise<{ asOf: string; lastScoreDate: string | null; badges: BadgeProgress[] }> {
+    const rules = await this.getRules();
+    const asOf = await scoreService.today(patientId);
+    const longest = rules.length ? Math.max(...rules.map(rule => rule.requiredDays)) : 0;
+
+    const [scores, earned] = await Promise.all([
+      db
+        .select()
+        .from(patientScores)
+        .where(eq(patientScores.patientId, patientId))
+        .orderBy(desc(patientScores.scoreDate))
+        .limit(longest + 1),
+      this.getPatientBadges(patientId),
+    ]);
+
+    const latest = scores[0];
+    const streakIsCurrent = !!latest && latest.scoreDate >= shiftIsoDate(asOf, -1);
+
+    const badges: BadgeProgress[] = [];
+    for (const rule of rules) {
+      let badge = badges.find(b => b.badgeType === rule.badgeType);
+      if (!badge) {
+        badge = { badgeType: rule.badgeType, metric: rule.metric, nextTier: null, tiers: [] };
+        badges.push(badge);
+      }
+
+      const award = earned.find(b => b.badgeType === rule.badgeType && b.badgeLevel === rule.tier);
+      const currentStreak = streakIsCurrent ? qualifyingStreak(scores, rule.metric, rule.minScore) : 0;
+      const previous = scores[1];
+      const streakBroken = !!latest && latest[rule.metric] < rule.minScore
+        && !!previous && previous.scoreDate === shiftIsoDate(latest.scoreDate, -1) && previous[rule.metric] >= rule.minScore;
+
+      badge.tiers.push({
+        ruleId: rule.id,
+        tier: rule.tier,
+        requiredDays: rule.requiredDays,
+        minScore: rule.minScore,
+        criteria: describeRule(rule),
+        currentStreak: Math.min(currentStreak, rule.requiredDays),
+        daysRemaining: award ? 0 : Math.max(rule.requiredDays - currentStreak, 0),
+        earned: !!award,
+        earnedDate: award?.earnedDate ?? null,
+        streakBroken,
+      });
+      if (!award && !badge.nextTier) {
+        badge.nextTier = rule.tier;
+      }
+    }
+
+    return { asOf, lastScoreDate: latest?.scoreDate ?? null, badges };
+  },
+
+  async getPatientBadges(patientId: number): Promise<PatientBadge[]> {
+    return db
+      .select()
+      .from(patientBadges)
+      .where(eq(patientBadges.patientId, patientId))
+      .orderBy(desc(patientBadges.earnedDate));
+  },
+
+  /**
+   * Award every tier the patient now qualifies for. Runs after each score
+   * submission; the unique index means concurrent runs cannot award a tier
+   * twice, and only badges inserted by this call are returned.
+   */
+  async checkAndAward(patientId: number): Promise<PatientBadge[]> {
+    try {
+      const rules = await this.getRules();
+      if (rules.length === 0) return [];
+
+      const longest = Math.max(...rules.map(rule => rule.requiredDays));
+      const scores = await db
+        .select()
+        .from(patientScores)
+        .where(eq(patientScores.patientId, patientId))
+        .orderBy(desc(patientScores.scoreDate))
+        .limit(longest);
+
+      const earned = rules.filter(rule => qualifyingStreak(scores, rule.metric, rule.minScore) >= rule.requiredDays);
+      if (earned.length === 0) return [];
+
+      const awarded = await db
+        .insert(patientBadges)
+        .values(earned.map(rule => ({
+          patientId,
+          badgeType: rule.badgeType,
+          badgeLevel: rule.tier,
+          criteria: describeRule(rule),
+        })))
+        .onConflictDoNothing({ target: [patientBadges.patientId, patientBadges.badgeType, patientBadges.badgeLevel] })
+        .returning();
+
+      if (awarded.length > 0) {
+        console.log(`[Badges] Patient ${patientId} earned ${awarded.map(b => `${b.badgeType} (${b.badgeLevel})`).join(', ')}`);
+      }
+      for (const badge of awarded) {
+        await notificationService.publish(patientId, {
+          type: 'badge_awarded',
+          title: 'New badge earned 🏅',
+          body: `You earned the ${badge.badgeLevel} ${badge.badgeType} badge.`,
+          data: { badgeId: badge.id, badgeType: badge.badgeType, badgeLevel: badge.badgeLevel },
+        });
+      }
+      return awarded;
+    } catch (error) {
+      // A badge failure must never undo or fail the score submission itself
+      console.error(`[Badges] Error checking badges for patient ${patientId}:`, error);
+      return [];
+    }
+  },
+};
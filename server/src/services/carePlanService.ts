@@ -0,0 +1,197 @@
+import { db } from '../db';
+import {
+  carePlanDirectives,
+  carePlanDirectiveVersions,
+  CarePlanDirective,
+  CarePlanDirectiveInput,
+  CarePlanDirectiveUpdate,
+  CarePlanDirectiveVersion,
+} from '../../../shared/schema';
+import { and, asc, desc, eq, lte } from 'drizzle-orm';
+import { HttpError } from '../errors';
+import { notificationService } from './notificationService';
+
+type Snapshot = Pick<CarePlanDirective, 'directive' | 'category' | 'priority' | 'isActive'>;
+
+const TRACKED_FIELDS: (keyof Snapshot)[] = ['directive', 'category', 'priority', 'isActive'];
+
+function diffSnapshots(before: Snapshot | null, after: Snapshot): Record<string, { from: unknown; to: unknown }> {
+  const diff: Record<string, { from: unknown; to: unknown }> = {};
+  for (const field of TRACKED_FIELDS) {
+    const from = before ? before[field] : null;
+    if (from !== after[field]) {
+      diff[field] = { from, to: after[field] };
+    }
+  }
+  return diff;
+}
+
+const CHANGE_SUMMARIES: Record<CarePlanDirectiveVersion['changeType'], string> = {
+  created: 'Your doctor added to your care plan',
+  updated: 'Your doctor updated your care plan',
+  retired: 'Your doctor removed an item from your care plan',
+};
+
+async function notifyPatient(directive: CarePlanDirective, changeType: CarePlanDirectiveVersion['changeType']) {
+  await notificationService.publish(directive.patientId, {
+    type: 'care_plan_updated',
+    title: 'Care plan updated',
+    body: `${CHANGE_SUMMARIES[changeType]}: "${directive.directive}"`,
+    data: { directiveId: directive.id, version: directive.version, changeType },
+  });
+}
+
+export const carePlanService = {
+  async list(patientId: number, includeRetired = false): Promise<CarePlanDirective[]> {
+    return db
+      .select()
+      .from(carePlanDirectives)
+      .where(includeRetired
+        ? eq(carePlanDirectives.patientId, patientId)
+        : and(eq(carePlanDirectives.patientId, patientId), eq(carePlanDirectives.isActive, true)))
+      .orderBy(desc(carePlanDirectives.isActive), asc(carePlanDirectives.createdAt));
+  },
+
+  /**
+   * Directives that were active at a point in time, reconstructed from the version history.
+   */
+  async listAsOf(patientId: number, asOf: Date): Promise<CarePlanDirectiveVersion[]> {
+    const versions = await db
+      .select({ version: carePlanDirectiveVersions })
+      .from(carePlanDirectiveVersions)
+      .innerJoin(carePlanDirectives, eq(carePlanDirectiveVersions.directiveId, carePlanDirectives.id))
+      .where(and(eq(carePlanDirectives.patientId, patientId), lte(carePlanDirectiveVersions.createdAt, asOf)))
+      .orderBy(asc(carePlanDirectiveVersions.directiveId), desc(carePlanDirectiveVersions.version));
+
+    const latest = new Map<number, CarePlanDirectiveVersion>();
+    for (const { version } of versions) {
+      if (!latest.has(version.directiveId)) {
+        latest.set(version.directiveId, version);
+      }
+    }
+    return [...latest.values()].filter(v => v.isActive);
+  },
+
+  async history(patientId: number, directiveId: number): Promise<CarePlanDirectiveVersion[]> {
+    await this.get(patientId, directiveId);
+    return db
+      .select()
+      .from(carePlanDirectiveVersions)
+      .where(eq(carePlanDirectiveVersions.directiveId, directiveId))
+      .orderBy(asc(carePlanDirectiveVersions.version));
+  },
+
+  async get(patientId: number, directiveId: number): Promise<CarePlanDirective> {
+    const [directive] = await db
+      .select()
+      .from(carePlanDirectives)
+      .where(and(eq(carePlanDirectives.id, directiveId), eq(carePlanDirectives.patientId, patientId)));
+    if (!directive) {
+      throw new HttpError(404, 'Care plan directive not found');
+    }
+    return directive;
+  },
+
+  async create(patientId: number, doctorId: number, input: CarePlanDirectiveInput): Promise<CarePlanDirective> {
+    const created = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(carePlanDirectives)
+        .values({
+          patientId,
+          doctorId,
+          directive: input.directive,
+          category: input.category ?? null,
+          priority: input.priority,
+        })
+        .returning();
+
+      await tx.insert(carePlanDirectiveVersions).values({
+        directiveId: created.id,
+        version: created.version,
+        changeType: 'created',
+        authorDoctorId: doctorId,
+        directive: created.directive,
+        category: created.category,
+        priority: created.priority,
+        isActive: created.isActive,
+        diff: diffSnapshots(null, created),
+      });
+
+      return created;
+    });
+
+    await notifyPatient(created, 'created');
+    return created;
+  },
+
+  /**
+   * Apply an edit or retirement and append the resulting version row.
+   * The directive row is locked so concurrent edits get sequential versions.
+   */
+  async change(
+    patientId: number,
+    directiveId: number,
+    doctorId: number,
+    changes: CarePlanDirectiveUpdate | { isActive: false }
+  ): Promise<CarePlanDirective> {
+    const { directive, changeType } = await db.transaction(async (tx) => {
+      const [current] = await tx
+        .select()
+        .from(carePlanDirectives)
+        .where(and(eq(carePlanDirectives.id, directiveId), eq(carePlanDirectives.patientId, patientId)))
+        .for('update');
+
+      if (!current) {
+        throw new HttpError(404, 'Care plan directive not found');
+      }
+      if (!current.isActive) {
+        throw new HttpError(409, 'Retired directives cannot be changed');
+      }
+
+      const next: Snapshot = {
+        directive: 'directive' in changes && changes.directive !== undefined ? changes.directive : current.directive,
+        category: 'category' in changes && changes.category !== undefined ? changes.category : current.category,
+        priority: 'priority' in changes && changes.priority !== undefined ? changes.priority : current.priority,
+        isActive: 'isActive' in changes ? changes.isActive : current.isActive,
+      };
+      const diff = diffSnapshots(current, next);
+      if (Object.keys(diff).length === 0) {
+        return { directive: current, changeType: null };
+      }
+
+      const [updated] = await tx
+        .update(carePlanDirectives)
+        .set({ ...next, version: current.version + 1, updatedAt: new Date() })
+        .where(eq(carePlanDirectives.id, directiveId))
+        .returning();
+
+      const changeType = next.isActive ? 'updated' as const : 'retired' as const;
+      await tx.insert(carePlanDirectiveVersions).values({
+        directiveId,
+        version: updated.version,
+        changeType,
+        authorDoctorId: doctorId,
+        directive: updated.directive,
+        category: updated.category,
+        priority: updated.priority,
+        isActive: updated.isActive,
+        diff,
+      });
+
+      return { directive: updated, changeType };
+    });
+
+    if (changeType) {
+      await notifyPatient(directive, changeType);
+    }
+    return directive;
+  },
+
+  async update(patientId: number, directiveId: number, doctorId: number, changes: CarePlanDirectiveUpdate) {
+    return this.change(patientId, directiveId, doctorId, changes);
+  },
+
+  async retire(patientId: number, directiveId: number, doctorId: number) {
+    return this.change(patientId, directiveId, doctorId, { isActive: false });
+  },
+};
@@ -0,0 +1,46 @@
+import { db } from '../db';
+import { doctors, doctorPatients, Doctor } from '../../../shared/schema';
+import { and, eq } from 'drizzle-orm';
+
+export const careTeamService = {
+  /**
+   * The doctor profile belonging to a user account, if any.
+   */
+  async getDoctorForUser(userId: number): Promise<Doctor | undefined> {
+    const [doctor] = await db.select().from(doctors).where(eq(doctors.userId, userId));
+    return doctor;
+  },
+
+  async isAssigned(doctorId: number, patientId: number): Promise<boolean> {
+    const [assignment] = await db
+      .select({ id: doctorPatients.id })
+      .from(doctorPatients)
+      .where(and(
+        eq(doctorPatients.doctorId, doctorId),
+        eq(doctorPatients.patientId, patientId),
+        eq(doctorPatients.isActive, true)
+      ))
+      .limit(1);
+    return !!assignment;
+  },
+
+  async getAssignedDoctorIds(patientId: number): Promise<number[]> {
+    const assignments = await db
+      .select({ doctorId: doctorPatients.doctorId })
+      .from(doctorPatients)
+      .where(and(eq(doctorPatients.patientId, patientId), eq(doctorPatients.isActive, true)));
+    return assignments.map(a => a.doctorId);
+  },
+
+  /**
+   * User accounts of the patient's active doctors, for notifications.
+   */
+  async getAssignedDoctorUserIds(patientId: number): Promise<number[]> {
+    const assignments = await db
+      .select({ userId: doctors.userId })
+      .from(doctorPatients)
+      .innerJoin(doctors, eq(doctorPatients.doctorId, doctors.id))
+      .where(and(eq(doctorPatients.patientId, patientId), eq(doctorPatients.isActive, true)));
+    return assignments.map(a => a.userId);
+  },
+};
@@ -0,0 +1,115 @@
+import { db } from '../db';
+import { chatSessions, ChatMessage, ChatSession, ChatTurn } from '../../../shared/schema';
+import { and, desc, eq, sql } from 'drizzle-orm';
+import { HttpError } from '../errors';
+
+// A conversation that has been quiet this long is closed; the next message starts a new one
+const CHAT_SESSION_IDLE_MINUTES = parseInt(process.env.CHAT_SESSION_IDLE_MINUTES || '30', 10);
+// Rough budget for prior turns sent with each query (about 4 characters per token)
+const CHAT_HISTORY_TOKEN_BUDGET = parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '2000', 10);
+
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+export interface ChatSessionSummary {
+  id: number;
+  sessionStarted: Date;
+  lastActivity: Date;
+  messageCount: number;
+  preview: string | null;
+  active: boolean;
+}
+
+export const chatSessionService = {
+  isIdle(session: Pick<ChatSession, 'lastActivity'>, now: Date = new Date()): boolean {
+    return now.getTime() - session.lastActivity.getTime() > CHAT_SESSION_IDLE_MINUTES * 60 * 1000;
+  },
+
+  async list(patientId: number, limit: number): Promise<ChatSessionSummary[]> {
+    const sessions = await db
+      .select({
+        id: chatSessions.id,
+        sessionStarted: chatSessions.sessionStarted,
+        lastActivity: chatSessions.lastActivity,
+        messageCount: sql<number>`jsonb_array_length(${chatSessions.messages})`.mapWith(Number),
+        preview: sql<string | null>`${chatSessions.messages}->0->>'content'`,
+      })
+      .from(chatSessions)
+      .where(eq(chatSessions.patientId, patientId))
+      .orderBy(desc(chatSessions.lastActivity))
+      .limit(limit);
+
+    return sessions.map(session => ({ ...session, active: !this.isIdle(session) }));
+  },
+
+  async get(patientId: number, sessionId: number): Promise<ChatSession> {
+    const [session] = await db
+      .select()
+      .from(chatSessions)
+      .where(and(eq(chatSessions.id, sessionId), eq(chatSessions.patientId, patientId)));
+    if (!session) {
+      throw new HttpError(404, 'Chat session not found');
+    }
+    return session;
+  },
+
+  /**
+   * The session a new message continues: the requested one, or the most
+   * recent one. Returns null when that session has gone idle or none exists.
+   */
+  async resolveForMessage(patientId: number, sessionId?: number): Promise<ChatSession | null> {
+    let session: ChatSession | undefined;
+    if (sessionId) {
+      session = await this.get(patientId, sessionId);
+    } else {
+      [session] = await db
+        .select()
+        .from(chatSessions)
+        .where(eq(chatSessions.patientId, patientId))
+        .orderBy(desc(chatSessions.lastActivity))
+        .limit(1);
+    }
+    return session && !this.isIdle(session) ? session : null;
+  },
+
+  /**
+   * The most recent turns that fit in the token budget, oldest first.
+   * History always starts on a user turn so it alternates correctly.
+   */
+  historyForPrompt(messages: ChatMessage[], budget: number = CHAT_HISTORY_TOKEN_BUDGET): ChatTurn[] {
+    const turns: ChatTurn[] = [];
+    let used = 0;
+    for (let i = messages.length - 1; i >= 0; i--) {
+      used += estimateTokens(messages[i].content);
+      if (used > budget) break;
+      turns.unshift({ role: messages[i].role, content: messages[i].content });
+    }
+    while (turns.length > 0 && turns[0].role !== 'user') {
+      turns.shift();
+    }
+    return turns;
+  },
+
+  /**
+   * Append messages to a session, or start a new session with them.
+   * Appends happen in SQL so concurrent messages are never lost.
+   */
+  async append(patientId: number, session: ChatSession | null, messages: ChatMessage[]): Promise<ChatSession> {
+    if (!session) {
+      const [created] = await db
+        .insert(chatSessions)
+        .values({ patientId, messages })
+        .returning();
+      return created;
+    }
+
+    const [updated] = await db
+      .update(chatSessions)
+      .set({
+        messages: sql`${chatSessions.messages} || ${JSON.stringify(messages)}::jsonb`,
+        lastActivity: new Date(),
+      })
+      .where(and(eq(chatSessions.id, session.id), eq(chatSessions.patientId, patientId)))
+      .returning();
+    return updated;
+  },
+};
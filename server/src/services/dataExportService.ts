@@ -0,0 +1,235 @@
+import { Writable } from 'stream';
+import archiver from 'archiver';
+import { db } from '../db';
+import {
+  users,
+  doctors,
+  doctorPatients,
+  patientScores,
+  patientBadges,
+  patientNudges,
+  chatSessions,
+  supervisorAgentLogs,
+  carePlanDirectives,
+  progressReports,
+  notifications,
+  smsMessages,
+  auditEvents,
+  accountDeletionRequests,
+} from '../../../shared/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import { HttpError } from '../errors';
+import { toCsv } from '../utils/csv';
+
+type Dataset = Record<string, unknown>[];
+
+const README = `Keep Going Care data export
+
+Everything linked to your account, as of the time shown in manifest.json.
+Each dataset is provided twice: json/<name>.json and csv/<name>.csv.
+
+profile              Your account details
+scores               Daily diet, exercise and medication scores
+badges               Badges you have earned
+chat_messages        Your conversations with the health assistant
+ai_interactions      Assistant activity on your record, including safety escalations
+nudges               Reminders the assistant sent you
+notifications        In-app notifications
+care_team            Doctors assigned to you
+care_plan            Care plan directives from your doctors
+progress_reports     Approved progress reports
+sms_messages         Text messages sent to you
+access_log           Who viewed or changed your health data, and when
+deletion_requests    Account deletion requests
+`;
+
+export const dataExportService = {
+  /**
+   * Every dataset linked to the user, keyed by file name. Staff IP addresses
+   * and browsers are left out of the access log.
+   */
+  async collect(userId: number): Promise<Record<string, Dataset>> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+
+    const [
+      scores,
+      badges,
+      sessions,
+      aiInteractions,
+      nudges,
+      userNotifications,
+      careTeam,
+      carePlan,
+      reports,
+      sms,
+      access,
+      deletions,
+    ] = await Promise.all([
+      db.select().from(patientScores).where(eq(patientScores.patientId, userId)).orderBy(asc(patientScores.scoreDate)),
+      db.select().from(patientBadges).where(eq(patientBadges.patientId, userId)).orderBy(asc(patientBadges.earnedDate)),
+      db.select().from(chatSessions).where(eq(chatSessions.patientId, userId)).orderBy(asc(chatSessions.sessionStarted)),
+      db
+        .select({
+          id: supervisorAgentLogs.id,
+          action: supervisorAgentLogs.action,
+          context: supervisorAgentLogs.context,
+          aiResponse: supervisorAgentLogs.aiResponse,
+          createdAt: supervisorAgentLogs.createdAt,
+        })
+        .from(supervisorAgentLogs)
+        .where(eq(supervisorAgentLogs.patientId, userId))
+        .orderBy(asc(supervisorAgentLogs.createdAt)),
+      db.select().from(patientNudges).where(eq(patientNudges.patientId, userId)).orderBy(asc(patientNudges.createdAt)),
+      db.select().from(notifications).where(eq(notifications.userId, userId)).orderBy(asc(notifications.createdAt)),
+      db
+        .select({
+          doctorName: doctors.name,
+          specialization: doctors.specialization,
+          assignedAt: doctorPatients.assignedAt,
+          isActive: doctorPatients.isActive,
+        })
+        .from(doctorPatients)
+        .innerJoin(doctors, eq(doctorPatients.doctorId, doctors.id))
+        .where(eq(doctorPatients.patientId, userId))
+        .orderBy(asc(doctorPatients.assignedAt)),
+      db
+        .select({
+          id: carePlanDirectives.id,
+          directive: carePlanDirectives.directive,
+          category: carePlanDirectives.category,
+          priority: carePlanDirectives.priority,
+          isActive: carePlanDirectives.isActive,
+          version: carePlanDirectives.version,
+          doctorName: doctors.name,
+          createdAt: carePlanDirectives.createdAt,
+          updatedAt: carePlanDirectives.updatedAt,
+        })
+        .from(carePlanDirectives)
+        .innerJoin(doctors, eq(carePlanDirectives.doctorId, doctors.id))
+        .where(eq(carePlanDirectives.patientId, userId))
+        .orderBy(asc(carePlanDirectives.createdAt)),
+      db
+        .select({
+          id: progressReports.id,
+          periodStart: progressReports.periodStart,
+          periodEnd: progressReports.periodEnd,
+          reportMarkdown: progressReports.reportMarkdown,
+          approvedAt: progressReports.approvedAt,
+        })
+        .from(progressReports)
+        .where(and(eq(progressReports.patientId, userId), eq(progressReports.status, 'approved')))
+        .orderBy(asc(progressReports.periodEnd)),
+      db
+        .select({
+          id: smsMessages.id,
+          recipient: smsMessages.recipient,
+          template: smsMessages.template,
+          status: smsMessages.status,
+          createdAt: smsMessages.createdAt,
+        })
+        .from(smsMessages)
+        .where(eq(smsMessages.userId, userId))
+        .orderBy(asc(smsMessages.createdAt)),
+      // Only what the patient may see: staff network details never leave the server
+      db
+        .select({
+          occurredAt: auditEvents.occurredAt,
+          userId: auditEvents.userId,
+          role: auditEvents.role,
+          action: auditEvents.action,
+          dataType: auditEvents.dataType,
+          method: auditEvents.method,
+          path: auditEvents.path,
+          statusCode: auditEvents.statusCode,
+        })
+        .from(auditEvents)
+        .where(eq(auditEvents.patientId, userId))
+        .orderBy(asc(auditEvents.id)),
+      db
+        .select({
+          id: accountDeletionRequests.id,
+          status: accountDeletionRequests.status,
+          createdAt: accountDeletionRequests.createdAt,
+          confirmedAt: accountDeletionRequests.confirmedAt,
+          scheduledFor: accountDeletionRequests.scheduledFor,
+          cancelledAt: accountDeletionRequests.cancelledAt,
+        })
+        .from(accountDeletionRequests)
+        .where(eq(accountDeletionRequests.userId, userId))
+        .orderBy(asc(accountDeletionRequests.createdAt)),
+    ]);
+
+    return {
+      profile: [{
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        name: user.name,
+        phoneNumber: user.phoneNumber,
+        timezone: user.timezone,
+        nudgeChannel: user.nudgeChannel,
+        createdAt: user.createdAt,
+      }],
+      scores: scores.map(({ patientId: _patientId, ...score }) => score),
+      badges: badges.map(({ patientId: _patientId, ...badge }) => badge),
+      chat_messages: sessions.flatMap(session => session.messages.map(message => ({
+        sessionId: session.id,
+        sessionStarted: session.sessionStarted,
+        role: message.role,
+        content: message.content,
+        timestamp: message.timestamp,
+      }))),
+      ai_interactions: aiInteractions,
+      nudges: nudges.map(({ patientId: _patientId, ...nudge }) => nudge),
+      notifications: userNotifications.map(({ userId: _userId, ...notification }) => notification),
+      care_team: careTeam,
+      care_plan: carePlan,
+      progress_reports: reports,
+      sms_messages: sms,
+      access_log: access.map(event => ({
+        occurredAt: event.occurredAt,
+        byYou: event.userId === userId,
+        role: event.role,
+        action: event.action,
+        dataType: event.dataType,
+        method: event.method,
+        path: event.path,
+        statusCode: event.statusCode,
+      })),
+      deletion_requests: deletions,
+    };
+  },
+
+  /**
+   * Stream a ZIP of the user's data to `output`: a README, a manifest, and
+   * every dataset as JSON and CSV. Resolves once the archive is written.
+   */
+  async writeArchive(userId: number, output: Writable): Promise<void> {
+    const datasets = await this.collect(userId);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const done = new Promise<void>((resolve, reject) => {
+      archive.on('error', reject);
+      output.on('error', reject);
+      output.on('finish', resolve);
+    });
+    archive.pipe(output);
+
+    const manifest = {
+      userId,
+      generatedAt: new Date().toISOString(),
+      datasets: Object.fromEntries(Object.entries(datasets).map(([name, rows]) => [name, rows.length])),
+    };
+    archive.append(README, { name: 'README.txt' });
+    archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+    for (const [name, rows] of Object.entries(datasets)) {
+      archive.append(JSON.stringify(rows, null, 2), { name: `json/${name}.json` });
+      archive.append(toCsv(rows), { name: `csv/${name}.csv` });
+    }
+
+    await archive.finalize();
+    await done;
+  },
+};
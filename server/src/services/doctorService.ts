@@ -0,0 +1,233 @@
+import { db } from '../db';
+import { users, patientScores, patientBadges, doctorPatients, supervisorAgentLogs, DoctorRosterQuery, PatientScore } from '../../../shared/schema';
+import { and, count, desc, eq, gte, inArray } from 'drizzle-orm';
+import { aiContextService, PatientContext } from './aiContextService';
+import { analyzeTrends, TREND_WINDOW_DAYS } from './trendService';
+import { DEFAULT_TIMEZONE, daysBetween, localIsoDate, shiftIsoDate } from '../utils/dates';
+
+// A patient needs attention when they stop scoring or any recent average drops this low
+const ATTENTION_INACTIVE_DAYS = 3;
+const ATTENTION_LOW_AVERAGE = 5;
+const ATTENTION_ESCALATION_DAYS = 7;
+
+type MetricAverages = { diet: number | null; exercise: number | null; medication: number | null };
+
+export interface SafetyEvent {
+  id: number;
+  patientId: number;
+  patientName: string | null;
+  category: string | null;
+  createdAt: Date;
+}
+
+export interface RosterEntry {
+  patientId: number;
+  name: string | null;
+  email: string;
+  assignedAt: Date;
+  lastScoreDate: string | null;
+  daysSinceLastScore: number | null;
+  averages7d: MetricAverages;
+  averages30d: MetricAverages;
+  trends: PatientContext['trends'];
+  badgeCount: number;
+  recentSafetyEscalations: number;
+  attentionNeeded: boolean;
+  attentionReasons: string[];
+}
+
+function averages(scores: PatientScore[]): MetricAverages {
+  if (scores.length === 0) {
+    return { diet: null, exercise: null, medication: null };
+  }
+  const mean = (pick: (s: PatientScore) => number) =>
+    Math.round((scores.reduce((sum, s) => sum + pick(s), 0) / scores.length) * 10) / 10;
+  return {
+    diet: mean(s => s.dietScore),
+    exercise: mean(s => s.exerciseScore),
+    medication: mean(s => s.medicationScore),
+  };
+}
+
+function overallAverage(values: MetricAverages): number | null {
+  const present = [values.diet, values.exercise, values.medication].filter((v): v is number => v !== null);
+  return present.length ? present.reduce((a, b) => a + b, 0) / present.length : null;
+}
+
+export const doctorService = {
+  /**
+   * Active patients for a doctor with score summaries, sorted and paginated.
+   */
+  async getPatientRoster(doctorId: number, query: DoctorRosterQuery): Promise<{
+    patients: RosterEntry[];
+    page: number;
+    pageSize: number;
+    total: number;
+  }> {
+    const assignments = await db
+      .select({
+        patientId: users.id,
+        name: users.name,
+        email: users.email,
+        timezone: users.timezone,
+        assignedAt: doctorPatients.assignedAt,
+      })
+      .from(doctorPatients)
+      .innerJoin(users, eq(doctorPatients.patientId, users.id))
+      .where(and(eq(doctorPatients.doctorId, doctorId), eq(doctorPatients.isActive, true)));
+
+    if (assignments.length === 0) {
+      return { patients: [], page: query.page, pageSize: query.pageSize, total: 0 };
+    }
+
+    const patientIds = assignments.map(a => a.patientId);
+
+    // One query for every patient's last 30 days (or trend window); a day of slack covers timezones ahead of UTC
+    const windowStart = shiftIsoDate(localIsoDate(DEFAULT_TIMEZONE), -Math.max(31, TREND_WINDOW_DAYS + 1));
+    const scores = await db
+      .select()
+      .from(patientScores)
+      .where(and(inArray(patientScores.patientId, patientIds), gte(patientScores.scoreDate, windowStart)))
+      .orderBy(desc(patientScores.scoreDate));
+
+    const lastScores = await db
+      .selectDistinctOn([patientScores.patientId], {
+        patientId: patientScores.patientId,
+        scoreDate: patientScores.scoreDate,
+      })
+      .from(patientScores)
+      .where(inArray(patientScores.patientId, patientIds))
+      .orderBy(patientScores.patientId, desc(patientScores.scoreDate));
+
+    const badgeCounts = await db
+      .select({ patientId: patientBadges.patientId, total: count() })
+      .from(patientBadges)
+      .where(inArray(patientBadges.patientId, patientIds))
+      .groupBy(patientBadges.patientId);
+
+    const escalationCounts = await db
+      .select({ patientId: supervisorAgentLogs.patientId, total: count() })
+      .from(supervisorAgentLogs)
+      .where(and(
+        eq(supervisorAgentLogs.doctorId, doctorId),
+        eq(supervisorAgentLogs.action, 'safety_escalation'),
+        inArray(supervisorAgentLogs.patientId, patientIds),
+        gte(supervisorAgentLogs.createdAt, new Date(Date.now() - ATTENTION_ESCALATION_DAYS * 24 * 60 * 60 * 1000))
+      ))
+      .groupBy(supervisorAgentLogs.patientId);
+
+    const entries: RosterEntry[] = assignments.map(assignment => {
+      const today = localIsoDate(assignment.timezone || DEFAULT_TIMEZONE);
+      const own = scores.filter(s => s.patientId === assignment.patientId);
+      const last7 = own.filter(s => s.scoreDate > shiftIsoDate(today, -7));
+      const last30 = own.filter(s => s.scoreDate > shiftIsoDate(today, -30));
+
+      const lastScoreDate = lastScores.find(l => l.patientId === assignment.patientId)?.scoreDate ?? null;
+      const daysSinceLastScore = lastScoreDate ? daysBetween(lastScoreDate, today) : null;
+      const averages7d = averages(last7);
+      const trends = aiContextService.trendLabels(analyzeTrends(own, today));
+
+      const recentSafetyEscalations = escalationCounts.find(e => e.patientId === assignment.patientId)?.total ?? 0;
+
+      const attentionReasons: string[] = [];
+      if (recentSafetyEscalations > 0) {
+        attentionReasons.push(`${recentSafetyEscalations} safety escalation${recentSafetyEscalations === 1 ? '' : 's'} in the last ${ATTENTION_ESCALATION_DAYS} days`);
+      }
+      if (daysSinceLastScore === null) {
+        attentionReasons.push('No scores submitted yet');
+      } else if (daysSinceLastScore > ATTENTION_INACTIVE_DAYS) {
+        attentionReasons.push(`${daysSinceLastScore} days since last score`);
+      }
+      if (trends.dietTrend === 'declining') attentionReasons.push('Diet trend declining');
+      if (trends.exerciseTrend === 'declining') attentionReasons.push('Exercise trend declining');
+      if (trends.medicationTrend === 'declining') attentionReasons.push('Medication adherence declining');
+      for (const [metric, value] of Object.entries(averages7d)) {
+        if (value !== null && value < ATTENTION_LOW_AVERAGE) {
+          attentionReasons.push(`Low 7-day ${metric} average (${value})`);
+        }
+      }
+
+      return {
+        patientId: assignment.patientId,
+        name: assignment.name,
+        email: assignment.email,
+        assignedAt: assignment.assignedAt,
+        lastScoreDate,
+        daysSinceLastScore,
+        averages7d,
+        averages30d: averages(last30),
+        trends,
+        badgeCount: badgeCounts.find(b => b.patientId === assignment.patientId)?.total ?? 0,
+        recentSafetyEscalations,
+        attentionNeeded: attentionReasons.length > 0,
+        attentionReasons,
+      };
+    });
+
+    const direction = query.order === 'asc' ? 1 : -1;
+    const compareNullable = (a: number | string | null, b: number | string | null) => {
+      if (a === b) return 0;
+      if (a === null) return 1; // missing values always sort last
+      if (b === null) return -1;
+      return (a < b ? -1 : 1) * direction;
+    };
+
+    entries.sort((a, b) => {
+      switch (query.sort) {
+        case 'name':
+          return compareNullable((a.name || a.email).toLowerCase(), (b.name || b.email).toLowerCase());
+        case 'lastScoreDate':
+          return compareNullable(a.lastScoreDate, b.lastScoreDate);
+        case 'average7d':
+          return compareNullable(overallAverage(a.averages7d), overallAverage(b.averages7d));
+        case 'attention':
+        default:
+          return compareNullable(a.recentSafetyEscalations, b.recentSafetyEscalations)
+            || compareNullable(a.attentionReasons.length, b.attentionReasons.length)
+            || compareNullable(a.daysSinceLastScore, b.daysSinceLastScore);
+      }
+    });
+
+    const offset = (query.page - 1) * query.pageSize;
+    return {
+      patients: entries.slice(offset, offset + query.pageSize),
+      page: query.page,
+      pageSize: query.pageSize,
+      total: entries.length,
+    };
+  },
+
+  /**
+   * Crisis escalations the assistant flagged to this doctor.
+   */
+  async listSafetyEvents(doctorId: number, days: number): Promise<SafetyEvent[]> {
+    const rows = await db
+      .select({
+        id: supervisorAgentLogs.id,
+        patientId: supervisorAgentLogs.patientId,
+        patientName: users.name,
+        context: supervisorAgentLogs.context,
+        createdAt: supervisorAgentLogs.createdAt,
+      })
+      .from(supervisorAgentLogs)
+      .innerJoin(users, eq(supervisorAgentLogs.patientId, users.id))
+      .where(and(
+        eq(supervisorAgentLogs.doctorId, doctorId),
+        eq(supervisorAgentLogs.action, 'safety_escalation'),
+        gte(supervisorAgentLogs.createdAt, new Date(Date.now() - days * 24 * 60 * 60 * 1000))
+      ))
+      .orderBy(desc(supervisorAgentLogs.createdAt));
+
+    return rows.map(row => {
+      // Log context is stored as serialised JSON
+      const context = typeof row.context === 'string' ? JSON.parse(row.context) : row.context;
+      return {
+        id: row.id,
+        patientId: row.patientId!,
+        patientName: row.patientName,
+        category: context?.category ?? null,
+        createdAt: row.createdAt,
+      };
+    });
+  },
+};
@@ -0,0 +1,31 @@
+import { createEmailTransport, EmailMessage, EmailTransport } from './emailTransports';
+
+let transport: EmailTransport | null = null;
+
+function getTransport(): EmailTransport {
+  if (!transport) {
+    transport = createEmailTransport();
+    console.log(`[Email] Using ${transport.name} transport`);
+  }
+  return transport;
+}
+
+export const emailService = {
+  get transportName(): string {
+    return getTransport().name;
+  },
+
+  /**
+   * Send through the configured transport. Never throws on delivery failure.
+   */
+  async send(message: EmailMessage): Promise<{ success: boolean; providerId?: string | null; error?: string }> {
+    try {
+      const { providerId } = await getTransport().send(message);
+      return { success: true, providerId };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Email] Failed to send "${message.subject}":`, errorMessage);
+      return { success: false, error: errorMessage };
+    }
+  },
+};
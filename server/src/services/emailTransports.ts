@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface EmailSendResult {
+  providerId: string | null;
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  /** Send a message; throws if the provider rejects it. */
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+/**
+ * SendGrid v3 Mail Send API over plain HTTPS, so no SDK is needed.
+ */
+export class SendGridEmailTransport implements EmailTransport {
+  readonly name = 'sendgrid';
+
+  constructor(private apiKey: string, private fromAddress: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to }] }],
+        from: { email: this.fromAddress },
+        subject: message.subject,
+        content: [{ type: 'text/plain', value: message.text }],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`SendGrid responded ${response.status}: ${(await response.text()).slice(0, 200)}`);
+    }
+    return { providerId: response.headers.get('x-message-id') };
+  }
+}
+
+/**
+ * Development transport: prints the message to the server log.
+ */
+export class ConsoleEmailTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    console.log(`[Email:console] To ${message.to}: ${message.subject}\n${message.text}`);
+    return { providerId: null };
+  }
+}
+
+/**
+ * Writes each message as a JSON file so tests can read back what was sent
+ * without any network access.
+ */
+export class OutboxEmailTransport implements EmailTransport {
+  readonly name = 'outbox';
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const providerId = `outbox-${randomUUID()}`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${Date.now()}-${providerId}.json`),
+      JSON.stringify({ id: providerId, ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+    return { providerId };
+  }
+}
+
+/**
+ * Pick a transport from EMAIL_TRANSPORT (sendgrid | console | outbox). When
+ * unset, SendGrid is used if an API key is present and the console otherwise.
+ */
+export function createEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const selected = env.EMAIL_TRANSPORT || (env.SENDGRID_API_KEY ? 'sendgrid' : 'console');
+
+  switch (selected) {
+    case 'sendgrid':
+      if (!env.SENDGRID_API_KEY) {
+        throw new Error('EMAIL_TRANSPORT=sendgrid but SENDGRID_API_KEY is not set.');
+      }
+      return new SendGridEmailTransport(env.SENDGRID_API_KEY, env.EMAIL_FROM || 'no-reply@keepgoingcare.com');
+    case 'outbox':
+      return new OutboxEmailTransport(env.EMAIL_OUTBOX_DIR || path.join(process.cwd(), 'email-outbox'));
+    case 'console':
+      return new ConsoleEmailTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT '${selected}'. Expected sendgrid, console or outbox.`);
+  }
+}
@@ -0,0 +1,207 @@
+import { randomUUID } from 'crypto';
+import { db } from '../db';
+import {
+  users,
+  doctors,
+  patientScores,
+  patientBadges,
+  carePlanDirectives,
+  User,
+  PatientScore,
+  PatientBadge,
+} from '../../../shared/schema';
+import { asc, eq } from 'drizzle-orm';
+import { HttpError } from '../errors';
+
+// Root for this app's identifier and code systems; override to match the clinic's registry
+const FHIR_SYSTEM_BASE = (process.env.FHIR_SYSTEM_BASE || 'https://keepgoingcare.com/fhir').replace(/\/$/, '');
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+
+const SCORE_SYSTEM = `${FHIR_SYSTEM_BASE}/CodeSystem/self-reported-adherence`;
+const SCORE_METRICS = [
+  { field: 'dietScore', code: 'diet-adherence', display: 'Diet adherence score (1-10, self-reported)' },
+  { field: 'exerciseScore', code: 'exercise-adherence', display: 'Exercise adherence score (1-10, self-reported)' },
+  { field: 'medicationScore', code: 'medication-adherence', display: 'Medication adherence score (1-10, self-reported)' },
+] as const;
+
+interface Coding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+interface Reference {
+  reference?: string;
+  display?: string;
+}
+
+interface Resource {
+  resourceType: string;
+  id: string;
+  [key: string]: unknown;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: Resource }[];
+}
+
+type DirectiveRow = {
+  id: number;
+  directive: string;
+  category: string | null;
+  priority: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  doctorName: string;
+};
+
+const scoreQuantity = (value: number) => ({ value, unit: 'score', system: UCUM_SYSTEM, code: '{score}' });
+
+function patientResource(patient: User): Resource {
+  const telecom = [
+    ...(patient.phoneNumber ? [{ system: 'phone', value: patient.phoneNumber, use: 'mobile' }] : []),
+    { system: 'email', value: patient.email },
+  ];
+  return {
+    resourceType: 'Patient',
+    id: String(patient.id),
+    identifier: [{ system: `${FHIR_SYSTEM_BASE}/patient-id`, value: String(patient.id) }],
+    active: patient.isActive,
+    ...(patient.name ? { name: [{ text: patient.name }] } : {}),
+    telecom,
+  };
+}
+
+// One Observation per day, with a component for each metric
+function scoreObservation(score: PatientScore, subject: Reference): Resource {
+  return {
+    resourceType: 'Observation',
+    id: `score-${score.id}`,
+    status: 'final',
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: 'survey', display: 'Survey' }] }],
+    code: {
+      coding: [{ system: SCORE_SYSTEM, code: 'daily-adherence', display: 'Daily self-reported adherence scores' }],
+      text: 'Daily self-reported adherence scores',
+    } satisfies CodeableConcept,
+    subject,
+    effectiveDateTime: score.scoreDate,
+    issued: score.updatedAt.toISOString(),
+    performer: [subject],
+    component: SCORE_METRICS.map(metric => ({
+      code: { coding: [{ system: SCORE_SYSTEM, code: metric.code, display: metric.display }], text: metric.display },
+      valueQuantity: scoreQuantity(score[metric.field]),
+    })),
+  };
+}
+
+function badgeObservation(badge: PatientBadge, subject: Reference): Resource {
+  return {
+    resourceType: 'Observation',
+    id: `badge-${badge.id}`,
+    status: 'final',
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: 'activity', display: 'Activity' }] }],
+    code: {
+      coding: [{ system: `${FHIR_SYSTEM_BASE}/CodeSystem/engagement`, code: 'badge-earned', display: 'Engagement badge earned' }],
+      text: 'Engagement badge earned',
+    } satisfies CodeableConcept,
+    subject,
+    effectiveDateTime: badge.earnedDate.toISOString(),
+    valueString: `${badge.badgeLevel} ${badge.badgeType}`,
+    ...(badge.criteria ? { note: [{ text: badge.criteria }] } : {}),
+  };
+}
+
+function carePlanResource(patientId: number, directives: DirectiveRow[], subject: Reference): Resource {
+  const active = directives.filter(d => d.isActive);
+  const contributors = [...new Set(directives.map(d => d.doctorName))];
+  return {
+    resourceType: 'CarePlan',
+    id: `careplan-${patientId}`,
+    status: active.length > 0 ? 'active' : 'completed',
+    intent: 'plan',
+    title: 'Care plan directives',
+    subject,
+    ...(directives.length > 0 ? {
+      period: { start: directives[0].createdAt.toISOString() },
+      created: directives[0].createdAt.toISOString(),
+    } : {}),
+    ...(contributors.length > 0 ? { contributor: contributors.map(display => ({ display })) } : {}),
+    activity: directives.map(d => ({
+      detail: {
+        status: d.isActive ? 'in-progress' : 'stopped',
+        ...(d.category ? { code: { text: d.category } } : {}),
+        description: d.directive,
+        performer: [subject],
+      },
+      progress: [{ time: d.updatedAt.toISOString(), text: `Priority: ${d.priority || 'medium'}; set by ${d.doctorName}` }],
+    })),
+  };
+}
+
+export const fhirService = {
+  /**
+   * The patient's self-reported record as a FHIR R4 collection Bundle: the
+   * Patient, one Observation per scored day, one per badge, and a CarePlan
+   * whose activities are the care plan directives (retired ones as stopped).
+   */
+  async buildPatientBundle(patientId: number): Promise<FhirBundle> {
+    const [patient] = await db.select().from(users).where(eq(users.id, patientId));
+    if (!patient || patient.role !== 'patient') {
+      throw new HttpError(404, 'Patient not found');
+    }
+
+    const [scores, badges, directives] = await Promise.all([
+      db.select().from(patientScores).where(eq(patientScores.patientId, patientId)).orderBy(asc(patientScores.scoreDate)),
+      db.select().from(patientBadges).where(eq(patientBadges.patientId, patientId)).orderBy(asc(patientBadges.earnedDate)),
+      db
+        .select({
+          id: carePlanDirectives.id,
+          directive: carePlanDirectives.directive,
+          category: carePlanDirectives.category,
+          priority: carePlanDirectives.priority,
+          isActive: carePlanDirectives.isActive,
+          createdAt: carePlanDirectives.createdAt,
+          updatedAt: carePlanDirectives.updatedAt,
+          doctorName: doctors.name,
+        })
+        .from(carePlanDirectives)
+        .innerJoin(doctors, eq(carePlanDirectives.doctorId, doctors.id))
+        .where(eq(carePlanDirectives.patientId, patientId))
+        .orderBy(asc(carePlanDirectives.createdAt)),
+    ]);
+
+    // Entries reference each other by urn:uuid, as the bundle is not served from a FHIR endpoint
+    const patientUrl = `urn:uuid:${randomUUID()}`;
+    const subject: Reference = { reference: patientUrl, ...(patient.name ? { display: patient.name } : {}) };
+
+    const resources = [
+      patientResource(patient),
+      ...scores.map(score => scoreObservation(score, subject)),
+      ...badges.map(badge => badgeObservation(badge, subject)),
+      ...(directives.length > 0 ? [carePlanResource(patientId, directives, subject)] : []),
+    ];
+    const entry = resources.map((resource, i) => ({
+      fullUrl: i === 0 ? patientUrl : `urn:uuid:${randomUUID()}`,
+      resource,
+    }));
+
+    return {
+      resourceType: 'Bundle',
+      id: randomUUID(),
+      type: 'collection',
+      timestamp: new Date().toISOString(),
+      entry,
+    };
+  },
+};
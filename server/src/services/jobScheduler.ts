@@ -0,0 +1,71 @@
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+  running: boolean;
+  timer: NodeJS.Timeout | null;
+}
+
+/**
+ * Minimal in-process scheduler. Each job runs on wall-clock boundaries of its
+ * interval (an hourly job at the top of each hour) and never overlaps itself;
+ * a run that is still going when the next one is due is skipped.
+ */
+class JobScheduler {
+  private jobs = new Map<string, ScheduledJob>();
+  private started = false;
+
+  schedule(name: string, intervalMs: number, run: () => Promise<unknown>): void {
+    if (this.jobs.has(name)) {
+      throw new Error(`Job '${name}' is already scheduled`);
+    }
+    const job: ScheduledJob = { name, intervalMs, run, running: false, timer: null };
+    this.jobs.set(name, job);
+    if (this.started) this.arm(job);
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    for (const job of this.jobs.values()) this.arm(job);
+    console.log(`[Scheduler] Started ${this.jobs.size} job(s): ${[...this.jobs.keys()].join(', ') || 'none'}`);
+  }
+
+  stop(): void {
+    this.started = false;
+    for (const job of this.jobs.values()) {
+      if (job.timer) clearTimeout(job.timer);
+      job.timer = null;
+    }
+  }
+
+  private arm(job: ScheduledJob): void {
+    const delay = job.intervalMs - (Date.now() % job.intervalMs);
+    job.timer = setTimeout(async () => {
+      await this.execute(job);
+      if (this.started) this.arm(job);
+    }, delay);
+    // Scheduled work alone should not keep the process alive
+    job.timer.unref();
+  }
+
+  private async execute(job: ScheduledJob): Promise<boolean> {
+    if (job.running) {
+      console.warn(`[Scheduler] ${job.name} is still running; skipping this run`);
+      return false;
+    }
+    job.running = true;
+    const startedAt = Date.now();
+    try {
+      const result = await job.run();
+      console.log(`[Scheduler] ${job.name} finished in ${Date.now() - startedAt}ms`, result ?? '');
+    } catch (error) {
+      console.error(`[Scheduler] ${job.name} failed:`, error);
+    } finally {
+      job.running = false;
+    }
+    return true;
+  }
+}
+
+export const jobScheduler = new JobScheduler();
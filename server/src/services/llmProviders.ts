@@ -0,0 +1,250 @@
+import { readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import type { ChatTurn } from '../../../shared/schema';
+
+export type LlmUseCase = 'chat' | 'ppr' | 'proactive';
+
+export interface LlmRequest {
+  useCase: LlmUseCase;
+  model: string;
+  systemPrompt: string;
+  prompt: string;
+  history: ChatTurn[];
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string;
+}
+
+export interface LlmStream {
+  model: string;
+  deltas: AsyncIterable<string>;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  /** Resolve with the full response; throws if the provider rejects the request. */
+  complete(request: LlmRequest): Promise<LlmCompletion>;
+  /** Resolve once the provider has accepted the request; text arrives through deltas. */
+  stream(request: LlmRequest): Promise<LlmStream>;
+  /** Cheap reachability and credentials check that generates no text. */
+  ping(model: string, signal: AbortSignal): Promise<void>;
+}
+
+const EMPTY_RESPONSE = 'I apologize, but I cannot respond right now. Please try again.';
+
+export class OpenAIProvider implements LlmProvider {
+  readonly name = 'openai';
+  private client: OpenAI;
+
+  constructor(apiKey: string) {
+    // Retries and timeouts are handled by llmService across every provider
+    this.client = new OpenAI({ apiKey, maxRetries: 0 });
+  }
+
+  private messages(request: LlmRequest): OpenAI.Chat.ChatCompletionMessageParam[] {
+    return [
+      { role: 'system', content: request.systemPrompt },
+      ...request.history,
+      { role: 'user', content: request.prompt },
+    ];
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: this.messages(request),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    }, { signal: request.signal });
+
+    return { content: response.choices[0].message.content || EMPTY_RESPONSE, model: request.model };
+  }
+
+  async ping(model: string, signal: AbortSignal): Promise<void> {
+    await this.client.models.retrieve(model, { signal });
+  }
+
+  async stream(request: LlmRequest): Promise<LlmStream> {
+    const stream = await this.client.chat.completions.create({
+      model: request.model,
+      messages: this.messages(request),
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      stream: true,
+    }, { signal: request.signal });
+
+    return {
+      model: request.model,
+      deltas: (async function* () {
+        for await (const chunk of stream) {
+          const text = chunk.choices[0]?.delta?.content;
+          if (text) yield text;
+        }
+      })(),
+    };
+  }
+}
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey, maxRetries: 0 });
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    const response = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.systemPrompt,
+      messages: [...request.history, { role: 'user', content: request.prompt }],
+    }, { signal: request.signal });
+
+    const content = response.content[0];
+    return { content: content?.type === 'text' ? content.text : EMPTY_RESPONSE, model: request.model };
+  }
+
+  async ping(model: string, signal: AbortSignal): Promise<void> {
+    await this.client.models.retrieve(model, {}, { signal });
+  }
+
+  async stream(request: LlmRequest): Promise<LlmStream> {
+    const stream = await this.client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system: request.systemPrompt,
+      messages: [...request.history, { role: 'user', content: request.prompt }],
+      stream: true,
+    }, { signal: request.signal });
+
+    return {
+      model: request.model,
+      deltas: (async function* () {
+        for await (const event of stream) {
+          if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+            yield event.delta.text;
+          }
+        }
+      })(),
+    };
+  }
+}
+
+/**
+ * One canned reply. `match` is a case-insensitive regular expression tested
+ * against the patient's question (or the whole prompt when there is none);
+ * `{{query}}` in the response is replaced with that text.
+ */
+export interface StubFixture {
+  useCase?: LlmUseCase;
+  match?: string;
+  response: string;
+}
+
+/**
+ * Offline provider for development and integration tests. Replies come from
+ * JSON fixture files, first match wins, and otherwise echo the question, so
+ * the same input always produces the same output.
+ */
+export class StubLlmProvider implements LlmProvider {
+  readonly name = 'stub';
+  private fixtures: StubFixture[];
+
+  constructor(fixturesDir: string) {
+    this.fixtures = StubLlmProvider.loadFixtures(fixturesDir);
+    console.warn('[LLM:stub] WARNING: the stub provider is enabled. Its replies are canned fixtures, not a real model.');
+  }
+
+  static loadFixtures(fixturesDir: string): StubFixture[] {
+    let files: string[];
+    try {
+      files = readdirSync(fixturesDir).filter(file => file.endsWith('.json')).sort();
+    } catch {
+      console.warn(`[LLM:stub] Fixture directory ${fixturesDir} not found; echoing prompts`);
+      return [];
+    }
+    return files.flatMap(file => {
+      const parsed = JSON.parse(readFileSync(path.join(fixturesDir, file), 'utf8'));
+      return Array.isArray(parsed) ? parsed : [parsed];
+    });
+  }
+
+  private respond(request: LlmRequest): string {
+    // Chat prompts quote the patient's question; match on that rather than the whole context
+    const query = request.prompt.match(/USER QUERY: "([\s\S]*?)"\n/)?.[1] ?? request.prompt.trim();
+
+    const fixture = this.fixtures.find(f =>
+      (!f.useCase || f.useCase === request.useCase) &&
+      (!f.match || new RegExp(f.match, 'i').test(query))
+    );
+    console.warn(`[LLM:stub] WARNING: answering a ${request.useCase} request with a ${fixture ? 'fixture' : 'echoed'} reply; no real model was called.`);
+    if (!fixture) {
+      return `[stub:${request.useCase}] ${query}`;
+    }
+    return fixture.response.replace(/\{\{query\}\}/g, query);
+  }
+
+  async complete(request: LlmRequest): Promise<LlmCompletion> {
+    return { content: this.respond(request), model: request.model };
+  }
+
+  async ping(): Promise<void> {}
+
+  async stream(request: LlmRequest): Promise<LlmStream> {
+    const words = this.respond(request).match(/\S+\s*/g) || [];
+    return {
+      model: request.model,
+      deltas: (async function* () {
+        for (const word of words) {
+          if (request.signal?.aborted) throw request.signal.reason;
+          yield word;
+        }
+      })(),
+    };
+  }
+}
+
+/**
+ * Build every provider named in LLM_PROVIDERS (openai | anthropic | stub,
+ * comma separated). When unset, each provider with an API key is used. The
+ * stub is never picked up implicitly: name it in LLM_PROVIDERS, or set
+ * LLM_ALLOW_STUB=true to add it to the end of the default chain.
+ */
+export function createLlmProviders(env: NodeJS.ProcessEnv = process.env): LlmProvider[] {
+  const names = env.LLM_PROVIDERS
+    ? env.LLM_PROVIDERS.split(',').map(name => name.trim()).filter(Boolean)
+    : [
+        ...(env.OPENAI_API_KEY ? ['openai'] : []),
+        ...(env.ANTHROPIC_API_KEY ? ['anthropic'] : []),
+        ...(env.LLM_ALLOW_STUB === 'true' ? ['stub'] : []),
+      ];
+
+  return names.map(name => {
+    switch (name) {
+      case 'openai':
+        if (!env.OPENAI_API_KEY) {
+          throw new Error('LLM_PROVIDERS includes openai but OPENAI_API_KEY is not set.');
+        }
+        return new OpenAIProvider(env.OPENAI_API_KEY);
+      case 'anthropic':
+        if (!env.ANTHROPIC_API_KEY) {
+          throw new Error('LLM_PROVIDERS includes anthropic but ANTHROPIC_API_KEY is not set.');
+        }
+        return new AnthropicProvider(env.ANTHROPIC_API_KEY);
+      case 'stub':
+        return new StubLlmProvider(env.LLM_STUB_FIXTURES_DIR || path.join(__dirname, '..', '..', 'fixtures', 'llm'));
+      default:
+        throw new Error(`Unknown LLM provider '${name}'. Expected openai, anthropic or stub.`);
+    }
+  });
+}
@@ -0,0 +1,241 @@
+import type { ChatTurn } from '../../../shared/schema';
+import { createLlmProviders, LlmProvider, LlmRequest, LlmUseCase } from './llmProviders';
+
+export interface LlmUseCaseConfig {
+  /** Provider names to try, in order. */
+  providers: string[];
+  /** Model to request from each provider. */
+  models: Record<string, string>;
+  maxTokens: number;
+  temperature: number;
+  timeoutMs: number;
+}
+
+export interface LlmInput {
+  systemPrompt: string;
+  prompt: string;
+  history?: ChatTurn[];
+  signal?: AbortSignal;
+}
+
+export interface LlmResult {
+  content: string;
+  model: string;
+  provider: string;
+}
+
+export interface LlmStreamResult {
+  model: string;
+  provider: string;
+  deltas: AsyncIterable<string>;
+}
+
+export interface LlmProviderHealth {
+  provider: string;
+  model: string;
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface LlmHealth {
+  /** `down` when no provider in the chain answers, `degraded` when only some do. */
+  status: 'ok' | 'degraded' | 'down';
+  useCase: LlmUseCase;
+  providers: LlmProviderHealth[];
+  checkedAt: string;
+}
+
+/**
+ * Every provider in the fallback chain failed (or none is configured).
+ */
+export class LlmUnavailableError extends Error {
+  constructor(public useCase: LlmUseCase, public failures: { provider: string; error: string }[]) {
+    super(failures.length
+      ? `No LLM provider could handle ${useCase}: ${failures.map(f => `${f.provider} (${f.error})`).join('; ')}`
+      : `No LLM provider is configured for ${useCase}`);
+    this.name = 'LlmUnavailableError';
+  }
+}
+
+const DEFAULT_MODELS: Record<string, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-3-sonnet-20240229',
+  stub: 'stub-fixtures',
+};
+
+const USE_CASE_DEFAULTS: Record<LlmUseCase, Pick<LlmUseCaseConfig, 'maxTokens' | 'temperature' | 'timeoutMs'>> = {
+  chat: { maxTokens: 500, temperature: 0.7, timeoutMs: 30_000 },
+  ppr: { maxTokens: 2000, temperature: 0.7, timeoutMs: 120_000 },
+  proactive: { maxTokens: 200, temperature: 0.7, timeoutMs: 20_000 },
+};
+
+const MAX_RETRIES = parseInt(process.env.LLM_MAX_RETRIES || '2', 10);
+const RETRY_BASE_MS = parseInt(process.env.LLM_RETRY_BASE_MS || '500', 10);
+// Provider pings are cached so dashboards polling the health probe stay cheap
+const HEALTH_CACHE_MS = parseInt(process.env.LLM_HEALTH_CACHE_MS || '60000', 10);
+const HEALTH_TIMEOUT_MS = 5_000;
+
+/**
+ * Settings for one use case. Each can be overridden with LLM_<USE_CASE>_*
+ * variables, e.g. LLM_PPR_OPENAI_MODEL, LLM_CHAT_MAX_TOKENS, LLM_PROACTIVE_PROVIDERS.
+ */
+export function loadUseCaseConfig(useCase: LlmUseCase, available: string[], env: NodeJS.ProcessEnv = process.env): LlmUseCaseConfig {
+  const prefix = `LLM_${useCase.toUpperCase()}_`;
+  const defaults = USE_CASE_DEFAULTS[useCase];
+  const number = (name: string, fallback: number) => {
+    const value = Number(env[prefix + name]);
+    return env[prefix + name] && Number.isFinite(value) ? value : fallback;
+  };
+
+  const providers = env[`${prefix}PROVIDERS`]
+    ? env[`${prefix}PROVIDERS`]!.split(',').map(name => name.trim()).filter(name => available.includes(name))
+    : available;
+
+  return {
+    providers,
+    models: Object.fromEntries(Object.entries(DEFAULT_MODELS).map(([provider, model]) =>
+      [provider, env[`${prefix}${provider.toUpperCase()}_MODEL`] || model])),
+    maxTokens: number('MAX_TOKENS', defaults.maxTokens),
+    temperature: number('TEMPERATURE', defaults.temperature),
+    timeoutMs: number('TIMEOUT_MS', defaults.timeoutMs),
+  };
+}
+
+// Rate limits, timeouts, server errors and dropped connections are worth another try
+function isRetryable(error: unknown): boolean {
+  const status = (error as { status?: number })?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  return true;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class LlmService {
+  private providers: LlmProvider[] | null = null;
+  private configs = new Map<LlmUseCase, LlmUseCaseConfig>();
+  private health: { result: Promise<LlmHealth>; expiresAt: number } | null = null;
+
+  private getProviders(): LlmProvider[] {
+    if (!this.providers) {
+      this.providers = createLlmProviders();
+      if (this.providers.length === 0) {
+        console.warn('[LLM] No providers configured. Please check API keys or LLM_PROVIDERS.');
+      } else {
+        console.log(`[LLM] Provider chain: ${this.providers.map(p => p.name).join(' -> ')}`);
+      }
+    }
+    return this.providers;
+  }
+
+  config(useCase: LlmUseCase): LlmUseCaseConfig {
+    let config = this.configs.get(useCase);
+    if (!config) {
+      config = loadUseCaseConfig(useCase, this.getProviders().map(p => p.name));
+      this.configs.set(useCase, config);
+    }
+    return config;
+  }
+
+  /**
+   * Try each provider in the use case's chain, retrying transient failures
+   * with exponential backoff. Each attempt is bounded by the use case timeout
+   * and by the caller's signal.
+   */
+  private async run<T>(
+    useCase: LlmUseCase,
+    input: LlmInput,
+    call: (provider: LlmProvider, request: LlmRequest) => Promise<T>
+  ): Promise<{ result: T; provider: string }> {
+    const config = this.config(useCase);
+    const failures: { provider: string; error: string }[] = [];
+
+    for (const name of config.providers) {
+      const provider = this.getProviders().find(p => p.name === name)!;
+
+      for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+        const timeout = AbortSignal.timeout(config.timeoutMs);
+        const request: LlmRequest = {
+          useCase,
+          model: config.models[name],
+          systemPrompt: input.systemPrompt,
+          prompt: input.prompt,
+          history: input.history || [],
+          maxTokens: config.maxTokens,
+          temperature: config.temperature,
+          signal: input.signal ? AbortSignal.any([input.signal, timeout]) : timeout,
+        };
+
+        try {
+          return { result: await call(provider, request), provider: name };
+        } catch (error) {
+          if (input.signal?.aborted) throw error;
+
+          const message = timeout.aborted ? `timed out after ${config.timeoutMs}ms` : (error instanceof Error ? error.message : String(error));
+          console.error(`[LLM] ${name} ${useCase} attempt ${attempt + 1} failed: ${message}`);
+
+          if (attempt === MAX_RETRIES || !(timeout.aborted || isRetryable(error))) {
+            failures.push({ provider: name, error: message });
+            break;
+          }
+          await sleep(RETRY_BASE_MS * 2 ** attempt + Math.random() * RETRY_BASE_MS);
+        }
+      }
+    }
+
+    throw new LlmUnavailableError(useCase, failures);
+  }
+
+  /**
+   * Ping every provider in the chat chain. Results are cached for
+   * LLM_HEALTH_CACHE_MS; concurrent callers share one round of pings.
+   */
+  probe(): Promise<LlmHealth> {
+    if (!this.health || Date.now() > this.health.expiresAt) {
+      this.health = { result: this.pingProviders('chat'), expiresAt: Date.now() + HEALTH_CACHE_MS };
+    }
+    return this.health.result;
+  }
+
+  private async pingProviders(useCase: LlmUseCase): Promise<LlmHealth> {
+    const config = this.config(useCase);
+    const providers = await Promise.all(config.providers.map(async (name): Promise<LlmProviderHealth> => {
+      const provider = this.getProviders().find(p => p.name === name)!;
+      const model = config.models[name];
+      const startedAt = Date.now();
+      try {
+        await provider.ping(model, AbortSignal.timeout(HEALTH_TIMEOUT_MS));
+        return { provider: name, model, ok: true, latencyMs: Date.now() - startedAt };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { provider: name, model, ok: false, latencyMs: Date.now() - startedAt, error: message };
+      }
+    }));
+
+    const healthy = providers.filter(p => p.ok).length;
+    return {
+      status: healthy === 0 ? 'down' : healthy < providers.length ? 'degraded' : 'ok',
+      useCase,
+      providers,
+      checkedAt: new Date().toISOString(),
+    };
+  }
+
+  async complete(useCase: LlmUseCase, input: LlmInput): Promise<LlmResult> {
+    const { result, provider } = await this.run(useCase, input, (p, request) => p.complete(request));
+    return { ...result, provider };
+  }
+
+  /**
+   * Start a streamed response. Retries and fallback apply until the provider
+   * accepts the request; errors after text has started flowing surface from deltas.
+   */
+  async stream(useCase: LlmUseCase, input: LlmInput): Promise<LlmStreamResult> {
+    const { result, provider } = await this.run(useCase, input, (p, request) => p.stream(request));
+    return { ...result, provider };
+  }
+}
+
+export const llmService = new LlmService();
@@ -0,0 +1,96 @@
+import { EventEmitter } from 'events';
+import { db } from '../db';
+import { notifications, UserNotification } from '../../../shared/schema';
+import { and, count, desc, eq, inArray, isNull } from 'drizzle-orm';
+
+export type NotificationType = UserNotification['type'];
+
+export interface NotificationInput {
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface NotificationReadEvent {
+  userId: number;
+  ids: number[];
+  unreadCount: number;
+}
+
+/**
+ * In-process bus the WebSocket layer listens on. Events:
+ * - `notification` (UserNotification): a new notification was stored
+ * - `read` (NotificationReadEvent): notifications were marked read
+ * - `session-ended` (session ID): sockets opened by that session must close
+ * - `user-deactivated` (user ID): every socket of that user must close
+ */
+export const notificationBus = new EventEmitter();
+notificationBus.setMaxListeners(0);
+
+export const notificationService = {
+  /**
+   * Store a notification and push it to any open sockets for the user. Like
+   * badge awards, a failure here is logged and never fails the caller's work.
+   */
+  async publish(userId: number, input: NotificationInput): Promise<UserNotification | null> {
+    try {
+      const [notification] = await db
+        .insert(notifications)
+        .values({ userId, type: input.type, title: input.title, body: input.body, data: input.data ?? null })
+        .returning();
+      notificationBus.emit('notification', notification);
+      return notification;
+    } catch (error) {
+      console.error(`[Notifications] Failed to publish ${input.type} to user ${userId}:`, error);
+      return null;
+    }
+  },
+
+  async publishMany(userIds: number[], input: NotificationInput): Promise<UserNotification[]> {
+    const published = await Promise.all(userIds.map(userId => this.publish(userId, input)));
+    return published.filter((n): n is UserNotification => n !== null);
+  },
+
+  async list(userId: number, options: { unreadOnly?: boolean; limit?: number } = {}): Promise<UserNotification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        options.unreadOnly ? isNull(notifications.readAt) : undefined
+      ))
+      .orderBy(desc(notifications.createdAt))
+      .limit(options.limit ?? 20);
+  },
+
+  async unreadCount(userId: number): Promise<number> {
+    const [row] = await db
+      .select({ total: count() })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return row?.total ?? 0;
+  },
+
+  /**
+   * Mark the given notifications (or all of them) read and tell the user's
+   * other open tabs. Returns the IDs that changed.
+   */
+  async markRead(userId: number, ids?: number[]): Promise<{ ids: number[]; unreadCount: number }> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ids ? inArray(notifications.id, ids) : undefined
+      ))
+      .returning({ id: notifications.id });
+
+    const result = { ids: updated.map(n => n.id), unreadCount: await this.unreadCount(userId) };
+    if (result.ids.length > 0) {
+      notificationBus.emit('read', { userId, ...result } satisfies NotificationReadEvent);
+    }
+    return result;
+  },
+};
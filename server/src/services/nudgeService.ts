@@ -0,0 +1,237 @@
+import { db } from '../db';
+import { users, patientNudges, PatientNudge, User } from '../../../shared/schema';
+import { and, desc, eq, isNull } from 'drizzle-orm';
+import { HttpError } from '../errors';
+import { DEFAULT_TIMEZONE, localHour } from '../utils/dates';
+import { aiContextService, PatientContext } from './aiContextService';
+import { badgeService, BadgeProgress } from './badgeService';
+import { supervisorAgentService } from './supervisorAgent';
+import { smsService } from './smsService';
+import { emailService } from './emailService';
+import { notificationService } from './notificationService';
+
+export type NudgeRule = PatientNudge['rule'];
+
+const ALL_RULES: NudgeRule[] = ['missed_checkin', 'declining_medication', 'near_badge_tier'];
+
+// Rules to apply, highest priority first; the first that matches is the day's nudge
+const NUDGE_RULES = (process.env.NUDGE_RULES || ALL_RULES.join(','))
+  .split(',')
+  .map(rule => rule.trim())
+  .filter((rule): rule is NudgeRule => ALL_RULES.includes(rule as NudgeRule));
+const MISSED_CHECKIN_DAYS = parseInt(process.env.NUDGE_MISSED_CHECKIN_DAYS || '2', 10);
+const NEAR_TIER_DAYS = parseInt(process.env.NUDGE_NEAR_TIER_DAYS || '3', 10);
+// Patients are evaluated once a day, at this hour in their own timezone
+const NUDGE_LOCAL_HOUR = parseInt(process.env.NUDGE_LOCAL_HOUR || '10', 10);
+
+export interface NudgeCandidate {
+  rule: NudgeRule;
+  reason: string;
+  fallback: string;
+}
+
+export interface NudgeRunResult {
+  patientId: number;
+  outcome: 'sent' | 'failed' | 'skipped';
+  reason?: string;
+  nudge?: PatientNudge;
+}
+
+type NudgeRecipient = Pick<User, 'id' | 'email' | 'phoneNumber' | 'timezone' | 'nudgeChannel'>;
+
+/**
+ * First enabled rule the patient matches, or null when no nudge is needed.
+ */
+export function evaluateNudgeRules(
+  context: PatientContext,
+  badges: BadgeProgress[],
+  rules: NudgeRule[] = NUDGE_RULES
+): NudgeCandidate | null {
+  for (const rule of rules) {
+    switch (rule) {
+      case 'missed_checkin': {
+        const days = context.daysSinceLastActivity;
+        if (days === null || days >= MISSED_CHECKIN_DAYS) {
+          return {
+            rule,
+            reason: days === null ? 'No check-ins in the last 14 days' : `${days} days since the last check-in`,
+            fallback: "We haven't heard from you for a little while. Logging today's scores only takes a minute.",
+          };
+        }
+        break;
+      }
+      case 'declining_medication': {
+        const medication = context.trendAnalysis.metrics.medication;
+        if (medication.direction === 'declining') {
+          return {
+            rule,
+            reason: `Medication scores declining (${medication.slope}/day, ${medication.confidence} confidence)`,
+            fallback: 'Your medication scores have dipped lately. If anything is making your medication harder to keep up with, your care team can help.',
+          };
+        }
+        break;
+      }
+      case 'near_badge_tier': {
+        const near = badges
+          .flatMap(badge => badge.tiers.map(tier => ({ badge, tier })))
+          .filter(({ tier }) => !tier.earned && tier.currentStreak > 0 && tier.daysRemaining <= NEAR_TIER_DAYS)
+          .sort((a, b) => a.tier.daysRemaining - b.tier.daysRemaining)[0];
+        if (near) {
+          const days = `${near.tier.daysRemaining} day${near.tier.daysRemaining === 1 ? '' : 's'}`;
+          return {
+            rule,
+            reason: `${days} from ${near.tier.tier} ${near.badge.badgeType}`,
+            fallback: `You're only ${days} away from the ${near.tier.tier} ${near.badge.badgeType} badge. Keep your streak going today!`,
+          };
+        }
+        break;
+      }
+    }
+  }
+  return null;
+}
+
+export const nudgeService = {
+  /**
+   * Evaluate one patient and, if a rule matches and they have not been nudged
+   * today, generate, record and deliver a nudge.
+   */
+  async runForPatient(patient: NudgeRecipient): Promise<NudgeRunResult> {
+    const context = await aiContextService.prepareContext(patient.id);
+    if (!context) {
+      return { patientId: patient.id, outcome: 'skipped', reason: 'No patient context' };
+    }
+
+    const [existing] = await db
+      .select({ id: patientNudges.id })
+      .from(patientNudges)
+      .where(and(eq(patientNudges.patientId, patient.id), eq(patientNudges.nudgeDate, context.localDate)));
+    if (existing) {
+      return { patientId: patient.id, outcome: 'skipped', reason: 'Already nudged today' };
+    }
+
+    const badges = NUDGE_RULES.includes('near_badge_tier') ? (await badgeService.getProgress(patient.id)).badges : [];
+    const candidate = evaluateNudgeRules(context, badges);
+    if (!candidate) {
+      return { patientId: patient.id, outcome: 'skipped', reason: 'No rule matched' };
+    }
+
+    const message = await supervisorAgentService.generateNudge(context, candidate);
+
+    // The unique index on (patient, day) makes a concurrent run a no-op
+    const [nudge] = await db
+      .insert(patientNudges)
+      .values({
+        patientId: patient.id,
+        nudgeDate: context.localDate,
+        rule: candidate.rule,
+        reason: candidate.reason,
+        message,
+        channel: patient.nudgeChannel,
+      })
+      .onConflictDoNothing({ target: [patientNudges.patientId, patientNudges.nudgeDate] })
+      .returning();
+    if (!nudge) {
+      return { patientId: patient.id, outcome: 'skipped', reason: 'Already nudged today' };
+    }
+
+    const delivery = await this.deliver(nudge, patient);
+    const [updated] = await db
+      .update(patientNudges)
+      .set({ status: delivery.success ? 'delivered' : 'failed', error: delivery.error ?? null, updatedAt: new Date() })
+      .where(eq(patientNudges.id, nudge.id))
+      .returning();
+
+    console.log(`[Nudges] Patient ${patient.id}: ${candidate.rule} via ${nudge.channel} (${updated.status})`);
+    return { patientId: patient.id, outcome: delivery.success ? 'sent' : 'failed', reason: delivery.error, nudge: updated };
+  },
+
+  /**
+   * Send through the patient's chosen channel. In-app nudges arrive as a
+   * notification; every nudge is also listed in the app.
+   */
+  async deliver(nudge: PatientNudge, patient: NudgeRecipient): Promise<{ success: boolean; error?: string }> {
+    switch (nudge.channel) {
+      case 'in_app': {
+        const notification = await notificationService.publish(patient.id, {
+          type: 'nudge',
+          title: 'A note from your health assistant',
+          body: nudge.message,
+          data: { nudgeId: nudge.id, rule: nudge.rule },
+        });
+        return notification ? { success: true } : { success: false, error: 'Could not store notification' };
+      }
+      case 'sms':
+        if (!patient.phoneNumber) {
+          return { success: false, error: 'No phone number on file' };
+        }
+        return smsService.send(patient.phoneNumber, 'nudge', { message: nudge.message }, patient.id);
+      case 'email':
+        return emailService.send({ to: patient.email, subject: 'A note from Keep Going Care', text: nudge.message });
+    }
+  },
+
+  /**
+   * Evaluate every active patient whose local time is the nudge hour, or all
+   * of them when forced. Patients are processed one at a time so a slow model
+   * or transport never floods the providers.
+   */
+  async runDue(options: { force?: boolean; now?: Date } = {}): Promise<{ evaluated: number; sent: number; failed: number; skipped: number }> {
+    const now = options.now || new Date();
+    const patients = await db
+      .select({
+        id: users.id,
+        email: users.email,
+        phoneNumber: users.phoneNumber,
+        timezone: users.timezone,
+        nudgeChannel: users.nudgeChannel,
+      })
+      .from(users)
+      .where(and(eq(users.role, 'patient'), eq(users.isActive, true)));
+
+    const due = options.force
+      ? patients
+      : patients.filter(p => localHour(p.timezone || DEFAULT_TIMEZONE, now) === NUDGE_LOCAL_HOUR);
+
+    const summary = { evaluated: due.length, sent: 0, failed: 0, skipped: 0 };
+    for (const patient of due) {
+      try {
+        const result = await this.runForPatient(patient);
+        summary[result.outcome]++;
+      } catch (error) {
+        console.error(`[Nudges] Error evaluating patient ${patient.id}:`, error);
+        summary.failed++;
+      }
+    }
+    return summary;
+  },
+
+  async listForPatient(patientId: number, limit = 20): Promise<PatientNudge[]> {
+    return db
+      .select()
+      .from(patientNudges)
+      .where(eq(patientNudges.patientId, patientId))
+      .orderBy(desc(patientNudges.createdAt))
+      .limit(limit);
+  },
+
+  async markRead(patientId: number, nudgeId: number): Promise<PatientNudge> {
+    const [updated] = await db
+      .update(patientNudges)
+      .set({ readAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(patientNudges.id, nudgeId), eq(patientNudges.patientId, patientId), isNull(patientNudges.readAt)))
+      .returning();
+    if (updated) {
+      return updated;
+    }
+
+    const [existing] = await db
+      .select()
+      .from(patientNudges)
+      .where(and(eq(patientNudges.id, nudgeId), eq(patientNudges.patientId, patientId)));
+    if (!existing) {
+      throw new HttpError(404, 'Nudge not found');
+    }
+    return existing;
+  },
+};
@@ -0,0 +1,248 @@
+/**
+ * PHI De-identification Service for TGA Class I SaMD Compliance
+ *
+ * Every prompt is tokenised before it leaves the server and every response is
+ * scanned and re-identified on the way back, so no Personal Health Information
+ * (PHI) or Personally Identifiable Information (PII) reaches the LLM providers.
+ */
+
+import { daysBetween, isValidIsoDate } from '../utils/dates';
+
+export type PhiCategory = 'name' | 'email' | 'phone' | 'medicare' | 'address' | 'identifier' | 'date';
+
+/** Identifiers we know belong to the patient, matched exactly rather than by pattern. */
+export interface PhiIdentifiers {
+  name?: string | null;
+  email?: string | null;
+  phoneNumber?: string | null;
+  /** Local "today" for the patient; dates become day offsets from it. */
+  referenceDate?: string;
+}
+
+export interface DeidentifiedText {
+  content: string;
+  tokenMap: Record<string, string>;
+  redactions: Partial<Record<PhiCategory, number>>;
+}
+
+export interface PhiRedactionReport {
+  /** What was tokenised in the outgoing prompt, by category. */
+  redactions: Partial<Record<PhiCategory, number>>;
+  /** PHI-like content the model produced on its own, which was redacted. */
+  responseFindings: Partial<Record<PhiCategory, number>>;
+  /** How many tokens in the response were mapped back to real values. */
+  tokensRestored: number;
+}
+
+/**
+ * Applies the response scan and re-identification to a streamed answer.
+ * Text is only released once no PHI pattern could still be growing across
+ * the chunk boundary.
+ */
+export interface PhiStreamFilter {
+  /** Add raw model output; returns filtered text that is safe to send. */
+  push(chunk: string): string;
+  /** Release whatever is still held back at the end of the stream. */
+  flush(): string;
+  /** Totals for the whole stream so far. */
+  report(): Pick<PhiRedactionReport, 'responseFindings' | 'tokensRestored'>;
+}
+
+const TOKEN_PREFIX: Record<Exclude<PhiCategory, 'date'>, string> = {
+  name: 'NAME',
+  email: 'EMAIL',
+  phone: 'PHONE',
+  medicare: 'MEDICARE',
+  address: 'ADDRESS',
+  identifier: 'ID',
+};
+
+// Order matters: longer, more specific patterns run first
+const PATTERNS: { category: Exclude<PhiCategory, 'name' | 'date'>; pattern: RegExp }[] = [
+  { category: 'email', pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  // Individual Healthcare Identifier: 16 digits, always starting 800360
+  { category: 'identifier', pattern: /\b8003[ -]?60\d{2}[ -]?\d{4}[ -]?\d{4}\b/g },
+  { category: 'phone', pattern: /(?:\+?61[ -]?|\b0)[2-478](?:[ -]?\d){8}\b/g },
+  { category: 'medicare', pattern: /\b[2-6]\d{3}[ -]?\d{5}[ -]?\d(?:[ -]?\d)?\b/g },
+  { category: 'address', pattern: /\b\d+[A-Za-z]?\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Lane|Ln|Drive|Dr|Court|Ct|Place|Pl|Crescent|Cres|Boulevard|Blvd|Parade|Pde|Way|Close|Cl|Terrace|Tce|Highway|Hwy)\b/g },
+  { category: 'identifier', pattern: /\b(?:patient\s+)?id\s*[:=#]?\s*\d+\b/gi },
+];
+
+// ISO dates, and day-first dates as Australians write them (dates of birth especially)
+const DATE_PATTERN = /\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}[/.]\d{1,2}[/.]\d{4}\b/g;
+const TOKEN_PATTERN = /\[(?:NAME|EMAIL|PHONE|MEDICARE|ADDRESS|ID)_\d+\]|\[DAY[+-]\d+\]|\[DATE_\d+\]/g;
+
+// Streamed words that could be part of a PHI pattern still being written
+const RISKY_WORD = /[\d@[\]+]|^id\W*$/i;
+// Addresses are the longest pattern: a number plus up to four words
+const STREAM_HOLDBACK_WORDS = 5;
+
+function toIsoDate(date: string): string | null {
+  const dayFirst = date.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  const iso = dayFirst ? `${dayFirst[3]}-${dayFirst[2].padStart(2, '0')}-${dayFirst[1].padStart(2, '0')}` : date;
+  return isValidIsoDate(iso) ? iso : null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+class PHIDeidentificationService {
+  /**
+   * Replace known identifiers and PHI patterns with tokens. The same value
+   * always maps to the same token within one call.
+   */
+  deidentify(content: string, identifiers: PhiIdentifiers = {}): DeidentifiedText {
+    const { contents: [result], tokenMap, redactions } = this.deidentifyAll([content], identifiers);
+    return { content: result, tokenMap, redactions };
+  }
+
+  /**
+   * De-identify several texts, such as the turns of a conversation, with one
+   * shared token map so a value gets the same token wherever it appears.
+   */
+  deidentifyAll(contents: string[], identifiers: PhiIdentifiers = {}): Omit<DeidentifiedText, 'content'> & { contents: string[] } {
+    const tokenMap: Record<string, string> = {};
+    const valueToToken = new Map<string, string>();
+    const redactions: Partial<Record<PhiCategory, number>> = {};
+    const counters: Partial<Record<PhiCategory, number>> = {};
+
+    const tokenFor = (category: PhiCategory, value: string, token?: string) => {
+      const key = `${category}:${value.toLowerCase()}`;
+      let assigned = valueToToken.get(key);
+      if (!assigned) {
+        counters[category] = (counters[category] || 0) + 1;
+        assigned = token || `[${TOKEN_PREFIX[category as Exclude<PhiCategory, 'date'>]}_${counters[category]}]`;
+        valueToToken.set(key, assigned);
+        tokenMap[assigned] = value;
+      }
+      redactions[category] = (redactions[category] || 0) + 1;
+      return assigned;
+    };
+
+    const tokenise = (content: string) => {
+      let result = content;
+
+      // Exact identifiers first so patterns cannot split them
+      if (identifiers.email) {
+        result = result.replace(new RegExp(escapeRegExp(identifiers.email), 'gi'), m => tokenFor('email', m));
+      }
+      if (identifiers.phoneNumber) {
+        const digits = identifiers.phoneNumber.replace(/\D/g, '');
+        if (digits.length >= 6) {
+          const loosePhone = digits.split('').map(escapeRegExp).join('[ -]?');
+          result = result.replace(new RegExp(`\\+?${loosePhone}`, 'g'), m => tokenFor('phone', m));
+        }
+      }
+      if (identifiers.name) {
+        const fullName = identifiers.name.trim();
+        result = result.replace(new RegExp(`\\b${escapeRegExp(fullName)}\\b`, 'gi'), m => tokenFor('name', m));
+        // Single name parts are matched case-sensitively so names like "Will" or "May" spare ordinary words
+        for (const part of new Set(fullName.split(/\s+/).filter(p => p.length >= 2))) {
+          result = result.replace(new RegExp(`\\b${escapeRegExp(part)}\\b`, 'g'), m => tokenFor('name', m));
+        }
+      }
+
+      for (const { category, pattern } of PATTERNS) {
+        result = result.replace(pattern, m => tokenFor(category, m));
+      }
+
+      // Dates become offsets from the reference date so the model keeps their order
+      return result.replace(DATE_PATTERN, m => {
+        const isoDate = toIsoDate(m);
+        if (identifiers.referenceDate && isoDate) {
+          const offset = daysBetween(identifiers.referenceDate, isoDate);
+          return tokenFor('date', m, `[DAY${offset >= 0 ? '+' : ''}${offset}]`);
+        }
+        return tokenFor('date', m, `[DATE_${(counters.date || 0) + 1}]`);
+      });
+    };
+
+    return { contents: contents.map(tokenise), tokenMap, redactions };
+  }
+
+  /**
+   * Redact any PHI-like content in a model response that did not come from our tokens.
+   */
+  scanResponse(response: string): { content: string; findings: Partial<Record<PhiCategory, number>> } {
+    const findings: Partial<Record<PhiCategory, number>> = {};
+    let content = response;
+
+    for (const { category, pattern } of PATTERNS) {
+      content = content.replace(pattern, () => {
+        findings[category] = (findings[category] || 0) + 1;
+        return '[REDACTED]';
+      });
+    }
+
+    return { content, findings };
+  }
+
+  /**
+   * Put the real values back in place of tokens the model echoed.
+   */
+  reidentify(response: string, tokenMap: Record<string, string>): { content: string; tokensRestored: number } {
+    let tokensRestored = 0;
+    const content = response.replace(TOKEN_PATTERN, token => {
+      const original = tokenMap[token];
+      if (original === undefined) return token;
+      tokensRestored++;
+      return original;
+    });
+    return { content, tokensRestored };
+  }
+
+  createStreamFilter(tokenMap: Record<string, string>): PhiStreamFilter {
+    const responseFindings: Partial<Record<PhiCategory, number>> = {};
+    let tokensRestored = 0;
+    let pending = '';
+
+    const release = (text: string) => {
+      const scanned = this.scanResponse(text);
+      for (const [category, total] of Object.entries(scanned.findings) as [PhiCategory, number][]) {
+        responseFindings[category] = (responseFindings[category] || 0) + total;
+      }
+      const restored = this.reidentify(scanned.content, tokenMap);
+      tokensRestored += restored.tokensRestored;
+      return restored.content;
+    };
+
+    return {
+      push: (chunk: string) => {
+        pending += chunk;
+
+        // Only complete words can be released, and not the last few if any look like PHI
+        const words = [...pending.matchAll(/\S+\s+/g)];
+        let cut = words.length ? words[words.length - 1].index! + words[words.length - 1][0].length : 0;
+        for (const word of words.slice(-STREAM_HOLDBACK_WORDS)) {
+          if (RISKY_WORD.test(word[0].trim())) {
+            cut = word.index!;
+            break;
+          }
+        }
+
+        // Never split a pattern that already matches across the cut
+        for (const { pattern } of PATTERNS) {
+          for (const match of pending.matchAll(pattern)) {
+            if (match.index! < cut && match.index! + match[0].length > cut) {
+              cut = match.index!;
+            }
+          }
+        }
+
+        if (cut === 0) return '';
+        const ready = pending.slice(0, cut);
+        pending = pending.slice(cut);
+        return release(ready);
+      },
+      flush: () => {
+        const rest = pending;
+        pending = '';
+        return rest ? release(rest) : '';
+      },
+      report: () => ({ responseFindings, tokensRestored }),
+    };
+  }
+}
+
+export const phiDeidentificationService = new PHIDeidentificationService();
@@ -0,0 +1,284 @@
+import { db } from '../db';
+import { patientScores, patientBadges, progressReports, supervisorAgentLogs, ProgressReport } from '../../../shared/schema';
+import { and, asc, count, desc, eq, gte, lte } from 'drizzle-orm';
+import { aiContextService, PatientContext } from './aiContextService';
+import { supervisorAgentService } from './supervisorAgent';
+import { analyzeTrends, describeTrends, TrendAnalysis } from './trendService';
+import { HttpError } from '../errors';
+import { shiftIsoDate } from '../utils/dates';
+
+export interface PatientDataBundle {
+  patient: {
+    id: number;
+    name: string;
+    timezone: string;
+  };
+  period: {
+    start: string;
+    end: string;
+    days: number;
+  };
+  scores: {
+    scoreDate: string;
+    dietScore: number;
+    exerciseScore: number;
+    medicationScore: number;
+  }[];
+  averages: {
+    diet: number | null;
+    exercise: number | null;
+    medication: number | null;
+  };
+  badges: {
+    badgeType: string;
+    badgeLevel: string;
+    earnedDate: Date;
+  }[];
+  carePlanDirectives: {
+    directive: string;
+    category: string | null;
+    priority: string | null;
+    version: number;
+  }[];
+  trends: PatientContext['trends'];
+  trendAnalysis: TrendAnalysis;
+  featureUsage: {
+    scoreSubmissions: number;
+    activeDays: number;
+    chatInteractions: number;
+  };
+}
+
+type ReportSummary = Omit<ProgressReport, 'inputBundle' | 'reportMarkdown'>;
+
+class PPRService {
+  /**
+   * Gather everything a report is based on. The bundle is stored with the
+   * report so reviewers can see exactly what the AI was given.
+   */
+  async buildDataBundle(patientId: number, periodDays: number): Promise<PatientDataBundle> {
+    const context = await aiContextService.prepareContext(patientId);
+    if (!context) {
+      throw new HttpError(404, 'Patient not found');
+    }
+
+    const end = context.localDate;
+    const start = shiftIsoDate(end, -(periodDays - 1));
+    const startOfPeriod = new Date(`${start}T00:00:00Z`);
+
+    const scores = await db
+      .select({
+        scoreDate: patientScores.scoreDate,
+        dietScore: patientScores.dietScore,
+        exerciseScore: patientScores.exerciseScore,
+        medicationScore: patientScores.medicationScore,
+      })
+      .from(patientScores)
+      .where(and(
+        eq(patientScores.patientId, patientId),
+        gte(patientScores.scoreDate, start),
+        lte(patientScores.scoreDate, end)
+      ))
+      .orderBy(asc(patientScores.scoreDate));
+
+    const badges = await db
+      .select({
+        badgeType: patientBadges.badgeType,
+        badgeLevel: patientBadges.badgeLevel,
+        earnedDate: patientBadges.earnedDate,
+      })
+      .from(patientBadges)
+      .where(and(eq(patientBadges.patientId, patientId), gte(patientBadges.earnedDate, startOfPeriod)))
+      .orderBy(asc(patientBadges.earnedDate));
+
+    const [{ chatInteractions }] = await db
+      .select({ chatInteractions: count() })
+      .from(supervisorAgentLogs)
+      .where(and(
+        eq(supervisorAgentLogs.patientId, patientId),
+        eq(supervisorAgentLogs.action, 'chat_query'),
+        gte(supervisorAgentLogs.createdAt, startOfPeriod)
+      ));
+
+    // Trends over the report's own period, not the dashboard's shorter window
+    const trendAnalysis = analyzeTrends(scores, end, periodDays);
+
+    const average = (pick: (s: PatientDataBundle['scores'][number]) => number) =>
+      scores.length ? Math.round((scores.reduce((sum, s) => sum + pick(s), 0) / scores.length) * 10) / 10 : null;
+
+    return {
+      patient: { id: context.id, name: context.name, timezone: context.timezone },
+      period: { start, end, days: periodDays },
+      scores,
+      averages: {
+        diet: average(s => s.dietScore),
+        exercise: average(s => s.exerciseScore),
+        medication: average(s => s.medicationScore),
+      },
+      badges,
+      carePlanDirectives: context.carePlanDirectives.map(cpd => ({
+        directive: cpd.directive,
+        category: cpd.category,
+        priority: cpd.priority,
+        version: cpd.version,
+      })),
+      trends: aiContextService.trendLabels(trendAnalysis),
+      trendAnalysis,
+      featureUsage: {
+        scoreSubmissions: scores.length,
+        activeDays: new Set(scores.map(s => s.scoreDate)).size,
+        chatInteractions,
+      },
+    };
+  }
+
+  private buildPrompt(bundle: PatientDataBundle): string {
+    return `
+Prepare a Patient Progress Report for the treating doctor.
+
+PATIENT: ${bundle.patient.name} (ID: ${bundle.patient.id})
+PERIOD: ${bundle.period.start} to ${bundle.period.end} (${bundle.period.days} days)
+
+DAILY SELF-SCORES (${bundle.scores.length} submissions, scale 1-10):
+${bundle.scores.map(s => `${s.scoreDate}: Diet=${s.dietScore}, Exercise=${s.exerciseScore}, Medication=${s.medicationScore}`).join('\n') || 'None submitted'}
+
+AVERAGES: Diet=${bundle.averages.diet ?? 'n/a'}, Exercise=${bundle.averages.exercise ?? 'n/a'}, Medication=${bundle.averages.medication ?? 'n/a'}
+TRENDS (${bundle.trendAnalysis.from} to ${bundle.trendAnalysis.to}, recency-weighted fit):
+${describeTrends(bundle.trendAnalysis)}
+
+ACTIVE CARE PLAN DIRECTIVES:
+${bundle.carePlanDirectives.map(cpd => `- [${cpd.priority || 'medium'}] ${cpd.directive}${cpd.category ? ` (${cpd.category})` : ''}`).join('\n') || 'None'}
+
+BADGES EARNED IN PERIOD:
+${bundle.badges.map(b => `- ${b.badgeType} (${b.badgeLevel})`).join('\n') || 'None'}
+
+ENGAGEMENT: ${bundle.featureUsage.activeDays} active days, ${bundle.featureUsage.chatInteractions} assistant conversations
+
+Include these sections:
+1. Executive Summary
+2. Health Trends Analysis
+3. Adherence to Care Plan Directives
+4. Achievement Recognition
+5. Areas for Clinical Follow-up
+6. Suggested Discussion Points for the Next Consultation
+`;
+  }
+
+  /**
+   * Generate a new draft report for a patient.
+   */
+  async generateReport(patientId: number, doctorId: number, periodDays: number): Promise<ProgressReport> {
+    console.log(`[PPR] Generating ${periodDays}-day report for patient ${patientId}`);
+    const bundle = await this.buildDataBundle(patientId, periodDays);
+
+    let completion;
+    try {
+      completion = await supervisorAgentService.generateProgressReport(this.buildPrompt(bundle), {
+        name: bundle.patient.name,
+        referenceDate: bundle.period.end,
+      });
+    } catch (error) {
+      console.error(`[PPR] AI generation failed for patient ${patientId}:`, error);
+      throw new HttpError(503, 'Report generation is temporarily unavailable');
+    }
+
+    const reportMarkdown = `# Patient Progress Report
+**Patient:** ${bundle.patient.name} (ID: ${bundle.patient.id})
+**Period:** ${bundle.period.start} to ${bundle.period.end}
+
+${completion.content}
+
+---
+*Draft generated by the KGC Health Assistant (${completion.model}). Requires doctor review before use.*
+`;
+
+    const [report] = await db
+      .insert(progressReports)
+      .values({
+        patientId,
+        doctorId,
+        periodStart: bundle.period.start,
+        periodEnd: bundle.period.end,
+        inputBundle: bundle,
+        reportMarkdown,
+        model: completion.model,
+      })
+      .returning();
+
+    await aiContextService.logInteraction(patientId, 'ppr_generation', { reportId: report.id, period: bundle.period }, completion.content, completion.phiReport);
+
+    return report;
+  }
+
+  async listReports(patientId: number): Promise<ReportSummary[]> {
+    return db
+      .select({
+        id: progressReports.id,
+        patientId: progressReports.patientId,
+        doctorId: progressReports.doctorId,
+        periodStart: progressReports.periodStart,
+        periodEnd: progressReports.periodEnd,
+        model: progressReports.model,
+        status: progressReports.status,
+        approvedByDoctorId: progressReports.approvedByDoctorId,
+        approvedAt: progressReports.approvedAt,
+        createdAt: progressReports.createdAt,
+        updatedAt: progressReports.updatedAt,
+      })
+      .from(progressReports)
+      .where(eq(progressReports.patientId, patientId))
+      .orderBy(desc(progressReports.createdAt));
+  }
+
+  async getReport(patientId: number, reportId: number): Promise<ProgressReport> {
+    const [report] = await db
+      .select()
+      .from(progressReports)
+      .where(and(eq(progressReports.id, reportId), eq(progressReports.patientId, patientId)));
+    if (!report) {
+      throw new HttpError(404, 'Report not found');
+    }
+    return report;
+  }
+
+  /**
+   * Edit a draft. Approved reports are final.
+   */
+  async updateReport(patientId: number, reportId: number, reportMarkdown: string): Promise<ProgressReport> {
+    const [updated] = await db
+      .update(progressReports)
+      .set({ reportMarkdown, updatedAt: new Date() })
+      .where(and(
+        eq(progressReports.id, reportId),
+        eq(progressReports.patientId, patientId),
+        eq(progressReports.status, 'draft')
+      ))
+      .returning();
+
+    if (!updated) {
+      await this.getReport(patientId, reportId);
+      throw new HttpError(409, 'Approved reports cannot be edited');
+    }
+    return updated;
+  }
+
+  async approveReport(patientId: number, reportId: number, doctorId: number): Promise<ProgressReport> {
+    const [approved] = await db
+      .update(progressReports)
+      .set({ status: 'approved', approvedByDoctorId: doctorId, approvedAt: new Date(), updatedAt: new Date() })
+      .where(and(
+        eq(progressReports.id, reportId),
+        eq(progressReports.patientId, patientId),
+        eq(progressReports.status, 'draft')
+      ))
+      .returning();
+
+    if (!approved) {
+      await this.getReport(patientId, reportId);
+      throw new HttpError(409, 'Report has already been approved');
+    }
+    return approved;
+  }
+}
+
+export const pprService = new PPRService();
@@ -0,0 +1,291 @@
+/**
+ * Safety guardrails for the KGC Health Assistant (TGA Class I SaMD).
+ *
+ * Patient messages are checked for crisis language before any model is
+ * called, and model responses are checked sentence by sentence for
+ * diagnostic claims, medication dose changes and contradictions of the
+ * patient's active Care Plan Directives.
+ */
+
+export type CrisisCategory = 'self_harm' | 'medical_emergency';
+export type ResponseViolationType = 'diagnosis' | 'dosage_change' | 'cpd_contradiction';
+
+export interface CrisisCheck {
+  crisis: boolean;
+  category?: CrisisCategory;
+  matched: string[];
+}
+
+export interface ResponseViolation {
+  type: ResponseViolationType;
+  sentence: string;
+  directive?: string;
+}
+
+export interface ResponseReview {
+  content: string;
+  violations: ResponseViolation[];
+}
+
+/** Active directive text, as held in the MCP bundle. */
+export interface DirectiveLike {
+  directive: string;
+}
+
+/** Incremental review for streamed responses; releases whole, reviewed sentences. */
+export interface ResponseStreamReviewer {
+  push(text: string): string;
+  flush(): string;
+  violations(): ResponseViolation[];
+}
+
+const CRISIS_PATTERNS: Record<CrisisCategory, RegExp[]> = {
+  self_harm: [
+    /\b(?:kill|hurt|harm|cut)(?:ing)? myself\b/i,
+    /\bsuicid\w*/i,
+    /\bend(?:ing)? (?:my|it all|my own) life\b|\bend it all\b/i,
+    /\bself[- ]?harm\w*/i,
+    /\b(?:want|wanting|wish) to die\b/i,
+    /\b(?:don'?t|do not) want to (?:live|be alive|wake up)\b/i,
+    /\bbetter off dead\b/i,
+    /\boverdos\w*/i,
+    /\b(?:took|taken|swallowed) (?:all|the rest|a (?:whole|full) (?:bottle|packet|box|strip)|too many|loads|a handful|a lot)(?: of)? (?:my |the )?(?:pills|tablets|meds|medications?|medicines?|painkillers|sleeping pills)\b/i,
+    /\b(?:can'?t|cannot) (?:go on|keep going|do this|take (?:it|this))(?: like this| any ?more| any longer)\b/i,
+    /\b(?:no|nothing|no point) (?:reason|point|left) (?:in |to |for )?(?:living|live|going on|carry(?:ing)? on)\b/i,
+    /\b(?:feel(?:ing)?|everything (?:is|feels|seems)|life (?:is|feels|seems)) (?:so |completely |totally )?hopeless\b/i,
+  ],
+  medical_emergency: [
+    /\bchest pains?\b/i,
+    /\b(?:pain|crushing|tightness|pressure|squeezing|heaviness|ache)\b[^.!?]{0,25}\b(?:in|across|on) (?:my|the) chest\b/i,
+    /\bchest (?:is |feels )?(?:tight|hurts?|hurting|aching|crushing|heavy)\b/i,
+    /\b(?:can'?t|cannot|struggling to|trouble|difficulty) breath\w*/i,
+    /\bheart attack\b/i,
+    /\bstroke\b(?! of (?:luck|genius))/i,
+    /\bslurred speech\b|\bface (?:is )?drooping\b/i,
+    /\bseizure\w*/i,
+    /\b(?:passed out|fainted|unconscious)\b/i,
+    /\bsevere bleeding\b|\bwon'?t stop bleeding\b/i,
+    /\banaphyla\w*/i,
+  ],
+};
+
+const ESCALATION_MESSAGES: Record<CrisisCategory, string> = {
+  self_harm:
+    "I'm really sorry you're feeling this way, and I'm glad you told me. I'm not able to help with this here, but you don't have to face it alone. " +
+    'If you are in immediate danger, please call 000 now. You can talk to Lifeline at any time on 13 11 14. ' +
+    "I've let your care team know so they can follow up with you.",
+  medical_emergency:
+    'What you describe could be a medical emergency. Please call 000 now or go to your nearest emergency department. ' +
+    "I've let your care team know.",
+};
+
+const DIAGNOSIS_PATTERNS = [
+  /\byou (?:likely |probably |may |might |could |most likely )?(?:have|'ve got|are suffering from|are showing (?:signs|symptoms) of|have developed)\s+(?:an? |early |mild |severe |type \d )?[\w-]*\s?(?:diabetes|depression|anxiety|cancer|infection|disorder|disease|syndrome|hypertension|arthritis|asthma|apnoea|apnea|deficiency|failure|itis)\b/i,
+  /\b(?:sounds|looks|seems) like (?:you have|an? )[\w\s-]{0,30}(?:disease|disorder|syndrome|infection|condition)\b/i,
+  /\b(?:my|this is a|a likely|the) diagnosis\b/i,
+  /\bI (?:would )?diagnose\b/i,
+];
+
+// Common brand-agnostic names of the medicines our patients are prescribed
+const NAMED_MEDICATIONS = [
+  'metformin', 'gliclazide', 'sitagliptin', 'empagliflozin', 'dapagliflozin', 'semaglutide', 'dulaglutide', 'insulin',
+  'atorvastatin', 'rosuvastatin', 'simvastatin', 'pravastatin', 'statins?', 'ezetimibe',
+  'ramipril', 'perindopril', 'lisinopril', 'candesartan', 'irbesartan', 'telmisartan', 'amlodipine', 'metoprolol',
+  'atenolol', 'bisoprolol', 'furosemide', 'frusemide', 'spironolactone', 'hydrochlorothiazide', 'indapamide',
+  'warfarin', 'apixaban', 'rivaroxaban', 'dabigatran', 'aspirin', 'clopidogrel', 'digoxin',
+  'levothyroxine', 'thyroxine', 'prednisolone', 'prednisone', 'sertraline', 'escitalopram', 'fluoxetine',
+  'venlafaxine', 'mirtazapine', 'salbutamol', 'allopurinol', 'paracetamol', 'ibuprofen', 'oxycodone', 'tramadol',
+].join('|');
+
+const MEDICATION_NOUN = String.raw`(?:dose|dosage|doses|medications?|medicines?|meds|insulin|tablets?|pills?|${NAMED_MEDICATIONS})`;
+
+// "Don't skip your tablets" and "try not to stop your medication" are adherence advice
+const NOT_NEGATED = String.raw`(?<!\b(?:don'?t|do not|never|not to|shouldn'?t|should not|won'?t|will not)\s+)`;
+
+const DOSAGE_PATTERNS = [
+  // A change verb acting directly on the medicine: "halve your evening dose", "stop taking your tablets"
+  new RegExp(
+    NOT_NEGATED +
+      String.raw`\b(?:increase|decrease|double|halve|reduce|lower|raise|cut|stop|skip|change|adjust|split)\w*\s+` +
+      String.raw`(?:(?:your|the|my|a|an|this|that|each|every|one|of|taking|using|some|down|back|on|off)\s+){0,3}(?:[\w-]+\s+){0,2}` +
+      MEDICATION_NOUN + String.raw`\b`,
+    'i'
+  ),
+  // Starting, pausing or swapping a named medicine: "you could go off your metformin for a week"
+  new RegExp(
+    NOT_NEGATED +
+      String.raw`\b(?:start|restart|resume|quit|pause|switch|swap|come off|go off|get off|wean off|hold)\w*\s+` +
+      String.raw`(?:(?:your|the|my|a|an|this|that|taking|using|on|off|to|from|back on)\s+){0,3}(?:[\w-]+\s+){0,1}` +
+      String.raw`(?:${NAMED_MEDICATIONS})\b`,
+    'i'
+  ),
+  new RegExp(
+    NOT_NEGATED +
+      String.raw`\b(?:take|taking|try)\s+(?:an? )?(?:extra|more|less|fewer|another|additional|half)\b[^.!?]{0,30}\b(?:dose|tablets?|pills?|units|insulin|medication)\b`,
+    'i'
+  ),
+  /\b\d+(?:\.\d+)?\s?(?:mg|mcg|µg|units|ml|tablets?)\b/i,
+];
+
+// Only a sentence that is nothing but a referral may mention a diagnosis or a
+// medication change: "Ask your GP whether to lower your dose". Naming a
+// clinician anywhere else ("your doctor would want you to double it") does not
+// make the advice safe, nor does a second clause tacked on after the referral.
+const CLINICIAN = String.raw`(?:doctor|GP|pharmacist|care team|nurse|specialist|health ?care (?:provider|professional))`;
+const PURE_REFERRAL = new RegExp(
+  String.raw`^\s*(?:if [^,;]{1,80},\s*)?(?:please\s+)?(?:ask|talk (?:to|with)|speak (?:to|with)|check with|consult|see|contact|call)\s+` +
+    String.raw`(?:your\s+|a\s+|the\s+)?${CLINICIAN}\s+(?:about|whether|if|before|first|for advice)\b[^,;]*$`,
+  'i'
+);
+const EXTRA_CLAUSE = /\b(?:then|and then|meanwhile|in the meantime|but|so)\b/i;
+
+const isPureReferral = (sentence: string) => {
+  const text = sentence.trim().replace(/[.!?\n]+$/, '');
+  return PURE_REFERRAL.test(text) && !EXTRA_CLAUSE.test(text);
+};
+
+const RESTRICTIVE_DIRECTIVE = /\b(?:avoid|limit|reduce|cut (?:down|back) on|no|stop|minimi[sz]e|less|restrict|don'?t|do not)\b\s+(.+)/i;
+const ENCOURAGES = /\b(?:try|have|enjoy|treat yourself|go ahead|fine to|okay to|ok to|more|add|indulge|help yourself)\b/i;
+const DISCOURAGES = /\b(?:skip|stop|avoid|no need|don'?t need|do not need|give up|cut out|forget|take a break from|pause)\b/i;
+
+const STOP_WORDS = new Set([
+  'about', 'after', 'before', 'daily', 'each', 'every', 'from', 'have', 'into', 'least', 'minutes', 'more', 'once',
+  'over', 'than', 'that', 'their', 'them', 'then', 'this', 'times', 'twice', 'week', 'with', 'your', 'yourself',
+]);
+
+const SAFE_FALLBACK =
+  "I'm not able to advise on diagnoses or medication changes. Please talk to your doctor or care team about this, and keep following your care plan in the meantime.";
+const REFERRAL_NOTE = 'For anything about diagnoses or medication, please check with your doctor.';
+const CARE_PLAN_NOTE = 'Please keep following your care plan, and check with your doctor before changing it.';
+
+function noteFor(violations: ResponseViolation[]): string {
+  const clinical = violations.some(v => v.type !== 'cpd_contradiction');
+  const carePlan = violations.some(v => v.type === 'cpd_contradiction');
+  return [clinical && REFERRAL_NOTE, carePlan && CARE_PLAN_NOTE].filter(Boolean).join(' ');
+}
+
+const SENTENCE = /[^.!?\n]+(?:[.!?]+|\n+|$)\s*/g;
+
+const stem = (word: string) => word.toLowerCase().replace(/(?:ing|ed|es|s)$/, '').replace(/e$/, '');
+
+function keyTerms(text: string): string[] {
+  return [...new Set((text.toLowerCase().match(/[a-z]{4,}/g) || []).filter(w => !STOP_WORDS.has(w)).map(stem))];
+}
+
+class SafetyGuardrailService {
+  /**
+   * Pre-generation check on the patient's message.
+   */
+  checkQuery(userQuery: string): CrisisCheck {
+    for (const category of Object.keys(CRISIS_PATTERNS) as CrisisCategory[]) {
+      const matched = CRISIS_PATTERNS[category]
+        .map(pattern => userQuery.match(pattern)?.[0])
+        .filter((m): m is string => !!m);
+      if (matched.length > 0) {
+        return { crisis: true, category, matched };
+      }
+    }
+    return { crisis: false, matched: [] };
+  }
+
+  escalationMessage(category: CrisisCategory): string {
+    return ESCALATION_MESSAGES[category];
+  }
+
+  /**
+   * Classify one sentence of a response; null when it is acceptable.
+   */
+  private classifySentence(sentence: string, directives: DirectiveLike[]): ResponseViolation | null {
+    const referral = isPureReferral(sentence);
+    if (!referral && DIAGNOSIS_PATTERNS.some(p => p.test(sentence))) {
+      return { type: 'diagnosis', sentence: sentence.trim() };
+    }
+    if (!referral && DOSAGE_PATTERNS.some(p => p.test(sentence))) {
+      return { type: 'dosage_change', sentence: sentence.trim() };
+    }
+
+    const sentenceTerms = new Set((sentence.toLowerCase().match(/[a-z]{4,}/g) || []).map(stem));
+    for (const { directive } of directives) {
+      const restriction = directive.match(RESTRICTIVE_DIRECTIVE);
+      // "Avoid sugary drinks" is contradicted by encouraging them; "Walk daily" by discouraging walking
+      const terms = keyTerms(restriction ? restriction[1] : directive);
+      const stance = restriction ? ENCOURAGES : DISCOURAGES;
+      const hits = terms.filter(term => sentenceTerms.has(term)).length;
+      if (terms.length > 0 && hits >= Math.min(terms.length, 2) && stance.test(sentence)) {
+        return { type: 'cpd_contradiction', sentence: sentence.trim(), directive };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Post-generation review. Offending sentences are removed and a referral
+   * note added; if nothing safe remains the whole response is replaced.
+   */
+  reviewResponse(response: string, directives: DirectiveLike[]): ResponseReview {
+    const violations: ResponseViolation[] = [];
+    const kept: string[] = [];
+
+    for (const sentence of response.match(SENTENCE) || []) {
+      const violation = this.classifySentence(sentence, directives);
+      if (violation) {
+        violations.push(violation);
+      } else {
+        kept.push(sentence);
+      }
+    }
+
+    if (violations.length === 0) {
+      return { content: response, violations };
+    }
+    const remaining = kept.join('').trim();
+    return {
+      content: remaining ? `${remaining} ${noteFor(violations)}` : SAFE_FALLBACK,
+      violations,
+    };
+  }
+
+  createStreamReviewer(directives: DirectiveLike[]): ResponseStreamReviewer {
+    const found: ResponseViolation[] = [];
+    let pending = '';
+    let released = false;
+
+    const review = (text: string) => {
+      let out = '';
+      for (const sentence of text.match(SENTENCE) || []) {
+        const violation = this.classifySentence(sentence, directives);
+        if (violation) {
+          found.push(violation);
+        } else {
+          out += sentence;
+        }
+      }
+      if (!released) out = out.trimStart();
+      if (out) released = true;
+      return out;
+    };
+
+    return {
+      push: (text: string) => {
+        pending += text;
+        // Hold the unfinished sentence until its end arrives
+        const lastEnd = Math.max(...['.', '!', '?', '\n'].map(mark => pending.lastIndexOf(mark)));
+        if (lastEnd < 0) return '';
+        const ready = pending.slice(0, lastEnd + 1);
+        pending = pending.slice(lastEnd + 1);
+        return review(ready);
+      },
+      flush: () => {
+        let out = review(pending);
+        pending = '';
+        if (found.length > 0) {
+          out += released ? ` ${noteFor(found)}` : SAFE_FALLBACK;
+        }
+        return out;
+      },
+      violations: () => found,
+    };
+  }
+}
+
+export const safetyGuardrailService = new SafetyGuardrailService();
@@ -0,0 +1,132 @@
+import { db } from '../db';
+import { users, patientScores, PatientScore, ScoreSubmission, ScoreValues } from '../../../shared/schema';
+import { and, asc, eq, gte, lte } from 'drizzle-orm';
+import { HttpError } from '../errors';
+import { DEFAULT_TIMEZONE, daysBetween, isValidIsoDate, localIsoDate, shiftIsoDate } from '../utils/dates';
+
+// How many days back (0 = today only) a patient may still submit or correct scores
+const SCORE_EDIT_WINDOW_DAYS = parseInt(process.env.SCORE_EDIT_WINDOW_DAYS || '0', 10);
+const DEFAULT_HISTORY_DAYS = 30;
+const MAX_HISTORY_DAYS = 366;
+
+/**
+ * Reject dates that do not exist, are in the future, or fall outside the edit window.
+ */
+function assertWritableDate(scoreDate: string, today: string) {
+  if (!isValidIsoDate(scoreDate)) {
+    throw new HttpError(400, 'Invalid score date');
+  }
+  if (scoreDate > today) {
+    throw new HttpError(400, 'Scores cannot be submitted for future dates');
+  }
+  if (scoreDate < shiftIsoDate(today, -SCORE_EDIT_WINDOW_DAYS)) {
+    throw new HttpError(403, SCORE_EDIT_WINDOW_DAYS === 0
+      ? 'Scores can only be submitted or changed on the same day'
+      : `Scores can only be submitted or changed within ${SCORE_EDIT_WINDOW_DAYS} days`);
+  }
+}
+
+function sameValues(score: PatientScore, values: ScoreValues): boolean {
+  return score.dietScore === values.dietScore
+    && score.exerciseScore === values.exerciseScore
+    && score.medicationScore === values.medicationScore;
+}
+
+export const scoreService = {
+  /**
+   * The patient's current calendar date in their own timezone.
+   */
+  async today(patientId: number): Promise<string> {
+    const [patient] = await db.select({ timezone: users.timezone }).from(users).where(eq(users.id, patientId));
+    return localIsoDate(patient?.timezone || DEFAULT_TIMEZONE);
+  },
+
+  /**
+   * Record one day's scores. Re-sending identical values is a no-op that
+   * returns the stored entry; different values for a recorded day are a 409.
+   */
+  async submit(patientId: number, submission: ScoreSubmission): Promise<{ score: PatientScore; created: boolean }> {
+    const today = await this.today(patientId);
+    const scoreDate = submission.scoreDate || today;
+    assertWritableDate(scoreDate, today);
+
+    const values = {
+      dietScore: submission.dietScore,
+      exerciseScore: submission.exerciseScore,
+      medicationScore: submission.medicationScore,
+    };
+
+    const [inserted] = await db
+      .insert(patientScores)
+      .values({ patientId, scoreDate, ...values })
+      .onConflictDoNothing({ target: [patientScores.patientId, patientScores.scoreDate] })
+      .returning();
+
+    if (inserted) {
+      return { score: inserted, created: true };
+    }
+
+    const existing = await this.getByDate(patientId, scoreDate);
+    if (existing && sameValues(existing, values)) {
+      return { score: existing, created: false };
+    }
+
+    throw new HttpError(409, `Scores for ${scoreDate} have already been submitted`, { scoreDate, existing });
+  },
+
+  /**
+   * Correct an existing entry while it is still inside the edit window.
+   */
+  async update(patientId: number, scoreDate: string, values: ScoreValues): Promise<PatientScore> {
+    assertWritableDate(scoreDate, await this.today(patientId));
+
+    const [updated] = await db
+      .update(patientScores)
+      .set({ ...values, updatedAt: new Date() })
+      .where(and(eq(patientScores.patientId, patientId), eq(patientScores.scoreDate, scoreDate)))
+      .returning();
+
+    if (!updated) {
+      throw new HttpError(404, `No scores recorded for ${scoreDate}`);
+    }
+    return updated;
+  },
+
+  async getByDate(patientId: number, scoreDate: string): Promise<PatientScore | undefined> {
+    const [score] = await db
+      .select()
+      .from(patientScores)
+      .where(and(eq(patientScores.patientId, patientId), eq(patientScores.scoreDate, scoreDate)));
+    return score;
+  },
+
+  /**
+   * Score series for an inclusive date range, oldest first. Defaults to the last 30 days.
+   */
+  async history(patientId: number, range: { from?: string; to?: string }): Promise<{ from: string; to: string; scores: PatientScore[] }> {
+    const to = range.to || await this.today(patientId);
+    const from = range.from || shiftIsoDate(to, -(DEFAULT_HISTORY_DAYS - 1));
+
+    if (!isValidIsoDate(from) || !isValidIsoDate(to)) {
+      throw new HttpError(400, 'Invalid date range');
+    }
+    if (from > to) {
+      throw new HttpError(400, "'from' must not be after 'to'");
+    }
+    if (daysBetween(from, to) > MAX_HISTORY_DAYS) {
+      throw new HttpError(400, `Date range cannot exceed ${MAX_HISTORY_DAYS} days`);
+    }
+
+    const scores = await db
+      .select()
+      .from(patientScores)
+      .where(and(
+        eq(patientScores.patientId, patientId),
+        gte(patientScores.scoreDate, from),
+        lte(patientScores.scoreDate, to)
+      ))
+      .orderBy(asc(patientScores.scoreDate));
+
+    return { from, to, scores };
+  },
+};
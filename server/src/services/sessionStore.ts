@@ -0,0 +1,97 @@
+import { Request } from 'express';
+import session from 'express-session';
+import { db } from '../db';
+import { userSessions, UserSession } from '../../../shared/schema';
+import { and, eq, gt, lte, ne } from 'drizzle-orm';
+
+// Fallback lifetime for sessions saved without a cookie expiry
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Sessions express-session rebuilt from a stored row, as opposed to new ones
+const loadedSessions = new WeakSet<object>();
+
+/**
+ * express-session store backed by the user_sessions table, so sign-ins survive
+ * restarts and are shared by every server process. Rows only move forward in
+ * time when the session is saved (touch is deliberately not implemented), so
+ * a row's expiry is the idle deadline set by the last real activity.
+ */
+class PgSessionStore extends session.Store {
+  createSession(req: Request, data: session.SessionData): session.Session & session.SessionData {
+    const loaded = super.createSession(req, data);
+    loadedSessions.add(loaded);
+    return loaded;
+  }
+
+  get(sid: string, callback: (err: unknown, session?: session.SessionData | null) => void): void {
+    db
+      .select({ data: userSessions.data })
+      .from(userSessions)
+      .where(and(eq(userSessions.sid, sid), gt(userSessions.expiresAt, new Date())))
+      .then(([row]) => callback(null, row ? (row.data as unknown as session.SessionData) : null))
+      .catch(callback);
+  }
+
+  /**
+   * Persist a session. Only sessions that have never been stored are inserted;
+   * one loaded from the store is only ever updated, so a request still in
+   * flight when the session was destroyed (sign-out elsewhere, deactivation)
+   * cannot bring it back when it saves.
+   */
+  set(sid: string, data: session.SessionData, callback?: (err?: unknown) => void): void {
+    const expiresAt = data.cookie.expires ? new Date(data.cookie.expires) : new Date(Date.now() + DEFAULT_TTL_MS);
+    const values = {
+      userId: data.userId ?? null,
+      data: JSON.parse(JSON.stringify(data)) as Record<string, unknown>,
+      expiresAt,
+      updatedAt: new Date(),
+    };
+    const write = loadedSessions.has(data)
+      ? db.update(userSessions).set(values).where(eq(userSessions.sid, sid))
+      : db.insert(userSessions).values({ sid, ...values }).onConflictDoNothing({ target: userSessions.sid });
+    write
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: unknown) => void): void {
+    db
+      .delete(userSessions)
+      .where(eq(userSessions.sid, sid))
+      .then(() => callback?.())
+      .catch((error) => callback?.(error));
+  }
+
+  /**
+   * The user's unexpired sessions, most recently saved first.
+   */
+  async listForUser(userId: number): Promise<UserSession[]> {
+    const rows = await db
+      .select()
+      .from(userSessions)
+      .where(and(eq(userSessions.userId, userId), gt(userSessions.expiresAt, new Date())));
+    return rows.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  }
+
+  /**
+   * Sign the user out everywhere, or everywhere but `exceptSid`. Returns the
+   * removed session IDs so open sockets can be closed.
+   */
+  async destroyForUser(userId: number, exceptSid?: string): Promise<string[]> {
+    const removed = await db
+      .delete(userSessions)
+      .where(and(eq(userSessions.userId, userId), exceptSid ? ne(userSessions.sid, exceptSid) : undefined))
+      .returning({ sid: userSessions.sid });
+    return removed.map(row => row.sid);
+  }
+
+  async pruneExpired(now = new Date()): Promise<string[]> {
+    const removed = await db
+      .delete(userSessions)
+      .where(lte(userSessions.expiresAt, now))
+      .returning({ sid: userSessions.sid });
+    return removed.map(row => row.sid);
+  }
+}
+
+export const sessionStore = new PgSessionStore();
@@ -1,33 +1,117 @@
-import twilio from 'twilio';
+import { db } from '../db';
+import { smsMessages, SmsMessage } from '../../../shared/schema';
+import { desc, eq } from 'drizzle-orm';
+import { createSmsTransport, SmsTransport } from './smsTransports';
 
-const accountSid = process.env.TWILIO_ACCOUNT_SID;
-const authToken = process.env.TWILIO_AUTH_TOKEN;
-const twilioPhoneNumber = process.env.TWILIO_PHONE_NUMBER;
+const SMS_TEMPLATES = {
+  verification_code: (params: { code: string }) =>
+    `Your Keep Going Care verification code is: ${params.code}`,
+  nudge: (params: { message: string }) =>
+    `Keep Going Care: ${params.message}`,
+  deletion_code: (params: { code: string }) =>
+    `Your Keep Going Care account deletion code is: ${params.code}. If you did not ask to delete your account, ignore this message.`,
+};
 
-if (!accountSid || !authToken || !twilioPhoneNumber) {
-  console.error("Twilio environment variables are not set!");
+type SmsTemplate = keyof typeof SMS_TEMPLATES;
+
+let transport: SmsTransport | null = null;
+
+function getTransport(): SmsTransport {
+  if (!transport) {
+    transport = createSmsTransport();
+    console.log(`[SMS] Using ${transport.name} transport`);
+  }
+  return transport;
 }
 
-// @ts-ignore - Twilio types can be complex, this is safe for our use case
-const client = twilio(accountSid, authToken);
+// Map Twilio's MessageStatus values onto the statuses we track
+function mapProviderStatus(providerStatus: string): SmsMessage['status'] | null {
+  switch (providerStatus) {
+    case 'delivered':
+      return 'delivered';
+    case 'failed':
+    case 'undelivered':
+      return 'failed';
+    case 'queued':
+    case 'sending':
+    case 'sent':
+      return 'sent';
+    default:
+      return null;
+  }
+}
 
 export const smsService = {
-  async sendVerificationCode(phoneNumber: string, code: string) {
-    if (!accountSid || !authToken || !twilioPhoneNumber) {
-      throw new Error('SMS service is not configured on the server.');
-    }
+  get transportName(): string {
+    return getTransport().name;
+  },
+
+  /**
+   * Render a template, send it through the configured transport and record
+   * the outcome in sms_messages. Never throws on delivery failure.
+   */
+  async send<T extends SmsTemplate>(
+    recipient: string,
+    template: T,
+    params: Parameters<(typeof SMS_TEMPLATES)[T]>[0],
+    userId?: number
+  ): Promise<{ success: boolean; messageId: number; error?: string }> {
+    const activeTransport = getTransport();
+    const [record] = await db
+      .insert(smsMessages)
+      .values({ userId, recipient, template, transport: activeTransport.name })
+      .returning({ id: smsMessages.id });
 
     try {
-      const message = await client.messages.create({
-        body: `Your Keep Going Care verification code is: ${code}`,
-        from: twilioPhoneNumber,
-        to: phoneNumber,
-      });
-      console.log(`SMS sent successfully to ${phoneNumber}, SID: ${message.sid}`);
-      return { success: true };
+      const render = SMS_TEMPLATES[template] as (templateParams: typeof params) => string;
+      const body = render(params);
+      const { providerSid } = await activeTransport.send(recipient, body);
+      await db
+        .update(smsMessages)
+        .set({ status: 'sent', providerSid, updatedAt: new Date() })
+        .where(eq(smsMessages.id, record.id));
+      return { success: true, messageId: record.id };
     } catch (error) {
-      console.error(`Failed to send SMS to ${phoneNumber}:`, error);
-      throw new Error('Failed to send verification code via SMS.');
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[SMS] Failed to send ${template} message ${record.id}:`, errorMessage);
+      await db
+        .update(smsMessages)
+        .set({ status: 'failed', error: errorMessage, updatedAt: new Date() })
+        .where(eq(smsMessages.id, record.id));
+      return { success: false, messageId: record.id, error: errorMessage };
     }
   },
-};
\ No newline at end of file
+
+  async sendVerificationCode(phoneNumber: string, code: string, userId?: number) {
+    return this.send(phoneNumber, 'verification_code', { code }, userId);
+  },
+
+  /**
+   * Apply a provider delivery callback to the matching message row.
+   */
+  async updateDeliveryStatus(providerSid: string, providerStatus: string, errorCode?: string): Promise<boolean> {
+    const status = mapProviderStatus(providerStatus);
+    if (!status) return false;
+
+    const updated = await db
+      .update(smsMessages)
+      .set({
+        status,
+        error: status === 'failed' ? `Provider reported ${providerStatus}${errorCode ? ` (${errorCode})` : ''}` : null,
+        updatedAt: new Date(),
+      })
+      .where(eq(smsMessages.providerSid, providerSid))
+      .returning({ id: smsMessages.id });
+
+    return updated.length > 0;
+  },
+
+  async listRecent(limit = 50, status?: SmsMessage['status']): Promise<SmsMessage[]> {
+    return db
+      .select()
+      .from(smsMessages)
+      .where(status ? eq(smsMessages.status, status) : undefined)
+      .orderBy(desc(smsMessages.createdAt))
+      .limit(limit);
+  },
+};
@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import twilio from 'twilio';
+
+export interface SmsSendResult {
+  providerSid: string | null;
+}
+
+export interface SmsTransport {
+  readonly name: string;
+  /** Send a message; throws if the provider rejects it. */
+  send(to: string, body: string): Promise<SmsSendResult>;
+}
+
+/**
+ * Twilio REST transport. The client is only constructed once a transport is
+ * selected, so missing credentials never break server start-up.
+ */
+export class TwilioSmsTransport implements SmsTransport {
+  readonly name = 'twilio';
+  private client: twilio.Twilio;
+
+  constructor(accountSid: string, authToken: string, private fromNumber: string, private statusCallback?: string) {
+    this.client = twilio(accountSid, authToken);
+  }
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const message = await this.client.messages.create({
+      body,
+      from: this.fromNumber,
+      to,
+      ...(this.statusCallback ? { statusCallback: this.statusCallback } : {}),
+    });
+    return { providerSid: message.sid };
+  }
+}
+
+/**
+ * Development transport: prints the message to the server log.
+ */
+export class ConsoleSmsTransport implements SmsTransport {
+  readonly name = 'console';
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    console.log(`[SMS:console] To ${to}: ${body}`);
+    return { providerSid: null };
+  }
+}
+
+/**
+ * Writes each message as a JSON file so tests can read back what was sent
+ * without any network access.
+ */
+export class OutboxSmsTransport implements SmsTransport {
+  readonly name = 'outbox';
+
+  constructor(private directory: string) {}
+
+  async send(to: string, body: string): Promise<SmsSendResult> {
+    const providerSid = `outbox-${randomUUID()}`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      path.join(this.directory, `${Date.now()}-${providerSid}.json`),
+      JSON.stringify({ sid: providerSid, to, body, sentAt: new Date().toISOString() }, null, 2)
+    );
+    return { providerSid };
+  }
+}
+
+/**
+ * Pick a transport from SMS_TRANSPORT (twilio | console | outbox). When unset,
+ * Twilio is used if fully configured and the console transport otherwise,
+ * except in production, where it must be set: sign-in codes silently going to
+ * the log instead of patients' phones is not a fallback.
+ */
+export function createSmsTransport(env: NodeJS.ProcessEnv = process.env): SmsTransport {
+  const { TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_PHONE_NUMBER, TWILIO_STATUS_CALLBACK_URL } = env;
+  const twilioConfigured = !!(TWILIO_ACCOUNT_SID && TWILIO_AUTH_TOKEN && TWILIO_PHONE_NUMBER);
+  if (env.NODE_ENV === 'production' && !env.SMS_TRANSPORT) {
+    throw new Error('SMS_TRANSPORT must be set in production (twilio, console or outbox).');
+  }
+  const selected = env.SMS_TRANSPORT || (twilioConfigured ? 'twilio' : 'console');
+
+  switch (selected) {
+    case 'twilio':
+      if (!twilioConfigured) {
+        throw new Error('SMS_TRANSPORT=twilio but Twilio environment variables are not set.');
+      }
+      return new TwilioSmsTransport(TWILIO_ACCOUNT_SID!, TWILIO_AUTH_TOKEN!, TWILIO_PHONE_NUMBER!, TWILIO_STATUS_CALLBACK_URL);
+    case 'outbox':
+      return new OutboxSmsTransport(env.SMS_OUTBOX_DIR || path.join(process.cwd(), 'sms-outbox'));
+    case 'console':
+      return new ConsoleSmsTransport();
+    default:
+      throw new Error(`Unknown SMS_TRANSPORT '${selected}'. Expected twilio, console or outbox.`);
+  }
+}
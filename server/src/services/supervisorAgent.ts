@@ -1,6 +1,12 @@
-import OpenAI from 'openai';
-import Anthropic from '@anthropic-ai/sdk';
-import { aiContextService } from './aiContextService';
+import { aiContextService, PatientContext } from './aiContextService';
+import { phiDeidentificationService, PhiIdentifiers, PhiRedactionReport } from './phiDeidentificationService';
+import { llmService } from './llmService';
+import { safetyGuardrailService, CrisisCheck, ResponseViolation } from './safetyGuardrailService';
+import { careTeamService } from './careTeamService';
+import { describeTrends } from './trendService';
+import { notificationService } from './notificationService';
+import type { LlmUseCase } from './llmProviders';
+import type { ChatTurn } from '../../../shared/schema';
 
 // System prompts for the KGC Health Assistant
 const SUPERVISOR_AGENT_SYSTEM_PROMPT = `
@@ -35,127 +41,135 @@ RESPONSE FORMAT:
 - Avoid medical diagnosis or specific medical advice
 `;
 
+// System prompt for clinician-facing Patient Progress Reports
+const PPR_SYSTEM_PROMPT = `
+You are a clinical data analyst preparing Patient Progress Reports (PPR) for the KGC Health Assistant, a Class I SaMD. Your readers are the patient's treating doctors.
+
+Summarise the self-reported data you are given accurately and conservatively:
+- Only describe what the data shows; never invent values or events
+- Do not diagnose or recommend medication changes
+- Flag gaps in data and low adherence plainly so the doctor can follow up
+- Write in Markdown with clear headings
+`;
+
+// Added to the assistant prompt for scheduled nudges, which arrive unprompted and may go out by SMS
+const NUDGE_INSTRUCTIONS = `
+You are writing a short, unprompted check-in message for the patient.
+- One or two sentences, under 300 characters, no greeting or sign-off
+- Speak to the specific reason given, kindly and without blame
+- Never mention scores the patient has not been told about elsewhere
+`;
+
+const AI_UNAVAILABLE_MESSAGE = 'I apologize, but I\'m having trouble responding right now. Please try again later, and remember that I\'m here to support your health journey.';
+
+const NO_CONTEXT_MESSAGE = "I don't have access to your health data right now. Please try submitting your daily scores to get started, and I'll be able to provide personalized guidance.";
+
+export interface NudgeRequest {
+  rule: string;
+  reason: string;
+  /** Used as-is when no model is available or its text fails review */
+  fallback: string;
+}
+
+export interface AICompletion {
+  content: string;
+  model: string;
+  provider: string;
+  phiReport?: PhiRedactionReport;
+}
+
 // Security helper for sensitive logging
 function secureLog(message: string, data?: any) {
   console.log(`[Supervisor Agent] ${message}`, data ? { ...data, keys: Object.keys(data) } : '');
 }
 
 class SupervisorAgentService {
-  private openai: OpenAI | null = null;
-  private anthropic: Anthropic | null = null;
-
-  constructor() {
-    this.initializeClients();
-  }
-
-  private initializeClients() {
-    try {
-      if (process.env.OPENAI_API_KEY) {
-        this.openai = new OpenAI({
-          apiKey: process.env.OPENAI_API_KEY,
-        });
-        secureLog('OpenAI client initialized successfully');
-      }
-
-      if (process.env.ANTHROPIC_API_KEY) {
-        this.anthropic = new Anthropic({
-          apiKey: process.env.ANTHROPIC_API_KEY,
-        });
-        secureLog('Anthropic client initialized successfully');
-      }
-
-      if (!this.openai && !this.anthropic) {
-        console.warn('[Supervisor Agent] No AI service clients available. Please check API keys.');
-      }
-    } catch (error) {
-      console.error('[Supervisor Agent] Error initializing AI clients:', error);
-    }
+  /**
+   * Tokenise the prompt and prior turns with one shared token map.
+   */
+  private tokeniseConversation(prompt: string, history: ChatTurn[], identifiers: PhiIdentifiers) {
+    const deidentified = phiDeidentificationService.deidentifyAll(
+      [prompt, ...history.map(turn => turn.content)],
+      identifiers
+    );
+    const [tokenisedPrompt, ...tokenisedHistory] = deidentified.contents;
+    return {
+      prompt: tokenisedPrompt,
+      history: history.map((turn, i) => ({ role: turn.role, content: tokenisedHistory[i] })),
+      tokenMap: deidentified.tokenMap,
+      redactions: deidentified.redactions
+    };
   }
 
   /**
-   * Generate AI response using OpenAI
+   * Tokenise PHI out of the prompt, call the model, then redact anything
+   * PHI-like the model produced and restore our tokens in its answer.
    */
-  private async generateWithOpenAI(prompt: string): Promise<string> {
-    if (!this.openai) {
-      throw new Error('OpenAI client not available');
-    }
-
-    const response = await this.openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        { role: 'system', content: SUPERVISOR_AGENT_SYSTEM_PROMPT },
-        { role: 'user', content: prompt }
-      ],
-      max_tokens: 500,
-      temperature: 0.7
+  private async complete(
+    useCase: LlmUseCase,
+    prompt: string,
+    systemPrompt: string = SUPERVISOR_AGENT_SYSTEM_PROMPT,
+    identifiers: PhiIdentifiers = {},
+    history: ChatTurn[] = []
+  ): Promise<AICompletion> {
+    const deidentified = this.tokeniseConversation(prompt, history, identifiers);
+    const completion = await llmService.complete(useCase, {
+      systemPrompt,
+      prompt: deidentified.prompt,
+      history: deidentified.history
     });
 
-    return response.choices[0].message.content || 'I apologize, but I cannot respond right now. Please try again.';
-  }
+    const scanned = phiDeidentificationService.scanResponse(completion.content);
+    const restored = phiDeidentificationService.reidentify(scanned.content, deidentified.tokenMap);
 
-  /**
-   * Generate AI response using Anthropic Claude
-   */
-  private async generateWithAnthropic(prompt: string): Promise<string> {
-    if (!this.anthropic) {
-      throw new Error('Anthropic client not available');
+    const phiReport: PhiRedactionReport = {
+      redactions: deidentified.redactions,
+      responseFindings: scanned.findings,
+      tokensRestored: restored.tokensRestored
+    };
+    if (Object.keys(scanned.findings).length > 0) {
+      secureLog('Redacted PHI-like content from model response', { findings: scanned.findings });
     }
 
-    const response = await this.anthropic.messages.create({
-      model: 'claude-3-sonnet-20240229',
-      max_tokens: 500,
-      system: SUPERVISOR_AGENT_SYSTEM_PROMPT,
-      messages: [
-        { role: 'user', content: prompt }
-      ]
-    });
-
-    const content = response.content[0];
-    return content.type === 'text' ? content.text : 'I apologize, but I cannot respond right now. Please try again.';
+    return { content: restored.content, model: completion.model, provider: completion.provider, phiReport };
   }
 
   /**
-   * Generate analysis using preferred AI service with fallback
+   * Generate analysis through the use case's provider chain
    */
-  async generateAnalysis(prompt: string, preferredService: 'openai' | 'anthropic' = 'openai'): Promise<string> {
+  async generateAnalysis(
+    prompt: string,
+    useCase: LlmUseCase = 'chat',
+    identifiers: PhiIdentifiers = {}
+  ): Promise<string> {
     try {
-      if (preferredService === 'openai' && this.openai) {
-        return await this.generateWithOpenAI(prompt);
-      } else if (this.anthropic) {
-        return await this.generateWithAnthropic(prompt);
-      } else if (this.openai) {
-        return await this.generateWithOpenAI(prompt);
-      } else {
-        throw new Error('No AI service available');
-      }
+      const { content } = await this.complete(useCase, prompt, SUPERVISOR_AGENT_SYSTEM_PROMPT, identifiers);
+      return content;
     } catch (error) {
       console.error('[Supervisor Agent] Error in generateAnalysis:', error);
-      return 'I apologize, but I\'m having trouble responding right now. Please try again later, and remember that I\'m here to support your health journey.';
+      return AI_UNAVAILABLE_MESSAGE;
     }
   }
 
   /**
-   * Process patient query using MCP framework
+   * Generate a clinician-facing Patient Progress Report. Unlike chat, failures
+   * propagate so no placeholder text is ever stored as a report.
    */
-  async processQuery(patientId: number, userQuery: string): Promise<string> {
-    secureLog('Processing patient query', { patientId, queryLength: userQuery.length });
-    
-    try {
-      // Step 1: Prepare MCP context bundle
-      const mcpBundle = await aiContextService.prepareContext(patientId);
-      
-      if (!mcpBundle) {
-        return "I don't have access to your health data right now. Please try submitting your daily scores to get started, and I'll be able to provide personalized guidance.";
-      }
+  async generateProgressReport(prompt: string, identifiers: PhiIdentifiers = {}): Promise<AICompletion> {
+    return this.complete('ppr', prompt, PPR_SYSTEM_PROMPT, identifiers);
+  }
 
-      // Step 2: Create contextualized prompt
-      const contextualPrompt = `
+  private buildChatPrompt(mcpBundle: PatientContext, userQuery: string): string {
+    return `
 PATIENT CONTEXT (MCP Bundle):
 Name: ${mcpBundle.name}
 Recent Activity: ${mcpBundle.recentScores.length} health scores in last 14 days
 Achievements: ${mcpBundle.badges.length} badges earned
 Health Trends: Diet=${mcpBundle.trends.dietTrend}, Exercise=${mcpBundle.trends.exerciseTrend}, Medication=${mcpBundle.trends.medicationTrend}
 
+TREND ANALYSIS (${mcpBundle.trendAnalysis.from} to ${mcpBundle.trendAnalysis.to}):
+${describeTrends(mcpBundle.trendAnalysis)}
+
 RECENT HEALTH SCORES:
 ${mcpBundle.recentScores.slice(0, 5).map(s => 
   `${s.scoreDate}: Diet=${s.dietScore}, Exercise=${s.exerciseScore}, Medication=${s.medicationScore}`
@@ -176,16 +190,71 @@ Provide a personalized, encouraging response that:
 4. Stays positive and motivational
 5. Keeps response conversational (2-4 sentences)
 `;
+  }
+
+  private chatIdentifiers(mcpBundle: PatientContext): PhiIdentifiers {
+    return {
+      name: mcpBundle.name,
+      email: mcpBundle.email,
+      phoneNumber: mcpBundle.phoneNumber,
+      referenceDate: mcpBundle.localDate
+    };
+  }
+
+  /**
+   * Process patient query using MCP framework. Earlier turns of the
+   * conversation are sent as real chat history ahead of the new query.
+   */
+  async processQuery(patientId: number, userQuery: string, history: ChatTurn[] = []): Promise<string> {
+    secureLog('Processing patient query', { patientId, queryLength: userQuery.length });
+    
+    try {
+      // Step 0: Crisis language never reaches the model
+      const crisis = safetyGuardrailService.checkQuery(userQuery);
+      if (crisis.crisis) {
+        return this.escalate(patientId, userQuery, crisis);
+      }
+
+      // Step 1: Prepare MCP context bundle
+      const mcpBundle = await aiContextService.prepareContext(patientId);
+      
+      if (!mcpBundle) {
+        return NO_CONTEXT_MESSAGE;
+      }
+
+      // Step 2: Create contextualized prompt
+      const contextualPrompt = this.buildChatPrompt(mcpBundle, userQuery);
+
+      // Step 3: Generate response using preferred AI service, with the patient's identifiers tokenised
+      let response: string;
+      let phiReport: PhiRedactionReport | undefined;
+      try {
+        ({ content: response, phiReport } = await this.complete(
+          'chat',
+          contextualPrompt,
+          SUPERVISOR_AGENT_SYSTEM_PROMPT,
+          this.chatIdentifiers(mcpBundle),
+          history
+        ));
+      } catch (error) {
+        console.error('[Supervisor Agent] Error generating chat response:', error);
+        response = AI_UNAVAILABLE_MESSAGE;
+      }
 
-      // Step 3: Generate response using preferred AI service
-      const response = await this.generateAnalysis(contextualPrompt);
+      // Step 4: Check the response for diagnosis, dosage changes and CPD contradictions
+      const review = safetyGuardrailService.reviewResponse(response, mcpBundle.carePlanDirectives);
+      if (review.violations.length > 0) {
+        await this.logIntervention(patientId, userQuery, review.violations, response, review.content);
+        response = review.content;
+      }
 
-      // Step 4: Log interaction for learning and audit
+      // Step 5: Log interaction for learning and audit
       await aiContextService.logInteraction(
         patientId,
         'chat_query',
-        { query: userQuery, mcpBundle: mcpBundle },
-        response
+        { query: userQuery, historyTurns: history.length, mcpBundle: mcpBundle },
+        response,
+        phiReport
       );
 
       secureLog('Query processed successfully', { 
@@ -203,6 +272,196 @@ Provide a personalized, encouraging response that:
     }
   }
 
+  /**
+   * Streaming variant of processQuery. Filtered text is passed to onDelta as
+   * it becomes safe to show; the full response is returned at the end.
+   * Aborting the signal stops the model and rejects without logging.
+   */
+  async processQueryStream(
+    patientId: number,
+    userQuery: string,
+    history: ChatTurn[],
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    secureLog('Streaming patient query', { patientId, queryLength: userQuery.length });
+
+    const crisis = safetyGuardrailService.checkQuery(userQuery);
+    if (crisis.crisis) {
+      const message = await this.escalate(patientId, userQuery, crisis);
+      onDelta(message);
+      return message;
+    }
+
+    const mcpBundle = await aiContextService.prepareContext(patientId);
+    if (!mcpBundle) {
+      onDelta(NO_CONTEXT_MESSAGE);
+      return NO_CONTEXT_MESSAGE;
+    }
+
+    const deidentified = this.tokeniseConversation(
+      this.buildChatPrompt(mcpBundle, userQuery),
+      history,
+      this.chatIdentifiers(mcpBundle)
+    );
+    const filter = phiDeidentificationService.createStreamFilter(deidentified.tokenMap);
+    const reviewer = safetyGuardrailService.createStreamReviewer(mcpBundle.carePlanDirectives);
+
+    // Model text passes the PHI filter, then the guardrails, before the patient sees it
+    let unreviewed = '';
+    let response = '';
+    const emit = (text: string) => {
+      if (!text) return;
+      response += text;
+      onDelta(text);
+    };
+    const review = (text: string) => {
+      unreviewed += text;
+      emit(reviewer.push(text));
+    };
+
+    try {
+      const { deltas } = await llmService.stream('chat', {
+        systemPrompt: SUPERVISOR_AGENT_SYSTEM_PROMPT,
+        prompt: deidentified.prompt,
+        history: deidentified.history,
+        signal
+      });
+      for await (const delta of deltas) {
+        review(filter.push(delta));
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.error('[Supervisor Agent] Error streaming chat response:', error);
+      // Anything already shown stays; only fall back when nothing arrived
+    }
+    review(filter.flush());
+    emit(reviewer.flush());
+
+    if (!response) {
+      emit(AI_UNAVAILABLE_MESSAGE);
+    }
+
+    if (reviewer.violations().length > 0) {
+      await this.logIntervention(patientId, userQuery, reviewer.violations(), unreviewed, response);
+    }
+
+    const phiReport: PhiRedactionReport = { redactions: deidentified.redactions, ...filter.report() };
+    await aiContextService.logInteraction(
+      patientId,
+      'chat_query',
+      { query: userQuery, historyTurns: history.length, streamed: true, mcpBundle: mcpBundle },
+      response,
+      phiReport
+    );
+
+    secureLog('Streamed query processed successfully', { patientId, responseLength: response.length });
+    return response;
+  }
+
+  /**
+   * Answer crisis messages with a fixed escalation and flag the event to
+   * every assigned doctor. The model is never called.
+   */
+  private async escalate(patientId: number, userQuery: string, crisis: CrisisCheck): Promise<string> {
+    const message = safetyGuardrailService.escalationMessage(crisis.category!);
+
+    let doctorIds: number[] = [];
+    try {
+      doctorIds = await careTeamService.getAssignedDoctorIds(patientId);
+    } catch (error) {
+      console.error('[Supervisor Agent] Could not look up care team for escalation:', error);
+    }
+    secureLog('Crisis language detected; escalating to care team', {
+      patientId,
+      category: crisis.category,
+      doctorsFlagged: doctorIds.length
+    });
+
+    // One flag per assigned doctor; unassigned patients still get an audit row
+    for (const doctorId of doctorIds.length > 0 ? doctorIds : [null]) {
+      await aiContextService.logInteraction(
+        patientId,
+        'safety_escalation',
+        { query: userQuery, category: crisis.category, matched: crisis.matched },
+        message,
+        undefined,
+        doctorId
+      );
+    }
+
+    try {
+      const doctorUserIds = await careTeamService.getAssignedDoctorUserIds(patientId);
+      await notificationService.publishMany(doctorUserIds, {
+        type: 'safety_escalation',
+        title: 'Safety escalation',
+        body: `A patient's message was flagged as a possible ${crisis.category === 'self_harm' ? 'self-harm risk' : 'medical emergency'}. Please review their safety events.`,
+        data: { patientId, category: crisis.category },
+      });
+    } catch (error) {
+      console.error('[Supervisor Agent] Could not notify care team of escalation:', error);
+    }
+    return message;
+  }
+
+  private async logIntervention(
+    patientId: number,
+    userQuery: string,
+    violations: ResponseViolation[],
+    originalResponse: string,
+    deliveredResponse: string
+  ): Promise<void> {
+    secureLog('Guardrails modified a response', { patientId, violations: violations.map(v => v.type) });
+    await aiContextService.logInteraction(
+      patientId,
+      'safety_intervention',
+      { query: userQuery, violations, deliveredResponse },
+      originalResponse
+    );
+  }
+
+  /**
+   * Write a proactive nudge for a patient flagged by the engagement scheduler.
+   * The model's text must pass the same guardrails as chat; otherwise the
+   * rule's own wording is sent.
+   */
+  async generateNudge(mcpBundle: PatientContext, nudge: NudgeRequest): Promise<string> {
+    const prompt = `
+TRIGGER: ${nudge.rule}
+REASON: ${nudge.reason}
+
+PATIENT CONTEXT (MCP Bundle):
+Name: ${mcpBundle.name}
+Days since last check-in: ${mcpBundle.daysSinceLastActivity ?? 'never checked in'}
+
+TREND ANALYSIS (${mcpBundle.trendAnalysis.from} to ${mcpBundle.trendAnalysis.to}):
+${describeTrends(mcpBundle.trendAnalysis)}
+
+CARE PLAN DIRECTIVES (CPDs):
+${mcpBundle.carePlanDirectives.map(cpd => `- ${cpd.directive}`).join('\n') || 'None'}
+`;
+
+    try {
+      const completion = await this.complete('proactive', prompt, SUPERVISOR_AGENT_SYSTEM_PROMPT + NUDGE_INSTRUCTIONS, this.chatIdentifiers(mcpBundle));
+      const review = safetyGuardrailService.reviewResponse(completion.content, mcpBundle.carePlanDirectives);
+      const message = review.violations.length > 0 ? nudge.fallback : completion.content.trim();
+
+      await aiContextService.logInteraction(
+        mcpBundle.id,
+        'proactive_nudge',
+        { rule: nudge.rule, reason: nudge.reason, violations: review.violations, delivered: message },
+        completion.content,
+        completion.phiReport
+      );
+      return message;
+    } catch (error) {
+      console.error('[Supervisor Agent] Error generating nudge, using rule text:', error);
+      return nudge.fallback;
+    }
+  }
+
   /**
    * Generate proactive suggestions based on MCP analysis
    */
@@ -0,0 +1,202 @@
+import type { PatientScore } from '../../../shared/schema';
+import { daysBetween, shiftIsoDate } from '../utils/dates';
+import { scoreService } from './scoreService';
+
+export type TrendDirection = 'improving' | 'stable' | 'declining';
+export type TrendConfidence = 'low' | 'medium' | 'high';
+export type TrendMetric = 'diet' | 'exercise' | 'medication';
+
+/** Default analysis window, in calendar days ending today */
+export const TREND_WINDOW_DAYS = parseInt(process.env.TREND_WINDOW_DAYS || '14', 10);
+// Smallest fitted change across the whole window that counts as a trend, in score points
+const TREND_MIN_CHANGE = parseFloat(process.env.TREND_MIN_CHANGE || '1');
+
+const MIN_POINTS = 4;
+
+// The original programme's streak rules: 3+ days at or below 6, or 5+ days at or above 8
+const NEGATIVE_STREAK = { max: 6, minDays: 3 };
+const POSITIVE_STREAK = { min: 8, minDays: 5 };
+
+/** The parts of a score row the analysis reads */
+export type TrendScore = Pick<PatientScore, 'scoreDate' | 'dietScore' | 'exerciseScore' | 'medicationScore'>;
+
+const METRIC_COLUMNS: Record<TrendMetric, 'dietScore' | 'exerciseScore' | 'medicationScore'> = {
+  diet: 'dietScore',
+  exercise: 'exerciseScore',
+  medication: 'medicationScore',
+};
+
+export interface ScoreStreak {
+  type: 'positive' | 'negative';
+  days: number;
+  since: string;
+}
+
+export interface MetricTrend {
+  direction: TrendDirection;
+  /** Fitted change in score points per day; null with too few scores */
+  slope: number | null;
+  confidence: TrendConfidence;
+  latest: number | null;
+  average: number | null;
+  streak: ScoreStreak | null;
+}
+
+export interface TrendAnalysis {
+  from: string;
+  to: string;
+  windowDays: number;
+  coverage: {
+    daysWithScores: number;
+    /** Share of the window's days with a submission, 0-1 */
+    ratio: number;
+    /** Longest run of days without a submission, including up to today */
+    longestGapDays: number;
+  };
+  metrics: Record<TrendMetric, MetricTrend>;
+}
+
+type Point = { date: string; value: number };
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+/**
+ * Weighted least-squares slope of score against date. Recent days weigh more
+ * (half-life of half the window), so a change in direction shows up quickly.
+ * Confidence comes from the slope's t-statistic, using the effective sample
+ * size of the weights, and is capped by how much of the window has data.
+ */
+function fitSlope(points: Point[], to: string, windowDays: number, coverage: number): { slope: number | null; confidence: TrendConfidence } {
+  if (points.length < MIN_POINTS) {
+    return { slope: null, confidence: 'low' };
+  }
+
+  const halfLife = windowDays / 2;
+  const rows = points.map(p => {
+    const x = -daysBetween(p.date, to);
+    return { x, y: p.value, w: 0.5 ** (-x / halfLife) };
+  });
+
+  const totalWeight = rows.reduce((sum, r) => sum + r.w, 0);
+  const meanX = rows.reduce((sum, r) => sum + r.w * r.x, 0) / totalWeight;
+  const meanY = rows.reduce((sum, r) => sum + r.w * r.y, 0) / totalWeight;
+  const sxx = rows.reduce((sum, r) => sum + r.w * (r.x - meanX) ** 2, 0);
+  const sxy = rows.reduce((sum, r) => sum + r.w * (r.x - meanX) * (r.y - meanY), 0);
+  const slope = sxy / sxx;
+
+  const effectiveN = totalWeight ** 2 / rows.reduce((sum, r) => sum + r.w ** 2, 0);
+  const residual = rows.reduce((sum, r) => sum + r.w * (r.y - meanY - slope * (r.x - meanX)) ** 2, 0) / totalWeight;
+  const variance = effectiveN > 2 ? residual * effectiveN / (effectiveN - 2) : Infinity;
+  const standardError = Math.sqrt(variance / sxx);
+  const t = standardError > 0 ? Math.abs(slope) / standardError : (slope === 0 ? 0 : Infinity);
+
+  let confidence: TrendConfidence = t >= 3 ? 'high' : t >= 2 ? 'medium' : 'low';
+  if (confidence === 'high' && coverage < 0.5) {
+    confidence = 'medium';
+  }
+  return { slope: round(slope, 3), confidence };
+}
+
+/**
+ * Streak of consecutive days, ending with the latest submission, that all
+ * meet one of the legacy streak rules. A missed day ends the streak, and a
+ * streak only counts while the latest submission is from today or yesterday.
+ */
+function findStreak(points: Point[], to: string): ScoreStreak | null {
+  const newestFirst = [...points].reverse();
+  if (!newestFirst[0] || daysBetween(newestFirst[0].date, to) > 1) {
+    return null;
+  }
+  for (const [type, test, minDays] of [
+    ['negative', (v: number) => v <= NEGATIVE_STREAK.max, NEGATIVE_STREAK.minDays],
+    ['positive', (v: number) => v >= POSITIVE_STREAK.min, POSITIVE_STREAK.minDays],
+  ] as const) {
+    let days = 0;
+    let expectedDate = newestFirst[0]?.date;
+    for (const point of newestFirst) {
+      if (point.date !== expectedDate || !test(point.value)) break;
+      days++;
+      expectedDate = shiftIsoDate(expectedDate, -1);
+    }
+    if (days >= minDays) {
+      return { type, days, since: newestFirst[days - 1].date };
+    }
+  }
+  return null;
+}
+
+/**
+ * Trend analysis over the `windowDays` calendar days ending on `to`.
+ * Scores may be in any order; those outside the window are ignored.
+ */
+export function analyzeTrends(scores: TrendScore[], to: string, windowDays: number = TREND_WINDOW_DAYS): TrendAnalysis {
+  const from = shiftIsoDate(to, -(windowDays - 1));
+  const inWindow = scores
+    .filter(s => s.scoreDate >= from && s.scoreDate <= to)
+    .sort((a, b) => a.scoreDate.localeCompare(b.scoreDate));
+
+  let longestGapDays = inWindow.length > 0 ? daysBetween(inWindow[inWindow.length - 1].scoreDate, to) : windowDays;
+  for (let i = 1; i < inWindow.length; i++) {
+    longestGapDays = Math.max(longestGapDays, daysBetween(inWindow[i - 1].scoreDate, inWindow[i].scoreDate) - 1);
+  }
+  const ratio = inWindow.length / windowDays;
+
+  const metric = (name: TrendMetric): MetricTrend => {
+    const points = inWindow.map(s => ({ date: s.scoreDate, value: s[METRIC_COLUMNS[name]] }));
+    const { slope, confidence } = fitSlope(points, to, windowDays, ratio);
+    const change = slope === null ? 0 : slope * (windowDays - 1);
+
+    let direction: TrendDirection = 'stable';
+    if (confidence !== 'low' && Math.abs(change) >= TREND_MIN_CHANGE) {
+      direction = change > 0 ? 'improving' : 'declining';
+    }
+
+    return {
+      direction,
+      slope,
+      confidence,
+      latest: points.length ? points[points.length - 1].value : null,
+      average: points.length ? round(points.reduce((sum, p) => sum + p.value, 0) / points.length, 1) : null,
+      streak: findStreak(points, to),
+    };
+  };
+
+  return {
+    from,
+    to,
+    windowDays,
+    coverage: { daysWithScores: inWindow.length, ratio: round(ratio), longestGapDays },
+    metrics: {
+      diet: metric('diet'),
+      exercise: metric('exercise'),
+      medication: metric('medication'),
+    },
+  };
+}
+
+/**
+ * Plain-text summary for LLM prompts, one line per metric plus data coverage.
+ */
+export function describeTrends(analysis: TrendAnalysis): string {
+  const lines = (Object.keys(analysis.metrics) as TrendMetric[]).map(name => {
+    const { direction, slope, confidence, average, streak } = analysis.metrics[name];
+    const details = [
+      slope !== null ? `${slope >= 0 ? '+' : ''}${slope}/day` : 'too few scores to fit',
+      `${confidence} confidence`,
+      average !== null ? `avg ${average}` : null,
+      streak ? `${streak.days}-day ${streak.type === 'positive' ? `streak at ${POSITIVE_STREAK.min}+` : `streak at ${NEGATIVE_STREAK.max} or below`}` : null,
+    ].filter(Boolean);
+    return `- ${name[0].toUpperCase()}${name.slice(1)}: ${direction} (${details.join(', ')})`;
+  });
+  const { daysWithScores, longestGapDays } = analysis.coverage;
+  lines.push(`- Coverage: ${daysWithScores}/${analysis.windowDays} days scored, longest gap ${longestGapDays} days`);
+  return lines.join('\n');
+}
+
+export const trendService = {
+  async getPatientTrends(patientId: number, windowDays: number = TREND_WINDOW_DAYS): Promise<TrendAnalysis> {
+    const to = await scoreService.today(patientId);
+    const { scores } = await scoreService.history(patientId, { from: shiftIsoDate(to, -(windowDays - 1)), to });
+    return analyzeTrends(scores, to, windowDays);
+  },
+};
@@ -0,0 +1,322 @@
+import { db } from '../db';
+import {
+  users,
+  doctors,
+  doctorPatients,
+  User,
+  AdminUserQuery,
+  AdminUserCreate,
+  AdminUserUpdate,
+} from '../../../shared/schema';
+import { and, asc, count, eq, ilike, inArray, ne, notInArray, or, sql, SQL } from 'drizzle-orm';
+import { HttpError } from '../errors';
+import { DEFAULT_TIMEZONE, isValidTimeZone } from '../utils/dates';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface AssignedDoctor {
+  doctorId: number;
+  name: string;
+}
+
+export interface AdminUserSummary {
+  id: number;
+  email: string;
+  role: User['role'];
+  name: string | null;
+  phoneNumber: string | null;
+  timezone: string;
+  isActive: boolean;
+  createdAt: Date;
+  /** Doctor profile, for doctor accounts. */
+  doctor?: {
+    id: number;
+    specialization: string | null;
+    licenseNumber: string | null;
+    patientCount: number;
+  };
+  /** Active care team, for patient accounts. */
+  assignedDoctors?: AssignedDoctor[];
+}
+
+async function assertEmailAvailable(executor: Transaction | typeof db, email: string, exceptUserId?: number) {
+  const [existing] = await executor
+    .select({ id: users.id })
+    .from(users)
+    .where(and(
+      sql`lower(${users.email}) = ${email.toLowerCase()}`,
+      exceptUserId ? ne(users.id, exceptUserId) : undefined
+    ))
+    .limit(1);
+  if (existing) {
+    throw new HttpError(409, 'A user with this email already exists');
+  }
+}
+
+async function assertDoctorsExist(executor: Transaction | typeof db, doctorIds: number[]) {
+  if (doctorIds.length === 0) return;
+  const found = await executor
+    .select({ id: doctors.id })
+    .from(doctors)
+    .innerJoin(users, eq(doctors.userId, users.id))
+    .where(and(inArray(doctors.id, doctorIds), eq(users.isActive, true)));
+  const missing = doctorIds.filter(id => !found.some(d => d.id === id));
+  if (missing.length > 0) {
+    throw new HttpError(400, `Unknown or inactive doctor: ${missing.join(', ')}`);
+  }
+}
+
+/**
+ * Replace the patient's active doctors with `doctorIds`. Ended assignments are
+ * kept as inactive rows; new ones get a fresh row and assignment date.
+ */
+async function replaceAssignments(tx: Transaction, patientId: number, doctorIds: number[]) {
+  await tx
+    .update(doctorPatients)
+    .set({ isActive: false })
+    .where(and(
+      eq(doctorPatients.patientId, patientId),
+      eq(doctorPatients.isActive, true),
+      doctorIds.length > 0 ? notInArray(doctorPatients.doctorId, doctorIds) : undefined
+    ));
+
+  const current = await tx
+    .select({ doctorId: doctorPatients.doctorId })
+    .from(doctorPatients)
+    .where(and(eq(doctorPatients.patientId, patientId), eq(doctorPatients.isActive, true)));
+  const added = doctorIds.filter(id => !current.some(c => c.doctorId === id));
+  if (added.length > 0) {
+    await tx.insert(doctorPatients).values(added.map(doctorId => ({ doctorId, patientId })));
+  }
+}
+
+export const userAdminService = {
+  /**
+   * Page of users matching the filters, with doctor profiles and patients'
+   * care teams attached. Search matches name, email or phone number.
+   */
+  async listUsers(query: AdminUserQuery): Promise<{
+    users: AdminUserSummary[];
+    page: number;
+    pageSize: number;
+    total: number;
+  }> {
+    const conditions: (SQL | undefined)[] = [
+      query.role ? eq(users.role, query.role) : undefined,
+      query.isActive ? eq(users.isActive, query.isActive === 'true') : undefined,
+    ];
+    if (query.search) {
+      const pattern = `%${query.search.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(or(ilike(users.name, pattern), ilike(users.email, pattern), ilike(users.phoneNumber, pattern)));
+    }
+    const where = and(...conditions);
+
+    const [{ total }] = await db.select({ total: count() }).from(users).where(where);
+    const rows = await db
+      .select()
+      .from(users)
+      .where(where)
+      .orderBy(asc(users.role), asc(sql`lower(coalesce(${users.name}, ${users.email}))`), asc(users.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    return { users: await this.summarise(rows), page: query.page, pageSize: query.pageSize, total };
+  },
+
+  async getUser(userId: number): Promise<AdminUserSummary> {
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      throw new HttpError(404, 'User not found');
+    }
+    const [summary] = await this.summarise([user]);
+    return summary;
+  },
+
+  async summarise(rows: User[]): Promise<AdminUserSummary[]> {
+    const doctorUserIds = rows.filter(u => u.role === 'doctor').map(u => u.id);
+    const patientIds = rows.filter(u => u.role === 'patient').map(u => u.id);
+
+    const profiles = doctorUserIds.length === 0 ? [] : await db
+      .select({
+        id: doctors.id,
+        userId: doctors.userId,
+        specialization: doctors.specialization,
+        licenseNumber: doctors.licenseNumber,
+      })
+      .from(doctors)
+      .where(inArray(doctors.userId, doctorUserIds));
+
+    const patientCounts = profiles.length === 0 ? [] : await db
+      .select({ doctorId: doctorPatients.doctorId, total: count() })
+      .from(doctorPatients)
+      .where(and(inArray(doctorPatients.doctorId, profiles.map(p => p.id)), eq(doctorPatients.isActive, true)))
+      .groupBy(doctorPatients.doctorId);
+
+    const assignments = patientIds.length === 0 ? [] : await db
+      .select({ patientId: doctorPatients.patientId, doctorId: doctors.id, name: doctors.name })
+      .from(doctorPatients)
+      .innerJoin(doctors, eq(doctorPatients.doctorId, doctors.id))
+      .where(and(inArray(doctorPatients.patientId, patientIds), eq(doctorPatients.isActive, true)))
+      .orderBy(asc(doctors.name));
+
+    return rows.map(user => {
+      const summary: AdminUserSummary = {
+        id: user.id,
+        email: user.email,
+        role: user.role,
+        name: user.name,
+        phoneNumber: user.phoneNumber,
+        timezone: user.timezone,
+        isActive: user.isActive,
+        createdAt: user.createdAt,
+      };
+      if (user.role === 'doctor') {
+        const profile = profiles.find(p => p.userId === user.id);
+        if (profile) {
+          summary.doctor = {
+            id: profile.id,
+            specialization: profile.specialization,
+            licenseNumber: profile.licenseNumber,
+            patientCount: patientCounts.find(c => c.doctorId === profile.id)?.total ?? 0,
+          };
+        }
+      }
+      if (user.role === 'patient') {
+        summary.assignedDoctors = assignments
+          .filter(a => a.patientId === user.id)
+          .map(({ doctorId, name }) => ({ doctorId, name }));
+      }
+      return summary;
+    });
+  },
+
+  /**
+   * Create a patient or doctor account. Doctors also get the `doctors` profile
+   * row the doctor routes rely on; patients may be assigned doctors straight away.
+   */
+  async createUser(input: AdminUserCreate): Promise<AdminUserSummary> {
+    if (input.timezone && !isValidTimeZone(input.timezone)) {
+      throw new HttpError(400, 'A valid IANA timezone is required');
+    }
+    if (input.role === 'doctor' && input.doctorIds?.length) {
+      throw new HttpError(400, 'Only patients can be assigned doctors');
+    }
+
+    const created = await db.transaction(async (tx) => {
+      await assertEmailAvailable(tx, input.email);
+      await assertDoctorsExist(tx, input.doctorIds ?? []);
+
+      const [user] = await tx
+        .insert(users)
+        .values({
+          email: input.email,
+          role: input.role,
+          name: input.name,
+          phoneNumber: input.phoneNumber ?? null,
+          timezone: input.timezone || DEFAULT_TIMEZONE,
+        })
+        .returning();
+
+      if (input.role === 'doctor') {
+        await tx.insert(doctors).values({
+          userId: user.id,
+          name: input.name,
+          email: input.email,
+          phoneNumber: input.phoneNumber!,
+          specialization: input.specialization ?? null,
+          licenseNumber: input.licenseNumber ?? null,
+        });
+      } else if (input.doctorIds?.length) {
+        await replaceAssignments(tx, user.id, [...new Set(input.doctorIds)]);
+      }
+      return user;
+    });
+
+    console.log(`[Admin] Created ${created.role} account ${created.id}`);
+    const [summary] = await this.summarise([created]);
+    return summary;
+  },
+
+  /**
+   * Edit contact details or (de)activate an account. Doctor profile fields are
+   * kept in step with the user row. Deactivated users can no longer sign in.
+   */
+  async updateUser(actingUserId: number, userId: number, update: AdminUserUpdate): Promise<AdminUserSummary> {
+    const updated = await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId));
+      if (!user) {
+        throw new HttpError(404, 'User not found');
+      }
+      if (user.deletedAt) {
+        throw new HttpError(409, 'This account has been erased and cannot be changed');
+      }
+      if (update.isActive === false && userId === actingUserId) {
+        throw new HttpError(400, 'You cannot deactivate your own account');
+      }
+      if (update.email !== undefined && update.email !== user.email) {
+        await assertEmailAvailable(tx, update.email, userId);
+      }
+      if (user.role === 'doctor' && update.phoneNumber === null) {
+        throw new HttpError(400, 'Doctors need a phone number for SMS login');
+      }
+      if (user.role !== 'doctor' && (update.specialization !== undefined || update.licenseNumber !== undefined)) {
+        throw new HttpError(400, 'Specialization and license number only apply to doctors');
+      }
+
+      const [row] = await tx
+        .update(users)
+        .set({
+          email: update.email,
+          name: update.name,
+          phoneNumber: update.phoneNumber,
+          isActive: update.isActive,
+          // SMS nudges cannot be delivered without a number
+          nudgeChannel: update.phoneNumber === null && user.nudgeChannel === 'sms' ? 'in_app' : undefined,
+        })
+        .where(eq(users.id, userId))
+        .returning();
+
+      if (user.role === 'doctor') {
+        const profile = {
+          email: update.email,
+          name: update.name,
+          phoneNumber: update.phoneNumber ?? undefined,
+          specialization: update.specialization,
+          licenseNumber: update.licenseNumber,
+        };
+        if (Object.values(profile).some(v => v !== undefined)) {
+          await tx.update(doctors).set(profile).where(eq(doctors.userId, userId));
+        }
+      }
+      return row;
+    });
+
+    if (update.isActive !== undefined) {
+      console.log(`[Admin] User ${userId} ${update.isActive ? 'reactivated' : 'deactivated'} by user ${actingUserId}`);
+    }
+    const [summary] = await this.summarise([updated]);
+    return summary;
+  },
+
+  /**
+   * Set the patient's active doctors, assigning new ones and ending the rest.
+   */
+  async setPatientDoctors(patientId: number, doctorIds: number[]): Promise<AssignedDoctor[]> {
+    const uniqueIds = [...new Set(doctorIds)];
+    await db.transaction(async (tx) => {
+      const [patient] = await tx.select({ role: users.role }).from(users).where(eq(users.id, patientId));
+      if (!patient) {
+        throw new HttpError(404, 'Patient not found');
+      }
+      if (patient.role !== 'patient') {
+        throw new HttpError(400, 'Only patients can be assigned doctors');
+      }
+      await assertDoctorsExist(tx, uniqueIds);
+      await replaceAssignments(tx, patientId, uniqueIds);
+    });
+
+    console.log(`[Admin] Patient ${patientId} assigned to doctors [${uniqueIds.join(', ')}]`);
+    const summary = await this.getUser(patientId);
+    return summary.assignedDoctors ?? [];
+  },
+};
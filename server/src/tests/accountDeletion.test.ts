@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { Writable } from 'stream';
+import { eq } from 'drizzle-orm';
+import {
+  users,
+  doctors,
+  doctorPatients,
+  patientScores,
+  patientBadges,
+  patientNudges,
+  chatSessions,
+  supervisorAgentLogs,
+  carePlanDirectives,
+  progressReports,
+  notifications,
+  smsMessages,
+  loginChallenges,
+  auditEvents,
+  accountDeletionRequests,
+} from '../../../shared/schema';
+import { db } from '../db';
+import { accountDeletionService } from '../services/accountDeletionService';
+import { dataExportService } from '../services/dataExportService';
+import { auditService } from '../services/auditService';
+import { useSmsOutbox } from './helpers/smsOutbox';
+import { readZip } from './helpers/zip';
+import { runDataMigrations } from '../dataMigrations';
+
+vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+
+const outbox = useSmsOutbox();
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PATIENT_PHONE = '+61412000001';
+
+const ids = { patient: 0, other: 0, doctorUser: 0, doctor: 0, requestId: 0 };
+
+async function seedPatientRecords(patientId: number, doctorId: number) {
+  await db.insert(doctorPatients).values({ doctorId, patientId });
+  await db.insert(patientScores).values({ patientId, scoreDate: '2026-10-01', dietScore: 7, exerciseScore: 6, medicationScore: 9 });
+  await db.insert(patientBadges).values({ patientId, badgeType: 'diet', badgeLevel: 'bronze' });
+  await db.insert(chatSessions).values({
+    patientId,
+    messages: [{ role: 'user', content: 'I walked today', timestamp: '2026-10-01T08:00:00Z' }],
+  });
+  await db.insert(patientNudges).values({
+    patientId,
+    nudgeDate: '2026-10-02',
+    rule: 'missed_checkin',
+    reason: 'No score yesterday',
+    message: 'How did yesterday go?',
+    channel: 'in_app',
+  });
+  await db.insert(notifications).values({ userId: patientId, type: 'nudge', title: 'Check in', body: 'How did yesterday go?' });
+  await db.insert(supervisorAgentLogs).values({
+    patientId,
+    action: 'safety_escalation',
+    context: { query: 'I feel dizzy' },
+    aiResponse: 'Please call 000',
+  });
+  await db.insert(carePlanDirectives).values({ patientId, doctorId, directive: 'Walk for 30 minutes each day' });
+  await db.insert(progressReports).values([
+    {
+      patientId,
+      doctorId,
+      periodStart: '2026-09-01',
+      periodEnd: '2026-09-30',
+      inputBundle: { scores: [7, 8] },
+      reportMarkdown: '# September',
+      model: 'stub',
+      status: 'approved',
+    },
+    {
+      patientId,
+      doctorId,
+      periodStart: '2026-10-01',
+      periodEnd: '2026-10-31',
+      inputBundle: { scores: [6] },
+      reportMarkdown: '# October draft',
+      model: 'stub',
+    },
+  ]);
+}
+
+const auditInput = {
+  action: 'read' as const,
+  dataType: 'scores',
+  resourceId: null,
+  method: 'GET',
+  path: '/api/scores',
+  statusCode: 200,
+  details: { query: { from: '2026-10-01' } },
+};
+
+beforeAll(async () => {
+  // Installs the audit log's append-only trigger, which erasure must get past
+  await runDataMigrations('after-push');
+  const [patient, other, doctorUser] = await db
+    .insert(users)
+    .values([
+      { email: 'leaving@example.com', name: 'Pat Leaving', phoneNumber: PATIENT_PHONE, role: 'patient' },
+      { email: 'staying@example.com', name: 'Sam Staying', phoneNumber: '+61412000002', role: 'patient' },
+      { email: 'dr.lee@example.com', role: 'doctor' },
+    ])
+    .returning({ id: users.id });
+  const [doctor] = await db
+    .insert(doctors)
+    .values({ userId: doctorUser.id, name: 'Dr Lee', email: 'dr.lee@example.com', phoneNumber: '+61400000001' })
+    .returning({ id: doctors.id });
+  Object.assign(ids, { patient: patient.id, other: other.id, doctorUser: doctorUser.id, doctor: doctor.id });
+
+  await seedPatientRecords(patient.id, doctor.id);
+  await seedPatientRecords(other.id, doctor.id);
+
+  // The patient reading their own scores, and their doctor reading them
+  await auditService.record({
+    ...auditInput, userId: patient.id, role: 'patient', patientId: patient.id, ipAddress: '203.0.113.7', userAgent: 'PatientPhone/1.0',
+  });
+  await auditService.record({
+    ...auditInput, userId: doctorUser.id, role: 'doctor', patientId: patient.id, ipAddress: '198.51.100.20', userAgent: 'ClinicPC/2.0',
+  });
+});
+
+describe('account deletion: confirmation', () => {
+  it('texts a deletion code and opens a request', async () => {
+    const { code, smsSent } = await accountDeletionService.requestDeletion(ids.patient);
+    expect(smsSent).toBe(true);
+    expect(outbox.lastCode(PATIENT_PHONE)).toBe(code);
+    expect(outbox.messages().pop()!.body).toContain('account deletion code');
+    expect(await accountDeletionService.getStatus(ids.patient)).toMatchObject({ status: 'pending_confirmation', scheduledFor: null });
+  });
+
+  it('makes the patient wait before asking for another code', async () => {
+    await expect(accountDeletionService.requestDeletion(ids.patient)).rejects.toMatchObject({ status: 429 });
+  });
+
+  it('rejects a wrong code and counts down the remaining attempts', async () => {
+    const wrong = outbox.lastCode(PATIENT_PHONE) === '000000' ? '111111' : '000000';
+    await expect(accountDeletionService.confirmDeletion(ids.patient, wrong)).rejects.toMatchObject({
+      status: 400,
+      message: expect.stringContaining('4 attempts remaining'),
+    });
+  });
+
+  it('schedules the erasure for the end of the grace period once the code is confirmed', async () => {
+    const before = Date.now();
+    const status = await accountDeletionService.confirmDeletion(ids.patient, outbox.lastCode(PATIENT_PHONE));
+    expect(status.status).toBe('scheduled');
+    expect(status.scheduledFor!.getTime()).toBeGreaterThanOrEqual(before + accountDeletionService.graceDays * DAY_MS);
+    expect(status.scheduledFor!.getTime()).toBeLessThan(Date.now() + accountDeletionService.graceDays * DAY_MS + 1000);
+
+    const [request] = await db.select().from(accountDeletionRequests).where(eq(accountDeletionRequests.userId, ids.patient));
+    ids.requestId = request.id;
+  });
+
+  it('refuses a second request while one is scheduled', async () => {
+    await expect(accountDeletionService.requestDeletion(ids.patient)).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('lists the scheduled erasure for admins', async () => {
+    expect(await accountDeletionService.listPending()).toEqual([
+      expect.objectContaining({ userId: ids.patient, email: 'leaving@example.com', status: 'scheduled' }),
+    ]);
+  });
+
+  it('lets a patient cancel before the erasure', async () => {
+    await accountDeletionService.requestDeletion(ids.other);
+    await accountDeletionService.cancelDeletion(ids.other);
+    expect(await accountDeletionService.getStatus(ids.other)).toBeNull();
+    await expect(accountDeletionService.cancelDeletion(ids.other)).rejects.toMatchObject({ status: 404 });
+  });
+});
+
+describe('account deletion: data export before erasure', () => {
+  it('exports the access log without anyone’s network details', async () => {
+    const { access_log: accessLog } = await dataExportService.collect(ids.patient);
+    expect(accessLog).toEqual([
+      expect.objectContaining({ byYou: true, role: 'patient', action: 'read', dataType: 'scores', statusCode: 200 }),
+      expect.objectContaining({ byYou: false, role: 'doctor', action: 'read', dataType: 'scores', statusCode: 200 }),
+    ]);
+    for (const event of accessLog) {
+      expect(Object.keys(event).sort()).toEqual(['action', 'byYou', 'dataType', 'method', 'occurredAt', 'path', 'role', 'statusCode']);
+    }
+  });
+
+  it('writes every dataset to the ZIP as JSON and CSV', async () => {
+    const chunks: Buffer[] = [];
+    const output = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    });
+    await dataExportService.writeArchive(ids.patient, output);
+    const files = readZip(Buffer.concat(chunks));
+
+    const manifest = JSON.parse(files.get('manifest.json')!);
+    expect(manifest).toMatchObject({ userId: ids.patient, datasets: { scores: 1, badges: 1, chat_messages: 1, access_log: 2 } });
+    for (const name of Object.keys(manifest.datasets)) {
+      expect(files.has(`json/${name}.json`)).toBe(true);
+      expect(files.has(`csv/${name}.csv`)).toBe(true);
+    }
+    expect(files.get('README.txt')).toContain('access_log');
+    expect(JSON.parse(files.get('json/profile.json')!)).toEqual([
+      expect.objectContaining({ email: 'leaving@example.com', name: 'Pat Leaving', phoneNumber: PATIENT_PHONE }),
+    ]);
+    // Only approved reports are exported
+    expect(JSON.parse(files.get('json/progress_reports.json')!)).toHaveLength(1);
+
+    const everything = [...files.values()].join('\n');
+    for (const staffDetail of ['198.51.100.20', 'ClinicPC', '203.0.113.7']) {
+      expect(everything).not.toContain(staffDetail);
+    }
+  });
+});
+
+describe('account deletion: erasure', () => {
+  it('leaves accounts alone until their grace period ends', async () => {
+    expect(await accountDeletionService.processDue(new Date())).toEqual({ completed: 0, failed: 0 });
+    const [user] = await db.select().from(users).where(eq(users.id, ids.patient));
+    expect(user.deletedAt).toBeNull();
+  });
+
+  it('erases the account once the grace period has passed', async () => {
+    const afterGrace = new Date(Date.now() + (accountDeletionService.graceDays + 1) * DAY_MS);
+    expect(await accountDeletionService.processDue(afterGrace)).toEqual({ completed: 1, failed: 0 });
+    expect(await accountDeletionService.processDue(afterGrace)).toEqual({ completed: 0, failed: 0 });
+
+    const [request] = await db.select().from(accountDeletionRequests).where(eq(accountDeletionRequests.id, ids.requestId));
+    expect(request.status).toBe('completed');
+    expect(request.completedAt).not.toBeNull();
+  });
+
+  it('anonymises the user row', async () => {
+    const [user] = await db.select().from(users).where(eq(users.id, ids.patient));
+    expect(user).toMatchObject({
+      email: `deleted-user-${ids.patient}@deleted.invalid`,
+      name: null,
+      phoneNumber: null,
+      isActive: false,
+    });
+    expect(user.deletedAt).not.toBeNull();
+  });
+
+  it('deletes the patient’s personal records', async () => {
+    expect(await db.select().from(patientScores).where(eq(patientScores.patientId, ids.patient))).toHaveLength(0);
+    expect(await db.select().from(patientBadges).where(eq(patientBadges.patientId, ids.patient))).toHaveLength(0);
+    expect(await db.select().from(chatSessions).where(eq(chatSessions.patientId, ids.patient))).toHaveLength(0);
+    expect(await db.select().from(patientNudges).where(eq(patientNudges.patientId, ids.patient))).toHaveLength(0);
+    expect(await db.select().from(notifications).where(eq(notifications.userId, ids.patient))).toHaveLength(0);
+    expect(await db.select().from(loginChallenges).where(eq(loginChallenges.userId, ids.patient))).toHaveLength(0);
+    expect(await db.select().from(smsMessages).where(eq(smsMessages.userId, ids.patient))).toHaveLength(0);
+  });
+
+  it('keeps records others rely on, stripped of the patient’s content', async () => {
+    const reports = await db.select().from(progressReports).where(eq(progressReports.patientId, ids.patient));
+    expect(reports).toEqual([expect.objectContaining({ status: 'approved', inputBundle: {}, reportMarkdown: '# September' })]);
+
+    const [log] = await db.select().from(supervisorAgentLogs).where(eq(supervisorAgentLogs.patientId, ids.patient));
+    expect(log).toMatchObject({ action: 'safety_escalation', context: null, aiResponse: null, phiReport: null });
+
+    const [assignment] = await db.select().from(doctorPatients).where(eq(doctorPatients.patientId, ids.patient));
+    expect(assignment.isActive).toBe(false);
+
+    const [directive] = await db.select().from(carePlanDirectives).where(eq(carePlanDirectives.patientId, ids.patient));
+    expect(directive.directive).toBe('Walk for 30 minutes each day');
+  });
+
+  it('erases the patient’s own network details from the audit log and keeps the chain valid', async () => {
+    const events = await db.select().from(auditEvents).where(eq(auditEvents.patientId, ids.patient));
+    const own = events.find(e => e.userId === ids.patient)!;
+    const doctorsEvent = events.find(e => e.userId === ids.doctorUser)!;
+
+    expect(own).toMatchObject({ ipAddress: null, userAgent: null, details: null, personalSalt: null });
+    expect(own.personalErasedAt).not.toBeNull();
+    expect(doctorsEvent).toMatchObject({ ipAddress: '198.51.100.20', userAgent: 'ClinicPC/2.0', personalErasedAt: null });
+    expect(events.some(e => e.dataType === 'account' && e.action === 'delete' && e.method === 'JOB')).toBe(true);
+
+    expect(await auditService.verifyChain()).toMatchObject({ valid: true });
+  });
+
+  it('leaves other patients untouched', async () => {
+    expect(await db.select().from(patientScores).where(eq(patientScores.patientId, ids.other))).toHaveLength(1);
+    const [user] = await db.select().from(users).where(eq(users.id, ids.other));
+    expect(user).toMatchObject({ email: 'staying@example.com', isActive: true, deletedAt: null });
+  });
+});
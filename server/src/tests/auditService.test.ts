@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { asc, eq, sql } from 'drizzle-orm';
+import { users, auditEvents, AuditEvent } from '../../../shared/schema';
+import { db } from '../db';
+import { auditService, AuditEventInput } from '../services/auditService';
+import { runDataMigrations } from '../dataMigrations';
+
+vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+
+let events: AuditEvent[] = [];
+
+// drizzle wraps the database error raised by the trigger
+const APPEND_ONLY_ERROR = { cause: expect.objectContaining({ message: expect.stringContaining('append-only') }) };
+
+function eventInput(userId: number, path: string): AuditEventInput {
+  return {
+    userId,
+    role: 'doctor',
+    action: 'read',
+    dataType: 'scores',
+    patientId: null,
+    resourceId: null,
+    method: 'GET',
+    path,
+    statusCode: 200,
+    ipAddress: '198.51.100.20',
+    userAgent: 'ClinicPC/2.0',
+    details: { query: { page: '1' } },
+  };
+}
+
+/**
+ * Change the table the way someone with direct database access could, with
+ * the append-only trigger out of the way, then put it back.
+ */
+async function tamper(change: () => Promise<unknown>): Promise<Awaited<ReturnType<typeof auditService.verifyChain>>> {
+  await db.execute(sql`ALTER TABLE "audit_events" DISABLE TRIGGER "audit_events_append_only"`);
+  try {
+    await change();
+    return await auditService.verifyChain();
+  } finally {
+    await db.delete(auditEvents);
+    await db.insert(auditEvents).values(events);
+    await db.execute(sql`ALTER TABLE "audit_events" ENABLE TRIGGER "audit_events_append_only"`);
+  }
+}
+
+beforeAll(async () => {
+  await runDataMigrations('after-push');
+  const [doctor] = await db.insert(users).values({ email: 'dr.lee@example.com', role: 'doctor' }).returning({ id: users.id });
+  for (const path of ['/api/a', '/api/b', '/api/c', '/api/d', '/api/e']) {
+    await auditService.record(eventInput(doctor.id, path));
+  }
+  events = await db.select().from(auditEvents).orderBy(asc(auditEvents.id));
+});
+
+describe('audit chain verification', () => {
+  it('accepts an untouched chain', async () => {
+    expect(await auditService.verifyChain()).toEqual({ valid: true, checked: 5 });
+  });
+
+  it('detects a changed field', async () => {
+    const report = await tamper(() => db.update(auditEvents).set({ statusCode: 403 }).where(eq(auditEvents.id, events[1].id)));
+    expect(report).toEqual({
+      valid: false,
+      checked: 1,
+      brokenAt: { id: events[1].id, reason: 'Event contents do not match its hash' },
+    });
+  });
+
+  it('detects changed requester details', async () => {
+    const report = await tamper(() => db.update(auditEvents).set({ ipAddress: '203.0.113.1' }).where(eq(auditEvents.id, events[2].id)));
+    expect(report.brokenAt).toEqual({ id: events[2].id, reason: 'Requester details do not match their digest' });
+  });
+
+  it('detects a deleted row', async () => {
+    const report = await tamper(() => db.delete(auditEvents).where(eq(auditEvents.id, events[2].id)));
+    expect(report.brokenAt).toEqual({ id: events[3].id, reason: 'Previous hash does not match the preceding event' });
+  });
+
+  it('detects a deleted row whose successor was relinked to the row before it', async () => {
+    const report = await tamper(async () => {
+      await db.delete(auditEvents).where(eq(auditEvents.id, events[2].id));
+      await db.update(auditEvents).set({ prevHash: events[1].hash }).where(eq(auditEvents.id, events[3].id));
+    });
+    expect(report.brokenAt).toEqual({ id: events[3].id, reason: 'Event contents do not match its hash' });
+  });
+
+  it('still accepts the chain once the tampering is undone', async () => {
+    expect(await auditService.verifyChain()).toEqual({ valid: true, checked: 5 });
+  });
+});
+
+describe('audit events append-only trigger', () => {
+  it('rejects updates', async () => {
+    await expect(db.update(auditEvents).set({ statusCode: 403 }).where(eq(auditEvents.id, events[0].id)))
+      .rejects.toMatchObject(APPEND_ONLY_ERROR);
+  });
+
+  it('rejects deletes and truncation', async () => {
+    await expect(db.delete(auditEvents).where(eq(auditEvents.id, events[4].id))).rejects.toMatchObject(APPEND_ONLY_ERROR);
+    await expect(db.execute(sql`TRUNCATE "audit_events"`)).rejects.toMatchObject(APPEND_ONLY_ERROR);
+  });
+
+  it('rejects an erasure that also changes chained fields', async () => {
+    await expect(db
+      .update(auditEvents)
+      .set({ ipAddress: null, userAgent: null, details: null, personalSalt: null, personalErasedAt: new Date(), path: '/api/x' })
+      .where(eq(auditEvents.id, events[0].id)))
+      .rejects.toMatchObject(APPEND_ONLY_ERROR);
+  });
+
+  it('allows erasing requester details without breaking the chain', async () => {
+    await db
+      .update(auditEvents)
+      .set({ ipAddress: null, userAgent: null, details: null, personalSalt: null, personalErasedAt: new Date() })
+      .where(eq(auditEvents.id, events[0].id));
+    expect(await auditService.verifyChain()).toEqual({ valid: true, checked: 5 });
+  });
+});
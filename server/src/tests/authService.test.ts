@@ -0,0 +1,148 @@
+import { describe, it, expect, vi } from 'vitest';
+import bcrypt from 'bcryptjs';
+import { asc, eq, sql } from 'drizzle-orm';
+import { users, loginChallenges } from '../../../shared/schema';
+import { db } from '../db';
+import { authService } from '../services/authService';
+import { useSmsOutbox } from './helpers/smsOutbox';
+
+vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+
+const outbox = useSmsOutbox();
+let nextPhone = 100;
+
+async function createUser(overrides: Partial<typeof users.$inferInsert> = {}) {
+  const phoneNumber = `+61412000${nextPhone++}`;
+  const [user] = await db
+    .insert(users)
+    .values({ email: `user${nextPhone}@example.com`, phoneNumber, role: 'patient', ...overrides })
+    .returning();
+  return user;
+}
+
+function challengesFor(userId: number) {
+  return db.select().from(loginChallenges).where(eq(loginChallenges.userId, userId)).orderBy(asc(loginChallenges.id));
+}
+
+// Move the user's codes into the past, as if `seconds` had gone by
+async function elapse(userId: number, seconds: number) {
+  await db
+    .update(loginChallenges)
+    .set({
+      createdAt: sql`${loginChallenges.createdAt} - make_interval(secs => ${seconds})`,
+      expiresAt: sql`${loginChallenges.expiresAt} - make_interval(secs => ${seconds})`,
+    })
+    .where(eq(loginChallenges.userId, userId));
+}
+
+function wrongCode(code: string) {
+  return code === '999999' ? '111111' : '999999';
+}
+
+describe('authService one-time codes', () => {
+  it('texts the code and stores only its bcrypt hash', async () => {
+    const user = await createUser();
+    const { code, smsSent, expiresAt } = await authService.startLogin(user.email);
+
+    expect(smsSent).toBe(true);
+    expect(outbox.lastCode(user.phoneNumber!)).toBe(code);
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now() + 9 * 60 * 1000);
+
+    const [challenge] = await challengesFor(user.id);
+    expect(challenge.codeHash).not.toContain(code);
+    expect(await bcrypt.compare(code, challenge.codeHash)).toBe(true);
+  });
+
+  it('signs in with the right code once only', async () => {
+    const user = await createUser();
+    const { code } = await authService.startLogin(user.email);
+
+    expect((await authService.verifyLogin(user.email, code)).id).toBe(user.id);
+    await expect(authService.verifyLogin(user.email, code)).rejects.toMatchObject({ status: 400, message: expect.stringContaining('No login attempt') });
+  });
+
+  it('rejects an expired code and retires it', async () => {
+    const user = await createUser();
+    const { code } = await authService.startLogin(user.email);
+    await elapse(user.id, 10 * 60 + 1);
+
+    await expect(authService.verifyLogin(user.email, code)).rejects.toMatchObject({ message: expect.stringContaining('expired') });
+    const [challenge] = await challengesFor(user.id);
+    expect(challenge.consumedAt).not.toBeNull();
+  });
+
+  it('locks the code after five wrong guesses', async () => {
+    const user = await createUser();
+    const { code } = await authService.startLogin(user.email);
+
+    for (const remaining of [4, 3, 2, 1]) {
+      await expect(authService.verifyLogin(user.email, wrongCode(code)))
+        .rejects.toMatchObject({ status: 400, message: expect.stringContaining(`${remaining} attempts remaining`) });
+    }
+    await expect(authService.verifyLogin(user.email, wrongCode(code))).rejects.toMatchObject({ status: 429 });
+    await expect(authService.verifyLogin(user.email, code)).rejects.toMatchObject({ status: 429 });
+
+    const [challenge] = await challengesFor(user.id);
+    expect(challenge).toMatchObject({ attempts: 5, consumedAt: null });
+    expect(challenge.lockedAt).not.toBeNull();
+  });
+
+  it('makes the user wait a minute between codes and retires the earlier code', async () => {
+    const user = await createUser();
+    await authService.startLogin(user.email);
+
+    await expect(authService.startLogin(user.email)).rejects.toMatchObject({ status: 429, retryAfterSeconds: expect.any(Number) });
+
+    await elapse(user.id, 61);
+    const { code } = await authService.startLogin(user.email);
+    const [first, second] = await challengesFor(user.id);
+    expect(first.consumedAt).not.toBeNull();
+    expect(second.consumedAt).toBeNull();
+    expect((await authService.verifyLogin(user.email, code)).id).toBe(user.id);
+  });
+
+  it('allows at most five codes an hour', async () => {
+    const user = await createUser();
+    for (let i = 0; i < 5; i++) {
+      await authService.startLogin(user.email);
+      await elapse(user.id, 61);
+    }
+    await expect(authService.startLogin(user.email)).rejects.toMatchObject({
+      status: 429,
+      message: expect.stringContaining('Too many verification codes'),
+    });
+
+    // Once the oldest code is more than an hour old, another can be sent
+    await elapse(user.id, 60 * 60 - 5 * 61 + 1);
+    await expect(authService.startLogin(user.email)).resolves.toMatchObject({ smsSent: true });
+  });
+
+  it('keeps login and step-up codes apart', async () => {
+    const user = await createUser();
+    const { code: loginCode } = await authService.startLogin(user.email);
+    const { code: stepUpCode } = await authService.startStepUp(user.id);
+
+    expect((await challengesFor(user.id)).map(c => [c.purpose, c.consumedAt])).toEqual([['login', null], ['step_up', null]]);
+    await expect(authService.verifyStepUp(user.id, stepUpCode)).resolves.toBeUndefined();
+    expect((await authService.verifyLogin(user.email, loginCode)).id).toBe(user.id);
+  });
+
+  it('refuses deactivated and unknown users', async () => {
+    const user = await createUser({ isActive: false });
+    await expect(authService.startLogin(user.email)).rejects.toMatchObject({ status: 403 });
+    await expect(authService.verifyLogin(user.email, '123456')).rejects.toMatchObject({ status: 403 });
+    await expect(authService.startStepUp(user.id)).rejects.toMatchObject({ status: 403 });
+    await expect(authService.startLogin('nobody@example.com')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('reports whether an account is active', async () => {
+    const active = await createUser();
+    const deactivated = await createUser({ isActive: false });
+    const erased = await createUser({ deletedAt: new Date() });
+
+    expect(await authService.isAccountActive(active.id)).toBe(true);
+    expect(await authService.isAccountActive(deactivated.id)).toBe(false);
+    expect(await authService.isAccountActive(erased.id)).toBe(false);
+    expect(await authService.isAccountActive(999_999)).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { users, doctors, carePlanDirectives, carePlanDirectiveVersions } from '../../../shared/schema';
+import { db } from '../db';
+import { carePlanService } from '../services/carePlanService';
+import { runDataMigrations } from '../dataMigrations';
+
+vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+
+const ids = { patient: 0, doctor: 0, active: 0, retired: 0, tracked: 0 };
+
+beforeAll(async () => {
+  const [patient, doctorUser] = await db
+    .insert(users)
+    .values([{ email: 'patient@example.com', role: 'patient' }, { email: 'doctor@example.com', role: 'doctor' }])
+    .returning({ id: users.id });
+  const [doctor] = await db
+    .insert(doctors)
+    .values({ userId: doctorUser.id, name: 'Dr Lee', email: 'doctor@example.com', phoneNumber: '+61400000001' })
+    .returning({ id: doctors.id });
+
+  // Two directives from before version history, written straight to the table
+  const [active, retired] = await db
+    .insert(carePlanDirectives)
+    .values([
+      {
+        patientId: patient.id,
+        doctorId: doctor.id,
+        directive: 'Walk for 30 minutes each day',
+        createdAt: new Date('2026-01-10T00:00:00Z'),
+        updatedAt: new Date('2026-01-10T00:00:00Z'),
+      },
+      {
+        patientId: patient.id,
+        doctorId: doctor.id,
+        directive: 'Avoid sugary drinks',
+        isActive: false,
+        createdAt: new Date('2026-01-10T00:00:00Z'),
+        updatedAt: new Date('2026-03-01T00:00:00Z'),
+      },
+    ])
+    .returning({ id: carePlanDirectives.id });
+
+  // One created through the service, which already has its history
+  const tracked = await carePlanService.create(patient.id, doctor.id, { directive: 'Check feet daily', priority: 'high' });
+
+  Object.assign(ids, { patient: patient.id, doctor: doctor.id, active: active.id, retired: retired.id, tracked: tracked.id });
+  expect(await runDataMigrations('after-push')).toContain('backfill-care-plan-directive-versions');
+});
+
+describe('care plan version backfill data migration', () => {
+  it('records existing directives as version 1 from their creation date', async () => {
+    const [first] = await carePlanService.history(ids.patient, ids.active);
+    expect(first).toMatchObject({
+      version: 1,
+      changeType: 'created',
+      authorDoctorId: ids.doctor,
+      directive: 'Walk for 30 minutes each day',
+      isActive: true,
+      createdAt: new Date('2026-01-10T00:00:00Z'),
+    });
+  });
+
+  it('records an already retired directive as created, then retired at its last update', async () => {
+    const history = await carePlanService.history(ids.patient, ids.retired);
+    expect(history.map(v => [v.version, v.changeType, v.isActive, v.createdAt.toISOString()])).toEqual([
+      [1, 'created', true, '2026-01-10T00:00:00.000Z'],
+      [2, 'retired', false, '2026-03-01T00:00:00.000Z'],
+    ]);
+    expect((await carePlanService.get(ids.patient, ids.retired)).version).toBe(2);
+  });
+
+  it('makes backfilled directives visible to point-in-time care plans', async () => {
+    const inFebruary = await carePlanService.listAsOf(ids.patient, new Date('2026-02-01T00:00:00Z'));
+    expect(inFebruary.map(v => v.directive).sort()).toEqual(['Avoid sugary drinks', 'Walk for 30 minutes each day']);
+
+    const inApril = await carePlanService.listAsOf(ids.patient, new Date('2026-04-01T00:00:00Z'));
+    expect(inApril.map(v => v.directive)).toEqual(['Walk for 30 minutes each day']);
+  });
+
+  it('leaves directives that already have history alone and can be run again', async () => {
+    await runDataMigrations('after-push');
+    const rows = await db.select().from(carePlanDirectiveVersions);
+    expect(rows.filter(v => v.directiveId === ids.tracked).map(v => v.version)).toEqual([1]);
+    expect(rows).toHaveLength(4);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { asc } from 'drizzle-orm';
+import { users, auditEvents } from '../../../shared/schema';
+import { db } from '../db';
+import { chatRouter } from '../routes/chat';
+import { startTestApp, TestApp } from './helpers/testApp';
+
+vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+vi.mock('../services/supervisorAgent', () => ({
+  supervisorAgentService: {
+    processQuery: async () => 'Great work today.',
+    processQueryStream: async (_patientId: number, _message: string, _history: unknown, onDelta: (text: string) => void) => {
+      onDelta('Great work today.');
+      return 'Great work today.';
+    },
+  },
+}));
+
+let app: TestApp;
+let cookie: string;
+let patientId: number;
+
+// Audit events are written after the response has been sent
+async function auditedRequests(expected: number) {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const rows = await db.select().from(auditEvents).orderBy(asc(auditEvents.id));
+    if (rows.length >= expected) return rows;
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+  throw new Error(`Expected ${expected} audit events`);
+}
+
+beforeAll(async () => {
+  const [patient] = await db.insert(users).values({ email: 'patient@example.com', role: 'patient' }).returning({ id: users.id });
+  patientId = patient.id;
+  app = await startTestApp(server => server.use('/api/chat', chatRouter));
+  cookie = await app.signIn(patientId, 'patient');
+});
+
+afterAll(() => app.close());
+
+describe('chat routes', () => {
+  it('audits sending a message, streaming a reply and reading sessions', async () => {
+    const headers = { cookie, 'Content-Type': 'application/json' };
+    const sent = await fetch(`${app.baseUrl}/api/chat`, { method: 'POST', headers, body: JSON.stringify({ message: 'I walked today' }) });
+    const { sessionId } = await sent.json() as { sessionId: number };
+
+    const streamed = await fetch(`${app.baseUrl}/api/chat/stream`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ message: 'And I ate well', sessionId }),
+    });
+    expect(await streamed.text()).toContain('event: done');
+
+    expect((await fetch(`${app.baseUrl}/api/chat/sessions`, { headers })).status).toBe(200);
+    expect((await fetch(`${app.baseUrl}/api/chat/sessions/${sessionId}`, { headers })).status).toBe(200);
+
+    const events = await auditedRequests(4);
+    expect(events.map(e => [e.action, e.method, e.path, e.resourceId, e.statusCode])).toEqual([
+      ['create', 'POST', '/api/chat', null, 200],
+      ['create', 'POST', '/api/chat/stream', null, 200],
+      ['read', 'GET', '/api/chat/sessions', null, 200],
+      ['read', 'GET', `/api/chat/sessions/${sessionId}`, String(sessionId), 200],
+    ]);
+    for (const event of events) {
+      expect(event).toMatchObject({ userId: patientId, patientId, role: 'patient', dataType: 'chat' });
+    }
+  });
+
+  it('streams over GET for the site’s own pages, without logging the message', async () => {
+    const before = (await db.select().from(auditEvents)).length;
+    const query = new URLSearchParams({ message: 'My feet are sore' });
+    const response = await fetch(`${app.baseUrl}/api/chat/stream?${query}`, { headers: { cookie, 'Sec-Fetch-Site': 'same-origin' } });
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(await response.text()).toContain('event: done');
+
+    const [event] = (await auditedRequests(before + 1)).slice(before);
+    expect(event).toMatchObject({ action: 'create', method: 'GET', path: '/api/chat/stream', details: null });
+  });
+
+  it('accepts a same-origin Referer from browsers without Sec-Fetch-Site', async () => {
+    const response = await fetch(`${app.baseUrl}/api/chat/stream?message=Hello`, {
+      headers: { cookie, Referer: `${app.baseUrl}/dashboard` },
+    });
+    expect(response.status).toBe(200);
+    await response.text();
+  });
+
+  it('refuses GET streams started from another site or of unknown origin', async () => {
+    const url = `${app.baseUrl}/api/chat/stream?message=Hello`;
+    for (const headers of [
+      { cookie, 'Sec-Fetch-Site': 'cross-site' },
+      { cookie, 'Sec-Fetch-Site': 'same-site' },
+      { cookie, Referer: 'https://evil.example/page' },
+      { cookie },
+    ]) {
+      const response = await fetch(url, { headers });
+      expect(response.status).toBe(403);
+    }
+  });
+});
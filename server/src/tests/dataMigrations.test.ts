@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { asc, sql } from 'drizzle-orm';
+import { users, patientScores, patientBadges } from '../../../shared/schema';
+import { db } from '../db';
+import { runDataMigrations } from '../dataMigrations';
+
+vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+
+const ids = { patient: 0, other: 0 };
+
+beforeAll(async () => {
+  // The tables as they were before the unique indexes
+  await db.execute(sql`DROP INDEX "patient_scores_patient_date_idx"`);
+  await db.execute(sql`DROP INDEX "patient_badges_patient_type_level_idx"`);
+
+  const [patient, other] = await db
+    .insert(users)
+    .values([{ email: 'patient@example.com', role: 'patient' }, { email: 'other@example.com', role: 'patient' }])
+    .returning({ id: users.id });
+  Object.assign(ids, { patient: patient.id, other: other.id });
+
+  await db.insert(patientScores).values([
+    { patientId: patient.id, scoreDate: '2026-10-01', dietScore: 5, exerciseScore: 5, medicationScore: 5, updatedAt: new Date('2026-10-01T08:00:00Z') },
+    { patientId: patient.id, scoreDate: '2026-10-01', dietScore: 8, exerciseScore: 7, medicationScore: 9, updatedAt: new Date('2026-10-01T20:00:00Z') },
+    { patientId: patient.id, scoreDate: '2026-10-01', dietScore: 6, exerciseScore: 6, medicationScore: 6, updatedAt: new Date('2026-10-01T12:00:00Z') },
+    { patientId: patient.id, scoreDate: '2026-10-02', dietScore: 4, exerciseScore: 4, medicationScore: 4 },
+    { patientId: other.id, scoreDate: '2026-10-01', dietScore: 3, exerciseScore: 3, medicationScore: 3 },
+  ]);
+  await db.insert(patientBadges).values([
+    { patientId: patient.id, badgeType: 'diet', badgeLevel: 'bronze', earnedDate: new Date('2026-10-05T00:00:00Z') },
+    { patientId: patient.id, badgeType: 'diet', badgeLevel: 'bronze', earnedDate: new Date('2026-10-03T00:00:00Z') },
+    { patientId: patient.id, badgeType: 'diet', badgeLevel: 'silver', earnedDate: new Date('2026-10-09T00:00:00Z') },
+    { patientId: other.id, badgeType: 'diet', badgeLevel: 'bronze', earnedDate: new Date('2026-10-04T00:00:00Z') },
+  ]);
+
+  expect(await runDataMigrations('before-push')).toEqual(['dedupe-patient-scores', 'dedupe-patient-badges']);
+});
+
+describe('before-push data migrations', () => {
+  it('keeps the most recently written score for each patient and day', async () => {
+    const rows = await db.select().from(patientScores).orderBy(asc(patientScores.patientId), asc(patientScores.scoreDate));
+    expect(rows.map(r => [r.patientId, r.scoreDate, r.dietScore])).toEqual([
+      [ids.patient, '2026-10-01', 8],
+      [ids.patient, '2026-10-02', 4],
+      [ids.other, '2026-10-01', 3],
+    ]);
+  });
+
+  it('keeps the first award of each badge tier', async () => {
+    const rows = await db.select().from(patientBadges).orderBy(asc(patientBadges.patientId), asc(patientBadges.badgeLevel));
+    expect(rows.map(r => [r.patientId, r.badgeLevel, r.earnedDate.toISOString()])).toEqual([
+      [ids.patient, 'bronze', '2026-10-03T00:00:00.000Z'],
+      [ids.patient, 'silver', '2026-10-09T00:00:00.000Z'],
+      [ids.other, 'bronze', '2026-10-04T00:00:00.000Z'],
+    ]);
+  });
+
+  it('leaves rows the unique indexes accept', async () => {
+    await db.execute(sql`CREATE UNIQUE INDEX "patient_scores_patient_date_idx" ON "patient_scores" ("patient_id", "score_date")`);
+    await db.execute(sql`CREATE UNIQUE INDEX "patient_badges_patient_type_level_idx" ON "patient_badges" ("patient_id", "badge_type", "badge_level")`);
+  });
+
+  it('can be run again', async () => {
+    await runDataMigrations('before-push');
+    expect(await db.select().from(patientScores)).toHaveLength(3);
+    expect(await db.select().from(patientBadges)).toHaveLength(3);
+  });
+
+  it('skips steps whose tables do not exist yet, as on a new database', async () => {
+    await db.execute(sql`DROP TABLE "patient_badges"`);
+    expect(await runDataMigrations('before-push')).toEqual(['dedupe-patient-scores']);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { users, doctors, patientScores, patientBadges, carePlanDirectives } from '../../../shared/schema';
+import { db } from '../db';
+import { fhirService, FhirBundle } from '../services/fhirService';
+import { HttpError } from '../errors';
+
+vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+
+// The official HL7 FHIR R4 JSON schema, the same structural rules a receiving system validates against
+const JSONSchemaValidator: new () => {
+  validate(resource: unknown, verbose: boolean): { dataPath: string; message: string }[];
+} = require('@asymmetrik/fhir-json-schema-validator');
+const fhirSchema = new JSONSchemaValidator();
+
+// Verbose mode reports against the whole schema; the concise mode rewrites the shared schema object
+const schemaErrors = (resource: unknown) =>
+  fhirSchema.validate(resource, true).map(error => `${error.dataPath} ${error.message}`);
+
+type Json = Record<string, unknown>;
+
+// Every { reference } anywhere inside a resource
+function collectReferences(value: unknown, found: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectReferences(item, found));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === 'reference' && typeof child === 'string') {
+        found.push(child);
+      } else {
+        collectReferences(child, found);
+      }
+    }
+  }
+  return found;
+}
+
+const resourcesOfType = (bundle: FhirBundle, type: string) =>
+  bundle.entry.map(e => e.resource as Json).filter(r => r.resourceType === type);
+
+const ids = { patient: 0, emptyPatient: 0, doctorUser: 0 };
+let bundle: FhirBundle;
+
+beforeAll(async () => {
+  const [patient, emptyPatient, doctorUser] = await db
+    .insert(users)
+    .values([
+      { email: 'jane@example.com', name: 'Jane Citizen', phoneNumber: '+61412345678', role: 'patient' },
+      { email: 'new@example.com', role: 'patient' },
+      { email: 'dr.lee@example.com', role: 'doctor' },
+    ])
+    .returning({ id: users.id });
+  Object.assign(ids, { patient: patient.id, emptyPatient: emptyPatient.id, doctorUser: doctorUser.id });
+
+  const [doctor] = await db
+    .insert(doctors)
+    .values({ userId: doctorUser.id, name: 'Dr Lee', email: 'dr.lee@example.com', phoneNumber: '+61400000001' })
+    .returning({ id: doctors.id });
+
+  await db.insert(patientScores).values([
+    { patientId: patient.id, scoreDate: '2026-10-17', dietScore: 6, exerciseScore: 7, medicationScore: 9 },
+    { patientId: patient.id, scoreDate: '2026-10-18', dietScore: 8, exerciseScore: 5, medicationScore: 10 },
+  ]);
+  await db.insert(patientBadges).values({
+    patientId: patient.id,
+    badgeType: 'diet',
+    badgeLevel: 'bronze',
+    earnedDate: new Date('2026-10-18T08:00:00Z'),
+    criteria: '3 days at 7 or above',
+  });
+  await db.insert(carePlanDirectives).values([
+    { patientId: patient.id, doctorId: doctor.id, directive: 'Walk for 30 minutes each day', category: 'exercise' },
+    { patientId: patient.id, doctorId: doctor.id, directive: 'Avoid sugary drinks', isActive: false },
+  ]);
+
+  bundle = await fhirService.buildPatientBundle(patient.id);
+});
+
+describe('fhirService.buildPatientBundle', () => {
+  it('is a valid FHIR R4 Bundle', () => {
+    expect(schemaErrors(bundle)).toEqual([]);
+    expect(bundle).toMatchObject({ resourceType: 'Bundle', type: 'collection' });
+  });
+
+  it('fails the schema when a resource breaks the R4 rules', () => {
+    const broken = structuredClone(bundle);
+    Object.assign(broken.entry[1].resource, { status: 'done' });
+    expect(schemaErrors(broken)).not.toEqual([]);
+    expect(schemaErrors({ ...bundle, timestamp: '18/10/2026' })).not.toEqual([]);
+  });
+
+  it('gives every entry a unique fullUrl and resource id', () => {
+    const fullUrls = bundle.entry.map(e => e.fullUrl);
+    expect(new Set(fullUrls).size).toBe(fullUrls.length);
+    const typedIds = bundle.entry.map(e => `${e.resource.resourceType}/${e.resource.id}`);
+    expect(new Set(typedIds).size).toBe(typedIds.length);
+  });
+
+  it('only references resources inside the bundle', () => {
+    const fullUrls = new Set(bundle.entry.map(e => e.fullUrl));
+    const references = bundle.entry.flatMap(e => collectReferences(e.resource));
+    expect(references.length).toBeGreaterThan(0);
+    for (const reference of references) {
+      expect(fullUrls).toContain(reference);
+    }
+  });
+
+  it('points every subject at the Patient entry', () => {
+    const patientEntry = bundle.entry.find(e => e.resource.resourceType === 'Patient')!;
+    for (const resource of bundle.entry.map(e => e.resource as Json).filter(r => r.resourceType !== 'Patient')) {
+      expect(resource.subject).toEqual({ reference: patientEntry.fullUrl, display: 'Jane Citizen' });
+    }
+  });
+
+  it('starts with a Patient resource carrying the demographics', () => {
+    const [first] = bundle.entry;
+    expect(first.resource).toEqual({
+      resourceType: 'Patient',
+      id: String(ids.patient),
+      identifier: [{ system: 'https://keepgoingcare.com/fhir/patient-id', value: String(ids.patient) }],
+      active: true,
+      name: [{ text: 'Jane Citizen' }],
+      telecom: [
+        { system: 'phone', value: '+61412345678', use: 'mobile' },
+        { system: 'email', value: 'jane@example.com' },
+      ],
+    });
+    expect(resourcesOfType(bundle, 'Patient')).toHaveLength(1);
+  });
+
+  it('exports the scores and the badge as final Observations', () => {
+    const observations = resourcesOfType(bundle, 'Observation');
+    expect(observations).toHaveLength(3);
+    expect(observations.map(o => o.status)).toEqual(['final', 'final', 'final']);
+  });
+
+  it('records each scored day as an Observation with a UCUM quantity per metric', () => {
+    const scores = resourcesOfType(bundle, 'Observation').filter(o => String(o.id).startsWith('score-'));
+    expect(scores.map(o => o.effectiveDateTime)).toEqual(['2026-10-17', '2026-10-18']);
+    for (const observation of scores) {
+      const components = observation.component as { valueQuantity: Json }[];
+      expect(components).toHaveLength(3);
+      for (const component of components) {
+        expect(component.valueQuantity).toMatchObject({ system: 'http://unitsofmeasure.org', code: '{score}' });
+      }
+    }
+    expect((scores[1].component as { valueQuantity: { value: number } }[]).map(c => c.valueQuantity.value)).toEqual([8, 5, 10]);
+  });
+
+  it('lists the directives as CarePlan activities, retired ones stopped', () => {
+    const [carePlan] = resourcesOfType(bundle, 'CarePlan');
+    expect(carePlan).toMatchObject({ status: 'active', intent: 'plan', contributor: [{ display: 'Dr Lee' }] });
+    const activities = carePlan.activity as { detail: Json }[];
+    expect(activities.map(a => a.detail.description)).toEqual(['Walk for 30 minutes each day', 'Avoid sugary drinks']);
+    expect(activities.map(a => a.detail.status)).toEqual(['in-progress', 'stopped']);
+  });
+
+  it('exports a patient with no data as just the Patient', async () => {
+    const empty = await fhirService.buildPatientBundle(ids.emptyPatient);
+    expect(schemaErrors(empty)).toEqual([]);
+    expect(empty.entry).toHaveLength(1);
+    expect(empty.entry[0].resource).toMatchObject({ resourceType: 'Patient', telecom: [{ system: 'email', value: 'new@example.com' }] });
+    expect(empty.entry[0].resource).not.toHaveProperty('name');
+  });
+
+  it('refuses to export someone who is not a patient', async () => {
+    await expect(fhirService.buildPatientBundle(ids.doctorUser)).rejects.toThrow(HttpError);
+    await expect(fhirService.buildPatientBundle(999_999)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,37 @@
+import { mkdtempSync, readdirSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+
+export interface OutboxMessage {
+  sid: string;
+  to: string;
+  body: string;
+  sentAt: string;
+}
+
+/**
+ * Send SMS through the outbox transport into a fresh directory. Call before
+ * the first message is sent, as smsService picks its transport once.
+ */
+export function useSmsOutbox() {
+  const directory = mkdtempSync(path.join(tmpdir(), 'sms-outbox-'));
+  process.env.SMS_TRANSPORT = 'outbox';
+  process.env.SMS_OUTBOX_DIR = directory;
+
+  const messages = (): OutboxMessage[] =>
+    readdirSync(directory)
+      .sort()
+      .map(file => JSON.parse(readFileSync(path.join(directory, file), 'utf8')));
+
+  return {
+    directory,
+    messages,
+    /** The six-digit code in the latest message to `to`. */
+    lastCode(to: string): string {
+      const message = messages().filter(m => m.to === to).pop();
+      const code = message?.body.match(/\b\d{6}\b/)?.[0];
+      if (!code) throw new Error(`No code has been texted to ${to}`);
+      return code;
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import express, { Express } from 'express';
+import session from 'express-session';
+import { AddressInfo } from 'net';
+import { sessionStore } from '../../services/sessionStore';
+import { startSessionActivity } from '../../middleware/session';
+import { UserRole } from '../../middleware/auth';
+
+export interface TestApp {
+  baseUrl: string;
+  /**
+   * Sign in as the user the way the login route does and return the session
+   * cookie. `reauthenticatedAt` overrides when the last SMS code was entered.
+   */
+  signIn(userId: number, role: UserRole, options?: { reauthenticatedAt?: number }): Promise<string>;
+  close(): Promise<void>;
+}
+
+/**
+ * An Express app with real sessions, stored in the mocked database, and the
+ * routes added by `mount`, so tests exercise the same guards and wiring as the
+ * server. Needs `../db` mocked with createTestDb.
+ */
+export async function startTestApp(mount: (app: Express) => void): Promise<TestApp> {
+  const app = express();
+  app.use(session({ store: sessionStore, secret: 'test-session-secret', resave: false, saveUninitialized: false }));
+  app.use(express.json());
+  app.post('/test/sign-in', (req, res) => {
+    req.session.regenerate(() => {
+      req.session.userId = req.body.userId;
+      req.session.role = req.body.role;
+      req.session.reauthenticatedAt = req.body.reauthenticatedAt ?? Date.now();
+      startSessionActivity(req);
+      res.json({ ok: true });
+    });
+  });
+  mount(app);
+
+  const server = app.listen(0);
+  await new Promise<void>(resolve => server.once('listening', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    baseUrl,
+    async signIn(userId, role, options = {}) {
+      const response = await fetch(`${baseUrl}/test/sign-in`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ userId, role, ...options }),
+      });
+      return response.headers.get('set-cookie')!.split(';')[0];
+    },
+    close: () => new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve()))),
+  };
+}
@@ -0,0 +1,21 @@
+import { PGlite } from '@electric-sql/pglite';
+import { drizzle } from 'drizzle-orm/pglite';
+import * as schema from '../../../../shared/schema';
+
+// drizzle-kit's ESM build cannot be loaded by vitest; its CommonJS build can
+const { generateDrizzleJson, generateMigration }: typeof import('drizzle-kit/api') = require('drizzle-kit/api');
+
+/**
+ * An in-memory Postgres (PGlite) with the current schema applied, for use as
+ * the `db` export of ../db:
+ *
+ *   vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+ */
+export async function createTestDb() {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  return drizzle(client, { schema });
+}
@@ -0,0 +1,30 @@
+import { inflateRawSync } from 'zlib';
+
+/**
+ * Read every file in a ZIP archive into memory, by walking the central
+ * directory (archiver streams its entries, so local headers carry no sizes).
+ */
+export function readZip(archive: Buffer): Map<string, string> {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (end < 0) throw new Error('Not a ZIP archive');
+  const entries = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+
+  const files = new Map<string, string>();
+  for (let i = 0; i < entries; i++) {
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeader = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localHeader + 30 + archive.readUInt16LE(localHeader + 26) + archive.readUInt16LE(localHeader + 28);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    files.set(name, (method === 8 ? inflateRawSync(data) : data).toString('utf8'));
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createLlmProviders } from '../services/llmProviders';
+
+const keys = { OPENAI_API_KEY: 'sk-test', ANTHROPIC_API_KEY: 'sk-ant-test' };
+const chain = (env: NodeJS.ProcessEnv) => createLlmProviders(env).map(provider => provider.name);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createLlmProviders', () => {
+  it('defaults to the providers with API keys and leaves the stub out', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(chain({ ...keys, NODE_ENV: 'development' })).toEqual(['openai', 'anthropic']);
+    expect(chain({ NODE_ENV: 'development' })).toEqual([]);
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('adds the stub to the end of the default chain only with LLM_ALLOW_STUB=true', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(chain({ OPENAI_API_KEY: 'sk-test', LLM_ALLOW_STUB: 'true' })).toEqual(['openai', 'stub']);
+    expect(chain({ OPENAI_API_KEY: 'sk-test', LLM_ALLOW_STUB: '1' })).toEqual(['openai']);
+  });
+
+  it('uses the stub when LLM_PROVIDERS names it', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(chain({ ...keys, LLM_PROVIDERS: 'anthropic, stub' })).toEqual(['anthropic', 'stub']);
+  });
+
+  it('warns when the stub is enabled and on every reply it gives', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const [stub] = createLlmProviders({ LLM_PROVIDERS: 'stub' });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('stub provider is enabled'));
+
+    warn.mockClear();
+    await stub.complete({
+      useCase: 'chat',
+      model: 'stub',
+      systemPrompt: '',
+      prompt: 'USER QUERY: "hello"\n',
+      history: [],
+      maxTokens: 100,
+      temperature: 0,
+    });
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('no real model was called'));
+  });
+
+  it('rejects a named provider without its key', () => {
+    expect(() => createLlmProviders({ LLM_PROVIDERS: 'openai' })).toThrow('OPENAI_API_KEY is not set');
+  });
+});
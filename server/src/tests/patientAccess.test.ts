@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { users, doctors, doctorPatients } from '../../../shared/schema';
+import { db } from '../db';
+import { patientRouter } from '../routes/patients';
+import { doctorRouter } from '../routes/doctor';
+import { startTestApp, TestApp } from './helpers/testApp';
+
+vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+
+type Role = 'admin' | 'doctor' | 'patient';
+
+let app: TestApp;
+const ids = { admin: 0, assignedDoctor: 0, formerDoctor: 0, patient: 0, otherPatient: 0 };
+
+// The routers are mounted where the server mounts them
+async function get(path: string, as?: { userId: number; role: Role }) {
+  const cookie = as ? await app.signIn(as.userId, as.role) : null;
+  const response = await fetch(`${app.baseUrl}${path}`, { headers: cookie ? { cookie } : {} });
+  await response.arrayBuffer();
+  return response.status;
+}
+
+beforeAll(async () => {
+  const [admin, assignedDoctor, formerDoctor, patient, otherPatient] = await db
+    .insert(users)
+    .values([
+      { email: 'admin@example.com', role: 'admin' },
+      { email: 'assigned@example.com', role: 'doctor' },
+      { email: 'former@example.com', role: 'doctor' },
+      { email: 'patient@example.com', role: 'patient' },
+      { email: 'other@example.com', role: 'patient' },
+    ])
+    .returning({ id: users.id });
+  const [doctorA, doctorB] = await db
+    .insert(doctors)
+    .values([
+      { userId: assignedDoctor.id, name: 'Dr Assigned', email: 'assigned@example.com', phoneNumber: '+61400000001' },
+      { userId: formerDoctor.id, name: 'Dr Former', email: 'former@example.com', phoneNumber: '+61400000002' },
+    ])
+    .returning({ id: doctors.id });
+  await db.insert(doctorPatients).values([
+    { doctorId: doctorA.id, patientId: patient.id, isActive: true },
+    { doctorId: doctorB.id, patientId: patient.id, isActive: false },
+  ]);
+  Object.assign(ids, {
+    admin: admin.id,
+    assignedDoctor: assignedDoctor.id,
+    formerDoctor: formerDoctor.id,
+    patient: patient.id,
+    otherPatient: otherPatient.id,
+  });
+
+  app = await startTestApp(server => {
+    server.use('/api', patientRouter);
+    server.use('/api/doctor', doctorRouter);
+  });
+});
+
+afterAll(() => app.close());
+
+describe('patient routes', () => {
+  const doctor = () => ({ userId: ids.assignedDoctor, role: 'doctor' as const });
+  const formerDoctor = () => ({ userId: ids.formerDoctor, role: 'doctor' as const });
+  const patient = () => ({ userId: ids.patient, role: 'patient' as const });
+
+  it('let a doctor reach a patient actively assigned to them', async () => {
+    expect(await get(`/api/patients/${ids.patient}/context`, doctor())).toBe(200);
+    expect(await get(`/api/patients/${ids.patient}/fhir`, doctor())).toBe(200);
+    expect(await get(`/api/doctor/patients/${ids.patient}/cpds`, doctor())).toBe(200);
+  });
+
+  it('keep a doctor away from a patient who is not assigned to them', async () => {
+    expect(await get(`/api/patients/${ids.otherPatient}/context`, doctor())).toBe(403);
+    expect(await get(`/api/patients/${ids.otherPatient}/fhir`, doctor())).toBe(403);
+    expect(await get(`/api/doctor/patients/${ids.otherPatient}/cpds`, doctor())).toBe(403);
+    expect(await get(`/api/doctor/patients/${ids.otherPatient}/reports`, doctor())).toBe(403);
+  });
+
+  it('keep a doctor away once their assignment has been deactivated', async () => {
+    expect(await get(`/api/patients/${ids.patient}/context`, formerDoctor())).toBe(403);
+    expect(await get(`/api/patients/${ids.patient}/fhir`, formerDoctor())).toBe(403);
+    expect(await get(`/api/doctor/patients/${ids.patient}/cpds`, formerDoctor())).toBe(403);
+  });
+
+  it('let a patient reach only their own records', async () => {
+    expect(await get('/api/patient/context', patient())).toBe(200);
+    expect(await get(`/api/patients/${ids.patient}/fhir`, patient())).toBe(200);
+    expect(await get(`/api/patients/${ids.otherPatient}/context`, patient())).toBe(403);
+    expect(await get(`/api/patients/${ids.otherPatient}/fhir`, patient())).toBe(403);
+    expect(await get(`/api/doctor/patients/${ids.patient}/cpds`, patient())).toBe(403);
+  });
+
+  it('let an admin read any patient’s context but not export it', async () => {
+    const admin = { userId: ids.admin, role: 'admin' as const };
+    expect(await get(`/api/patients/${ids.otherPatient}/context`, admin)).toBe(200);
+    expect(await get(`/api/patients/${ids.otherPatient}/fhir`, admin)).toBe(403);
+  });
+
+  it('require a signed-in user', async () => {
+    expect(await get(`/api/patients/${ids.patient}/context`)).toBe(401);
+    expect(await get(`/api/patients/${ids.patient}/fhir`)).toBe(401);
+    expect(await get(`/api/doctor/patients/${ids.patient}/cpds`)).toBe(401);
+  });
+
+  it('reject a malformed patient ID', async () => {
+    expect(await get('/api/patients/abc/context', { userId: ids.admin, role: 'admin' })).toBe(400);
+    expect(await get('/api/doctor/patients/abc/cpds', doctor())).toBe(400);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { phiDeidentificationService, PhiCategory } from '../services/phiDeidentificationService';
+
+const identifiers = {
+  name: 'Margaret O\'Brien',
+  email: 'maggie.obrien@example.com',
+  phoneNumber: '+61 412 345 678',
+  referenceDate: '2026-10-19',
+};
+
+// Each entry is PHI that must not reach the model, in the forms patients actually type
+const CORPUS: { category: PhiCategory; value: string }[] = [
+  { category: 'name', value: 'Margaret O\'Brien' },
+  { category: 'name', value: 'Margaret' },
+  { category: 'email', value: 'maggie.obrien@example.com' },
+  { category: 'email', value: 'j.smith+health@mail.example.org' },
+  { category: 'phone', value: '+61 412 345 678' },
+  { category: 'phone', value: '0412 345 678' },
+  { category: 'phone', value: '02 9876 5432' },
+  { category: 'phone', value: '+61298765432' },
+  { category: 'medicare', value: '2123 45670 1' },
+  { category: 'medicare', value: '2123456701' },
+  { category: 'medicare', value: '3951 33333 1 2' },
+  { category: 'identifier', value: '8003 6012 3456 7890' },
+  { category: 'identifier', value: '8003601234567890' },
+  { category: 'identifier', value: 'patient ID: 48213' },
+  { category: 'address', value: '42 Wallaby Way' },
+  { category: 'address', value: '7 Station St' },
+  { category: 'address', value: '118 Great Western Highway' },
+  { category: 'address', value: '3A Ocean View Pde' },
+  { category: 'date', value: '1961-03-21' },
+  { category: 'date', value: '12/03/1961' },
+  { category: 'date', value: '5.11.1948' },
+];
+
+describe('phiDeidentificationService PHI corpus', () => {
+  it.each(CORPUS)('tokenises $category "$value" and restores it', ({ category, value }) => {
+    const prompt = `Note for the coach: ${value} is on file.`;
+    const deidentified = phiDeidentificationService.deidentify(prompt, identifiers);
+
+    expect(deidentified.content).not.toContain(value);
+    expect(deidentified.redactions[category]).toBeGreaterThan(0);
+    expect(phiDeidentificationService.reidentify(deidentified.content, deidentified.tokenMap)).toEqual({
+      content: prompt,
+      tokensRestored: 1,
+    });
+  });
+
+  it('tokenises the whole corpus in one message and restores every value', () => {
+    const prompt = CORPUS.map(({ value }) => `- ${value}`).join('\n');
+    const deidentified = phiDeidentificationService.deidentify(prompt, identifiers);
+
+    for (const { value } of CORPUS) {
+      expect(deidentified.content).not.toContain(value);
+    }
+    expect(phiDeidentificationService.reidentify(deidentified.content, deidentified.tokenMap).content).toBe(prompt);
+  });
+
+  it('turns dates into day offsets from the reference date', () => {
+    const { content } = phiDeidentificationService.deidentify('Seen on 2026-10-12 and 19/10/2026', identifiers);
+    expect(content).toBe('Seen on [DAY-7] and [DAY+0]');
+  });
+
+  it('leaves an impossible date tokenised without an offset', () => {
+    const deidentified = phiDeidentificationService.deidentify('Born 31/02/1961', identifiers);
+    expect(deidentified.content).toBe('Born [DATE_1]');
+    expect(deidentified.tokenMap['[DATE_1]']).toBe('31/02/1961');
+  });
+
+  it('spares ordinary words that share a name part in a different case', () => {
+    const { content } = phiDeidentificationService.deidentify('Will May said you may walk and will rest', { name: 'Will May' });
+    expect(content).toBe('[NAME_1] said you may walk and will rest');
+  });
+
+  it('redacts PHI the model writes on its own', () => {
+    const { content, findings } = phiDeidentificationService.scanResponse(
+      'Call 0412 345 678 or write to 42 Wallaby Way, IHI 8003 6012 3456 7890.'
+    );
+    expect(content).toBe('Call [REDACTED] or write to [REDACTED], IHI [REDACTED].');
+    expect(findings).toEqual({ phone: 1, address: 1, identifier: 1 });
+  });
+
+  it('restores tokens split across streamed chunks', () => {
+    const { content, tokenMap } = phiDeidentificationService.deidentify(
+      'Margaret, your Medicare number is 2123 45670 1.',
+      identifiers
+    );
+    const filter = phiDeidentificationService.createStreamFilter(tokenMap);
+    let streamed = '';
+    for (let i = 0; i < content.length; i += 3) {
+      streamed += filter.push(content.slice(i, i + 3));
+    }
+    streamed += filter.flush();
+
+    expect(streamed).toBe('Margaret, your Medicare number is 2123 45670 1.');
+    expect(filter.report()).toEqual({ responseFindings: {}, tokensRestored: 2 });
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { users, patientScores } from '../../../shared/schema';
+import { db } from '../db';
+import { pprService } from '../services/pprService';
+import { localIsoDate, shiftIsoDate } from '../utils/dates';
+
+vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+
+const today = localIsoDate('UTC');
+let patientId: number;
+
+beforeAll(async () => {
+  const [patient] = await db.insert(users).values({ email: 'patient@example.com', name: 'Pat', role: 'patient' }).returning({ id: users.id });
+  patientId = patient.id;
+
+  // Diet climbs through the first half of the month, then holds steady for the last two weeks
+  await db.insert(patientScores).values(Array.from({ length: 30 }, (_, i) => {
+    const daysAgo = 29 - i;
+    const diet = daysAgo >= 14 ? Math.min(8, 2 + Math.floor((29 - daysAgo) / 2)) : 8;
+    return { patientId, scoreDate: shiftIsoDate(today, -daysAgo), dietScore: diet, exerciseScore: 6, medicationScore: 9 };
+  }));
+});
+
+describe('pprService.buildDataBundle', () => {
+  it('analyses trends over the whole report period', async () => {
+    const bundle = await pprService.buildDataBundle(patientId, 30);
+
+    expect(bundle.period).toEqual({ start: shiftIsoDate(today, -29), end: today, days: 30 });
+    expect(bundle.trendAnalysis).toMatchObject({
+      from: bundle.period.start,
+      to: today,
+      windowDays: 30,
+      coverage: { daysWithScores: 30 },
+    });
+    expect(bundle.trendAnalysis.metrics.diet.direction).toBe('improving');
+    expect(bundle.trends.dietTrend).toBe('improving');
+  });
+
+  it('follows a shorter period too', async () => {
+    const bundle = await pprService.buildDataBundle(patientId, 14);
+    expect(bundle.trendAnalysis).toMatchObject({ windowDays: 14, coverage: { daysWithScores: 14 } });
+    expect(bundle.trendAnalysis.metrics.diet.direction).toBe('stable');
+  });
+});
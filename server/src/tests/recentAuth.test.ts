@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { users, auditEvents } from '../../../shared/schema';
+import { db } from '../db';
+import { authRouter } from '../routes/auth';
+import { accountRouter } from '../routes/account';
+import { startTestApp, TestApp } from './helpers/testApp';
+import { useSmsOutbox } from './helpers/smsOutbox';
+
+vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+
+const outbox = useSmsOutbox();
+const PHONE = '+61412000001';
+const MINUTE_MS = 60 * 1000;
+
+let app: TestApp;
+let patientId: number;
+
+function post(path: string, cookie: string | null, body: unknown) {
+  return fetch(`${app.baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(cookie ? { cookie } : {}) },
+    body: JSON.stringify(body),
+  });
+}
+
+function exportData(cookie: string) {
+  return fetch(`${app.baseUrl}/api/me/export`, { headers: { cookie } });
+}
+
+// Audit events are written after the response has been sent
+async function auditedPaths() {
+  await new Promise(resolve => setTimeout(resolve, 50));
+  return (await db.select().from(auditEvents)).map(e => `${e.method} ${e.path} ${e.statusCode}`);
+}
+
+beforeAll(async () => {
+  const [patient] = await db
+    .insert(users)
+    .values({ email: 'patient@example.com', phoneNumber: PHONE, role: 'patient' })
+    .returning({ id: users.id });
+  patientId = patient.id;
+  app = await startTestApp(server => {
+    server.use('/api/auth', authRouter);
+    server.use('/api/me', accountRouter);
+  });
+});
+
+afterAll(() => app.close());
+
+describe('requireRecentAuth', () => {
+  it('counts a fresh sign-in as a recent code', async () => {
+    await post('/api/auth/request-login', null, { email: 'patient@example.com' });
+    const login = await post('/api/auth/verify-login', null, { email: 'patient@example.com', code: outbox.lastCode(PHONE) });
+    expect(login.status).toBe(200);
+    const cookie = login.headers.get('set-cookie')!.split(';')[0];
+
+    const response = await exportData(cookie);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/zip');
+    await response.arrayBuffer();
+  });
+
+  it('accepts a code entered within the window', async () => {
+    const cookie = await app.signIn(patientId, 'patient', { reauthenticatedAt: Date.now() - 4 * MINUTE_MS });
+    const response = await exportData(cookie);
+    expect(response.status).toBe(200);
+    await response.arrayBuffer();
+  });
+
+  it('answers 428 REAUTH_REQUIRED once the window has passed, without logging an access', async () => {
+    const cookie = await app.signIn(patientId, 'patient', { reauthenticatedAt: Date.now() - 6 * MINUTE_MS });
+    const before = await auditedPaths();
+
+    const response = await exportData(cookie);
+    expect(response.status).toBe(428);
+    expect(await response.json()).toMatchObject({ code: 'REAUTH_REQUIRED' });
+    expect(await auditedPaths()).toEqual(before);
+  });
+
+  it('lets the user continue after a step-up code', async () => {
+    const cookie = await app.signIn(patientId, 'patient', { reauthenticatedAt: Date.now() - 6 * MINUTE_MS });
+    expect((await exportData(cookie)).status).toBe(428);
+
+    expect((await post('/api/auth/challenge', cookie, {})).status).toBe(200);
+    await expect(post('/api/auth/verify-challenge', cookie, { code: '000000' }).then(r => r.status)).resolves.toBe(400);
+    expect((await post('/api/auth/verify-challenge', cookie, { code: outbox.lastCode(PHONE) })).status).toBe(200);
+
+    const response = await exportData(cookie);
+    expect(response.status).toBe(200);
+    await response.arrayBuffer();
+    expect((await auditedPaths()).filter(path => path === 'GET /api/me/export 200')).toHaveLength(3);
+  });
+
+  it('only asks for a code on the requests its condition selects', async () => {
+    const cookie = await app.signIn(patientId, 'patient', { reauthenticatedAt: Date.now() - 6 * MINUTE_MS });
+    const deleteAccount = (body: unknown) => fetch(`${app.baseUrl}/api/me`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json', cookie },
+      body: JSON.stringify(body),
+    });
+
+    // Starting a deletion needs a fresh code; confirming one is checked by the deletion code itself
+    expect((await deleteAccount({})).status).toBe(428);
+    const confirming = await deleteAccount({ code: '123456' });
+    expect(confirming.status).toBe(400);
+    expect(await confirming.json()).toMatchObject({ error: expect.stringContaining('No deletion request is awaiting confirmation') });
+  });
+});
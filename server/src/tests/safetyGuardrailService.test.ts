@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { safetyGuardrailService } from '../services/safetyGuardrailService';
+
+const review = (response: string) => safetyGuardrailService.reviewResponse(response, []);
+
+describe('safetyGuardrailService crisis detection', () => {
+  it.each([
+    'I want to kill myself',
+    'I took all my pills an hour ago',
+    'I swallowed a whole packet of painkillers',
+    'I think I overdosed',
+    "I can't go on anymore",
+    'I cannot keep going like this',
+    'There is no point in living',
+    'Everything feels hopeless',
+  ])('escalates self-harm: %s', (query) => {
+    expect(safetyGuardrailService.checkQuery(query)).toMatchObject({ crisis: true, category: 'self_harm' });
+  });
+
+  it.each([
+    'I have crushing pain in my chest',
+    'There is a tightness across my chest',
+    'My chest feels tight and heavy',
+    'I have chest pain when I walk',
+    "I can't breathe properly",
+    'My face is drooping and my speech is slurred',
+  ])('escalates a medical emergency: %s', (query) => {
+    expect(safetyGuardrailService.checkQuery(query)).toMatchObject({ crisis: true, category: 'medical_emergency' });
+  });
+
+  it.each([
+    'I took my pills this morning',
+    "I can't go on holiday this year",
+    "I'm hopeless at cooking",
+    'I did a chest workout at the gym',
+    'What a stroke of luck!',
+  ])('does not escalate everyday messages: %s', (query) => {
+    expect(safetyGuardrailService.checkQuery(query)).toEqual({ crisis: false, matched: [] });
+  });
+
+  it('gives an escalation message for each category', () => {
+    expect(safetyGuardrailService.escalationMessage('self_harm')).toContain('13 11 14');
+    expect(safetyGuardrailService.escalationMessage('medical_emergency')).toContain('000');
+  });
+});
+
+describe('safetyGuardrailService dosage review', () => {
+  it.each([
+    'Increase your insulin dose before dinner.',
+    'Skip your evening dose if you feel tired.',
+    'Stop taking your blood pressure tablets for a few days.',
+    'Double the dose when your readings are high.',
+    'You could cut down on your meds over the weekend.',
+    'Take an extra tablet after lunch.',
+    'Try half a pill in the morning instead.',
+  ])('removes a dose change: %s', (sentence) => {
+    const result = review(`Great work this week! ${sentence}`);
+    expect(result.violations).toEqual([{ type: 'dosage_change', sentence }]);
+    expect(result.content).not.toContain(sentence);
+    expect(result.content).toContain('Great work this week!');
+  });
+
+  it.each([
+    'You could stop your metformin for a week.',
+    'Skip the atorvastatin tonight.',
+    'Maybe go off your ramipril while you travel.',
+    'Start taking aspirin every morning.',
+    'Switch to ibuprofen instead.',
+  ])('removes a change to a named medicine: %s', (sentence) => {
+    expect(review(sentence).violations).toEqual([{ type: 'dosage_change', sentence }]);
+  });
+
+  it.each([
+    'Keep up your medication, it is helping.',
+    "Don't skip your medication on busy days.",
+    'Do not stop taking your tablets without a plan.',
+    'Try not to skip your meds when you travel.',
+    'Never skip a dose just because you feel well.',
+    "Don't stop your metformin unless your GP says so.",
+    'Setting a phone reminder can help you remember your tablets.',
+    'Stop by the pharmacy on the way home to pick up your medication.',
+  ])('passes adherence advice through: %s', (sentence) => {
+    const response = `Great work this week! ${sentence}`;
+    expect(review(response)).toEqual({ content: response, violations: [] });
+  });
+});
+
+describe('safetyGuardrailService referrals', () => {
+  it.each([
+    'Ask your doctor whether to increase your insulin dose.',
+    'Please talk to your GP about stopping your metformin.',
+    'If your readings stay high, check with your care team before you change your dose.',
+    'Speak to your pharmacist if you think you may have an infection.',
+  ])('allows a sentence that only refers the patient on: %s', (sentence) => {
+    expect(review(sentence)).toEqual({ content: sentence, violations: [] });
+  });
+
+  it.each([
+    ['Your doctor would want you to double your insulin dose tonight.', 'dosage_change'],
+    ['You probably have diabetes, so mention it to your GP.', 'diagnosis'],
+    ['Ask your doctor, but in the meantime halve your tablets.', 'dosage_change'],
+    ['Stop your metformin and tell your nurse.', 'dosage_change'],
+    ['Your GP will confirm it, but you likely have hypertension.', 'diagnosis'],
+  ] as const)('still removes unsafe advice that mentions a clinician: %s', (sentence, type) => {
+    const result = review(sentence);
+    expect(result.violations).toEqual([{ type, sentence }]);
+    expect(result.content).not.toContain(sentence);
+  });
+
+  it('replaces a response with nothing safe left', () => {
+    const result = review('You likely have diabetes. Increase your insulin dose.');
+    expect(result.violations.map(v => v.type)).toEqual(['diagnosis', 'dosage_change']);
+    expect(result.content).toMatch(/^I'm not able to advise on diagnoses or medication changes/);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import express from 'express';
+import session from 'express-session';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { eq } from 'drizzle-orm';
+import { users, userSessions } from '../../../shared/schema';
+import { db } from '../db';
+import { sessionStore } from '../services/sessionStore';
+import { requireAuth, requireRole } from '../middleware/auth';
+
+vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+
+let server: Server;
+let baseUrl: string;
+let releaseSlowRequest: () => void = () => undefined;
+const slowRequestStarted: { resolve?: () => void } = {};
+
+// Sign-in and a request that stays in flight until the test releases it
+function buildApp() {
+  const app = express();
+  app.use(session({ store: sessionStore, secret: 'test-secret', resave: false, saveUninitialized: false }));
+  app.post('/login/:userId', (req, res) => {
+    req.session.regenerate(() => {
+      req.session.userId = Number(req.params.userId);
+      req.session.role = 'patient';
+      res.json({ ok: true });
+    });
+  });
+  app.get('/me', requireAuth, (req, res) => {
+    res.json({ userId: req.session.userId });
+  });
+  app.get('/patient-only', requireRole('patient'), (req, res) => {
+    res.json({ userId: req.session.userId });
+  });
+  app.post('/slow', requireAuth, async (req, res) => {
+    await new Promise<void>((resolve) => {
+      releaseSlowRequest = resolve;
+      slowRequestStarted.resolve?.();
+    });
+    req.session.lastActivity = Date.now();
+    res.json({ ok: true });
+  });
+  return app;
+}
+
+async function signIn(userId: number): Promise<string> {
+  const response = await fetch(`${baseUrl}/login/${userId}`, { method: 'POST' });
+  return response.headers.get('set-cookie')!.split(';')[0];
+}
+
+async function storedSession(cookie: string) {
+  const sid = decodeURIComponent(cookie.split('=')[1]).slice(2).split('.')[0];
+  const [row] = await db.select().from(userSessions).where(eq(userSessions.sid, sid));
+  return row;
+}
+
+async function createUser(email: string): Promise<number> {
+  const [user] = await db.insert(users).values({ email, role: 'patient' }).returning({ id: users.id });
+  return user.id;
+}
+
+beforeAll(() => {
+  server = buildApp().listen(0);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+describe('session store', () => {
+  it('stores a new session on sign-in and updates it on later saves', async () => {
+    const userId = await createUser('saves@example.com');
+    const cookie = await signIn(userId);
+    const before = await storedSession(cookie);
+    expect(before).toMatchObject({ userId });
+
+    const started = new Promise<void>((resolve) => { slowRequestStarted.resolve = resolve; });
+    const pending = fetch(`${baseUrl}/slow`, { method: 'POST', headers: { cookie } });
+    await started;
+    releaseSlowRequest();
+    expect((await pending).status).toBe(200);
+
+    const after = await storedSession(cookie);
+    expect(after.data).toHaveProperty('lastActivity');
+  });
+
+  it('does not revive a session destroyed while one of its requests was in flight', async () => {
+    const userId = await createUser('revival@example.com');
+    const cookie = await signIn(userId);
+
+    const started = new Promise<void>((resolve) => { slowRequestStarted.resolve = resolve; });
+    const pending = fetch(`${baseUrl}/slow`, { method: 'POST', headers: { cookie } });
+    await started;
+    expect(await sessionStore.destroyForUser(userId)).toHaveLength(1);
+    releaseSlowRequest();
+    expect((await pending).status).toBe(200);
+
+    expect(await storedSession(cookie)).toBeUndefined();
+    expect((await fetch(`${baseUrl}/me`, { headers: { cookie } })).status).toBe(401);
+  });
+});
+
+describe('requireAuth and requireRole for inactive accounts', () => {
+  it('lets an active user through', async () => {
+    const userId = await createUser('active@example.com');
+    const cookie = await signIn(userId);
+    const response = await fetch(`${baseUrl}/patient-only`, { headers: { cookie } });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ userId });
+  });
+
+  it('ends the surviving session of a deactivated user', async () => {
+    const userId = await createUser('deactivated@example.com');
+    const cookie = await signIn(userId);
+    await db.update(users).set({ isActive: false }).where(eq(users.id, userId));
+
+    const response = await fetch(`${baseUrl}/me`, { headers: { cookie } });
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'ACCOUNT_INACTIVE' });
+    expect(await storedSession(cookie)).toBeUndefined();
+  });
+
+  it('ends the surviving session of an erased user', async () => {
+    const userId = await createUser('erased@example.com');
+    const cookie = await signIn(userId);
+    await db.update(users).set({ deletedAt: new Date() }).where(eq(users.id, userId));
+
+    const response = await fetch(`${baseUrl}/patient-only`, { headers: { cookie } });
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'ACCOUNT_INACTIVE' });
+    expect(await storedSession(cookie)).toBeUndefined();
+  });
+});
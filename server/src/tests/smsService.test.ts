@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { smsMessages } from '../../../shared/schema';
+import { db } from '../db';
+import { smsService } from '../services/smsService';
+import { createSmsTransport } from '../services/smsTransports';
+import { useSmsOutbox } from './helpers/smsOutbox';
+
+vi.mock('../db', async () => ({ db: await (await import('./helpers/testDb')).createTestDb() }));
+
+const outbox = useSmsOutbox();
+
+const twilioEnv = {
+  TWILIO_ACCOUNT_SID: 'AC00000000000000000000000000000000',
+  TWILIO_AUTH_TOKEN: 'token',
+  TWILIO_PHONE_NUMBER: '+15550000000',
+};
+
+describe('createSmsTransport', () => {
+  it('defaults to Twilio when configured and to the console otherwise outside production', () => {
+    expect(createSmsTransport({ NODE_ENV: 'development', ...twilioEnv }).name).toBe('twilio');
+    expect(createSmsTransport({ NODE_ENV: 'development' }).name).toBe('console');
+  });
+
+  it('requires SMS_TRANSPORT in production', () => {
+    expect(() => createSmsTransport({ NODE_ENV: 'production' })).toThrow(/SMS_TRANSPORT must be set/);
+    expect(() => createSmsTransport({ NODE_ENV: 'production', ...twilioEnv })).toThrow(/SMS_TRANSPORT must be set/);
+    expect(createSmsTransport({ NODE_ENV: 'production', SMS_TRANSPORT: 'twilio', ...twilioEnv }).name).toBe('twilio');
+  });
+
+  it('rejects Twilio without credentials and unknown transports', () => {
+    expect(() => createSmsTransport({ SMS_TRANSPORT: 'twilio' })).toThrow(/Twilio environment variables/);
+    expect(() => createSmsTransport({ SMS_TRANSPORT: 'pigeon' })).toThrow(/Unknown SMS_TRANSPORT/);
+  });
+});
+
+describe('smsService with the outbox transport', () => {
+  it('writes the rendered message to the outbox and records it as sent', async () => {
+    const result = await smsService.send('+61412000001', 'verification_code', { code: '482913' });
+    expect(result.success).toBe(true);
+    expect(smsService.transportName).toBe('outbox');
+
+    const [message] = outbox.messages();
+    expect(message).toMatchObject({ to: '+61412000001', body: 'Your Keep Going Care verification code is: 482913' });
+    expect(outbox.lastCode('+61412000001')).toBe('482913');
+
+    const [record] = await db.select().from(smsMessages).where(eq(smsMessages.id, result.messageId));
+    expect(record).toMatchObject({
+      recipient: '+61412000001',
+      template: 'verification_code',
+      transport: 'outbox',
+      status: 'sent',
+      providerSid: message.sid,
+    });
+  });
+});
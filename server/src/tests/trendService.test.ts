@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import type { PatientScore } from '../../../shared/schema';
+import { analyzeTrends, describeTrends } from '../services/trendService';
+import { localIsoDate, shiftIsoDate } from '../utils/dates';
+
+const TODAY = '2026-10-19';
+
+function score(scoreDate: string, diet: number, exercise = diet, medication = diet): PatientScore {
+  return {
+    id: 0,
+    patientId: 1,
+    scoreDate,
+    dietScore: diet,
+    exerciseScore: exercise,
+    medicationScore: medication,
+    createdAt: new Date(`${scoreDate}T09:00:00Z`),
+    updatedAt: new Date(`${scoreDate}T09:00:00Z`),
+  };
+}
+
+// One score per day, oldest first, the last one dated `to`
+function series(values: number[], to = TODAY): PatientScore[] {
+  return values.map((value, i) => score(shiftIsoDate(to, i - (values.length - 1)), value));
+}
+
+describe('analyzeTrends', () => {
+  it('finds no trend in a flat series', () => {
+    const { metrics, coverage } = analyzeTrends(series(Array(14).fill(7)), TODAY);
+    expect(metrics.diet).toMatchObject({ direction: 'stable', slope: 0, latest: 7, average: 7, streak: null });
+    expect(coverage).toEqual({ daysWithScores: 14, ratio: 1, longestGapDays: 0 });
+  });
+
+  it('reports a steadily rising series as improving with high confidence', () => {
+    const { metrics } = analyzeTrends(series([3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9]), TODAY);
+    expect(metrics.exercise.direction).toBe('improving');
+    expect(metrics.exercise.confidence).toBe('high');
+    expect(metrics.exercise.slope).toBeGreaterThan(0.4);
+    expect(metrics.exercise.streak).toBeNull();
+  });
+
+  it('reports a falling series as declining and finds the low streak', () => {
+    const { metrics } = analyzeTrends(series([9, 9, 9, 8, 8, 8, 7, 7, 7, 6, 6, 5, 5, 4]), TODAY);
+    expect(metrics.medication.direction).toBe('declining');
+    expect(metrics.medication.slope).toBeLessThan(0);
+    expect(metrics.medication.streak).toEqual({ type: 'negative', days: 5, since: shiftIsoDate(TODAY, -4) });
+  });
+
+  it('finds a positive streak of five days at 8 or above', () => {
+    const { metrics } = analyzeTrends(series([5, 6, 8, 9, 8, 10, 9]), TODAY);
+    expect(metrics.diet.streak).toEqual({ type: 'positive', days: 5, since: shiftIsoDate(TODAY, -4) });
+  });
+
+  it('measures gaps, and a missed day breaks a streak', () => {
+    const scores = [
+      score('2026-10-06', 8),
+      score('2026-10-07', 8),
+      score('2026-10-12', 9),
+      score('2026-10-13', 9),
+      score('2026-10-15', 9),
+      score('2026-10-16', 9),
+      score('2026-10-17', 9),
+    ];
+    const { coverage, metrics } = analyzeTrends(scores, TODAY);
+    expect(coverage).toEqual({ daysWithScores: 7, ratio: 0.5, longestGapDays: 4 });
+    expect(metrics.diet.streak).toBeNull();
+  });
+
+  it('counts the days since the last score as a gap', () => {
+    const { coverage, metrics } = analyzeTrends(series([4, 4, 4, 4], '2026-10-10'), TODAY);
+    expect(coverage.longestGapDays).toBe(9);
+    // A streak only counts while the latest score is from today or yesterday
+    expect(metrics.diet.streak).toBeNull();
+  });
+
+  it('caps confidence at medium when less than half the window has scores', () => {
+    const scores = [score('2026-10-07', 2), score('2026-10-11', 4), score('2026-10-15', 6), score('2026-10-19', 8)];
+    const { metrics, coverage } = analyzeTrends(scores, TODAY);
+    expect(coverage.ratio).toBeLessThan(0.5);
+    expect(metrics.diet.direction).toBe('improving');
+    expect(metrics.diet.confidence).toBe('medium');
+  });
+
+  it('does not fit a slope to a single score', () => {
+    const { metrics, coverage } = analyzeTrends([score(TODAY, 6)], TODAY);
+    expect(metrics.diet).toEqual({ direction: 'stable', slope: null, confidence: 'low', latest: 6, average: 6, streak: null });
+    expect(coverage).toEqual({ daysWithScores: 1, ratio: 0.07, longestGapDays: 0 });
+  });
+
+  it('handles a window with no scores', () => {
+    const { metrics, coverage } = analyzeTrends([], TODAY);
+    expect(metrics.exercise).toEqual({ direction: 'stable', slope: null, confidence: 'low', latest: null, average: null, streak: null });
+    expect(coverage).toEqual({ daysWithScores: 0, ratio: 0, longestGapDays: 14 });
+  });
+
+  it('ignores scores outside the window and accepts them in any order', () => {
+    const inWindow = series([4, 5, 6, 7, 8, 9]);
+    const scores = [score('2026-10-01', 1), ...[...inWindow].reverse(), score('2026-10-20', 1)];
+    const { from, to, coverage, metrics } = analyzeTrends(scores, TODAY);
+    expect({ from, to }).toEqual({ from: '2026-10-06', to: TODAY });
+    expect(coverage.daysWithScores).toBe(6);
+    expect(metrics.diet.latest).toBe(9);
+  });
+
+  it('keeps each metric separate', () => {
+    const scores = series([5, 6, 7, 8, 9, 10]).map((s, i) => ({ ...s, medicationScore: 10 - i }));
+    const { metrics } = analyzeTrends(scores, TODAY);
+    expect(metrics.diet.direction).toBe('improving');
+    expect(metrics.medication.direction).toBe('declining');
+  });
+});
+
+describe('analyzeTrends across timezone day boundaries', () => {
+  // 01:30 on the 19th in Sydney (AEDT, UTC+11) is still the 18th in UTC and in Los Angeles
+  const instant = new Date('2026-10-18T14:30:00Z');
+  const scores = series([5, 6, 7, 8, 9, 9], '2026-10-19');
+
+  it('uses the patient’s local date as the end of the window', () => {
+    expect(localIsoDate('Australia/Sydney', instant)).toBe('2026-10-19');
+    expect(localIsoDate('UTC', instant)).toBe('2026-10-18');
+    expect(localIsoDate('America/Los_Angeles', instant)).toBe('2026-10-18');
+  });
+
+  it('includes a score the patient entered for their local today', () => {
+    const sydney = analyzeTrends(scores, localIsoDate('Australia/Sydney', instant));
+    expect(sydney.coverage.daysWithScores).toBe(6);
+    expect(sydney.metrics.diet.latest).toBe(9);
+  });
+
+  it('leaves out a score dated after the local today elsewhere', () => {
+    const utc = analyzeTrends(scores, localIsoDate('UTC', instant));
+    expect(utc.to).toBe('2026-10-18');
+    expect(utc.coverage.daysWithScores).toBe(5);
+    expect(utc.metrics.diet.latest).toBe(9);
+  });
+
+  it('counts whole calendar days over a daylight saving change', () => {
+    // Sydney clocks went forward on 2026-10-04
+    const acrossDst = series([7, 7, 7, 7, 7], '2026-10-06');
+    const { coverage } = analyzeTrends(acrossDst, '2026-10-06', 7);
+    expect(coverage).toEqual({ daysWithScores: 5, ratio: 0.71, longestGapDays: 0 });
+  });
+});
+
+describe('describeTrends', () => {
+  it('summarises each metric and the coverage', () => {
+    const summary = describeTrends(analyzeTrends([score(TODAY, 6)], TODAY));
+    expect(summary).toBe([
+      '- Diet: stable (too few scores to fit, low confidence, avg 6)',
+      '- Exercise: stable (too few scores to fit, low confidence, avg 6)',
+      '- Medication: stable (too few scores to fit, low confidence, avg 6)',
+      '- Coverage: 1/14 days scored, longest gap 0 days',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * One CSV cell. Objects are written as JSON, and text a spreadsheet would
+ * evaluate as a formula is prefixed with a quote.
+ */
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows as RFC 4180 CSV with a header line. Columns default to the keys of
+ * the first row.
+ */
+export function toCsv<T extends object>(rows: T[], columns?: (keyof T & string)[]): string {
+  const header = columns ?? (rows.length > 0 ? (Object.keys(rows[0]) as (keyof T & string)[]) : []);
+  const lines = [header.join(',')];
+  for (const row of rows) {
+    lines.push(header.map(column => csvCell(row[column])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -1,4 +1,4 @@
-import { pgTable, serial, text, varchar, timestamp, integer, boolean, date, jsonb } from 'drizzle-orm/pg-core';
+import { pgTable, serial, text, varchar, timestamp, integer, boolean, date, jsonb, index, uniqueIndex } from 'drizzle-orm/pg-core';
 import { createInsertSchema } from 'drizzle-zod';
 import { z } from 'zod';
 
@@ -8,10 +8,54 @@ export const users = pgTable('users', {
   role: text('role', { enum: ['admin', 'doctor', 'patient'] }).notNull(),
   name: varchar('name', { length: 255 }),
   phoneNumber: varchar('phone_number', { length: 50 }),
+  timezone: varchar('timezone', { length: 64 }).default('UTC').notNull(),
+  nudgeChannel: text('nudge_channel', { enum: ['in_app', 'sms', 'email'] }).default('in_app').notNull(),
   isActive: boolean('is_active').default(true).notNull(),
+  // Set when the account is erased; the row is kept, anonymised, for foreign keys
+  deletedAt: timestamp('deleted_at'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// One-time SMS codes, for signing in, for re-confirming identity before a
+// sensitive action (step-up) or for confirming an account deletion
+export const loginChallenges = pgTable('login_challenges', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  purpose: text('purpose', { enum: ['login', 'step_up', 'deletion'] }).default('login').notNull(),
+  codeHash: varchar('code_hash', { length: 255 }).notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  attempts: integer('attempts').default(0).notNull(),
+  lockedAt: timestamp('locked_at'),
+  consumedAt: timestamp('consumed_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// express-session store. The user is copied out of the session data so a
+// user's devices can be listed and signed out together
+export const userSessions = pgTable('user_sessions', {
+  sid: varchar('sid', { length: 255 }).primaryKey(),
+  userId: integer('user_id').references(() => users.id),
+  data: jsonb('data').$type<Record<string, unknown>>().notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('user_sessions_user_idx').on(table.userId),
+  index('user_sessions_expires_at_idx').on(table.expiresAt),
+]);
+
+export const smsMessages = pgTable('sms_messages', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').references(() => users.id),
+  recipient: varchar('recipient', { length: 50 }).notNull(),
+  template: varchar('template', { length: 100 }).notNull(),
+  transport: varchar('transport', { length: 50 }).notNull(),
+  providerSid: varchar('provider_sid', { length: 100 }),
+  status: text('status', { enum: ['pending', 'sent', 'delivered', 'failed'] }).default('pending').notNull(),
+  error: text('error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 export const patientScores = pgTable('patient_scores', {
   id: serial('id').primaryKey(),
   patientId: integer('patient_id').notNull().references(() => users.id),
@@ -20,7 +64,10 @@ export const patientScores = pgTable('patient_scores', {
   exerciseScore: integer('exercise_score').notNull(),
   medicationScore: integer('medication_score').notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
-});
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('patient_scores_patient_date_idx').on(table.patientId, table.scoreDate),
+]);
 
 export const patientBadges = pgTable('patient_badges', {
   id: serial('id').primaryKey(),
@@ -29,7 +76,26 @@ export const patientBadges = pgTable('patient_badges', {
   badgeLevel: varchar('badge_level', { length: 50 }).notNull(),
   earnedDate: timestamp('earned_date').defaultNow().notNull(),
   criteria: text('criteria'),
-});
+}, (table) => [
+  // Each tier of a badge is awarded at most once
+  uniqueIndex('patient_badges_patient_type_level_idx').on(table.patientId, table.badgeType, table.badgeLevel),
+]);
+
+// Tier rules for the badge engine: a badge tier is earned after `requiredDays`
+// consecutive days with the metric at or above `minScore`
+export const badgeRules = pgTable('badge_rules', {
+  id: serial('id').primaryKey(),
+  badgeType: varchar('badge_type', { length: 100 }).notNull(),
+  metric: text('metric', { enum: ['dietScore', 'exerciseScore', 'medicationScore'] }).notNull(),
+  tier: varchar('tier', { length: 50 }).notNull(),
+  requiredDays: integer('required_days').notNull(),
+  minScore: integer('min_score').notNull(),
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('badge_rules_type_tier_idx').on(table.badgeType, table.tier),
+]);
 
 export const doctors = pgTable('doctors', {
   id: serial('id').primaryKey(),
@@ -51,10 +117,28 @@ export const carePlanDirectives = pgTable('care_plan_directives', {
   category: varchar('category', { length: 100 }),
   priority: varchar('priority', { length: 50 }).default('medium'),
   isActive: boolean('is_active').default(true).notNull(),
+  version: integer('version').default(1).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Immutable snapshot of a directive after every create, edit or retirement
+export const carePlanDirectiveVersions = pgTable('care_plan_directive_versions', {
+  id: serial('id').primaryKey(),
+  directiveId: integer('directive_id').notNull().references(() => carePlanDirectives.id),
+  version: integer('version').notNull(),
+  changeType: text('change_type', { enum: ['created', 'updated', 'retired'] }).notNull(),
+  authorDoctorId: integer('author_doctor_id').notNull().references(() => doctors.id),
+  directive: text('directive').notNull(),
+  category: varchar('category', { length: 100 }),
+  priority: varchar('priority', { length: 50 }),
+  isActive: boolean('is_active').notNull(),
+  diff: jsonb('diff'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('cpd_versions_directive_version_idx').on(table.directiveId, table.version),
+]);
+
 export const doctorPatients = pgTable('doctor_patients', {
   id: serial('id').primaryKey(),
   doctorId: integer('doctor_id').notNull().references(() => doctors.id),
@@ -70,22 +154,308 @@ export const supervisorAgentLogs = pgTable('supervisor_agent_logs', {
   action: varchar('action', { length: 255 }).notNull(),
   context: jsonb('context'),
   aiResponse: text('ai_response'),
+  phiReport: jsonb('phi_report'),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+export const progressReports = pgTable('progress_reports', {
+  id: serial('id').primaryKey(),
+  patientId: integer('patient_id').notNull().references(() => users.id),
+  doctorId: integer('doctor_id').notNull().references(() => doctors.id),
+  periodStart: date('period_start').notNull(),
+  periodEnd: date('period_end').notNull(),
+  inputBundle: jsonb('input_bundle').notNull(),
+  reportMarkdown: text('report_markdown').notNull(),
+  model: varchar('model', { length: 100 }).notNull(),
+  status: text('status', { enum: ['draft', 'approved'] }).default('draft').notNull(),
+  approvedByDoctorId: integer('approved_by_doctor_id').references(() => doctors.id),
+  approvedAt: timestamp('approved_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: string;
+}
+
+export type ChatTurn = Pick<ChatMessage, 'role' | 'content'>;
+
 export const chatSessions = pgTable('chat_sessions', {
   id: serial('id').primaryKey(),
   patientId: integer('patient_id').notNull().references(() => users.id),
-  messages: jsonb('messages').notNull(),
+  messages: jsonb('messages').$type<ChatMessage[]>().notNull(),
   sessionStarted: timestamp('session_started').defaultNow().notNull(),
   lastActivity: timestamp('last_activity').defaultNow().notNull(),
 });
 
+// Proactive engagement messages; at most one per patient per local day
+export const patientNudges = pgTable('patient_nudges', {
+  id: serial('id').primaryKey(),
+  patientId: integer('patient_id').notNull().references(() => users.id),
+  nudgeDate: date('nudge_date').notNull(),
+  rule: text('rule', { enum: ['missed_checkin', 'declining_medication', 'near_badge_tier'] }).notNull(),
+  reason: text('reason').notNull(),
+  message: text('message').notNull(),
+  channel: text('channel', { enum: ['in_app', 'sms', 'email'] }).notNull(),
+  status: text('status', { enum: ['pending', 'delivered', 'failed'] }).default('pending').notNull(),
+  error: text('error'),
+  readAt: timestamp('read_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('patient_nudges_patient_date_idx').on(table.patientId, table.nudgeDate),
+]);
+
+// In-app notifications; unread rows are replayed when the user next connects
+export const notifications = pgTable('notifications', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  type: text('type', { enum: ['badge_awarded', 'care_plan_updated', 'nudge', 'doctor_message', 'safety_escalation'] }).notNull(),
+  title: varchar('title', { length: 255 }).notNull(),
+  body: text('body').notNull(),
+  data: jsonb('data').$type<Record<string, unknown>>(),
+  readAt: timestamp('read_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('notifications_user_read_idx').on(table.userId, table.readAt),
+]);
+
+// Patient-initiated erasure: confirmed by SMS code, then carried out once the
+// grace period ends unless the patient cancels
+export const accountDeletionRequests = pgTable('account_deletion_requests', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id),
+  status: text('status', { enum: ['pending_confirmation', 'scheduled', 'cancelled', 'completed'] }).default('pending_confirmation').notNull(),
+  confirmedAt: timestamp('confirmed_at'),
+  scheduledFor: timestamp('scheduled_for'),
+  cancelledAt: timestamp('cancelled_at'),
+  completedAt: timestamp('completed_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('account_deletion_requests_user_idx').on(table.userId, table.status),
+  index('account_deletion_requests_due_idx').on(table.status, table.scheduledFor),
+]);
+
+// Append-only record of PHI access and administrative changes. Each row's
+// hash covers its fields and the previous row's hash, so edits, deletions and
+// reordering break the chain. The requester's IP address, user agent and
+// details enter the hash only through a salted digest, so they can be erased
+// (with the salt) when an account is deleted without breaking the chain.
+// A trigger (server/src/dataMigrations.ts) rejects every other UPDATE, and
+// DELETE and TRUNCATE
+export const auditEvents = pgTable('audit_events', {
+  id: serial('id').primaryKey(),
+  occurredAt: timestamp('occurred_at').notNull(),
+  userId: integer('user_id').references(() => users.id),
+  role: text('role', { enum: ['admin', 'doctor', 'patient'] }),
+  action: text('action', { enum: ['read', 'create', 'update', 'delete'] }).notNull(),
+  dataType: varchar('data_type', { length: 100 }).notNull(),
+  patientId: integer('patient_id').references(() => users.id),
+  resourceId: varchar('resource_id', { length: 100 }),
+  method: varchar('method', { length: 10 }).notNull(),
+  path: varchar('path', { length: 500 }).notNull(),
+  statusCode: integer('status_code').notNull(),
+  ipAddress: varchar('ip_address', { length: 100 }),
+  userAgent: text('user_agent'),
+  details: jsonb('details').$type<Record<string, unknown>>(),
+  personalSalt: varchar('personal_salt', { length: 32 }),
+  personalDigest: varchar('personal_digest', { length: 64 }).notNull(),
+  personalErasedAt: timestamp('personal_erased_at'),
+  prevHash: varchar('prev_hash', { length: 64 }),
+  hash: varchar('hash', { length: 64 }).notNull().unique(),
+}, (table) => [
+  index('audit_events_occurred_at_idx').on(table.occurredAt),
+  index('audit_events_patient_idx').on(table.patientId, table.occurredAt),
+  index('audit_events_user_idx').on(table.userId, table.occurredAt),
+]);
+
+// Validation schemas
+const scoreValue = z.coerce.number().int().min(1, 'Scores must be between 1 and 10').max(10, 'Scores must be between 1 and 10');
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be in YYYY-MM-DD format');
+const phoneNumber = z.string().trim().regex(/^\+[1-9]\d{6,14}$/, 'Phone numbers must be in international format, e.g. +15551234567');
+
+export const scoreValuesSchema = z.object({
+  dietScore: scoreValue,
+  exerciseScore: scoreValue,
+  medicationScore: scoreValue,
+});
+
+export const scoreSubmissionSchema = scoreValuesSchema.extend({
+  scoreDate: isoDate.optional(),
+});
+
+export const scoreHistoryQuerySchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+});
+
+export const doctorRosterQuerySchema = z.object({
+  sort: z.enum(['name', 'lastScoreDate', 'attention', 'average7d']).default('attention'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const trendQuerySchema = z.object({
+  days: z.coerce.number().int().min(7).max(90).optional(),
+});
+
+export const safetyEventQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(30),
+});
+
+export const carePlanDirectiveSchema = z.object({
+  directive: z.string().trim().min(1, 'Directive text is required').max(2000),
+  category: z.string().trim().max(100).nullable().optional(),
+  priority: z.enum(['low', 'medium', 'high']).default('medium'),
+});
+
+export const carePlanDirectiveUpdateSchema = z.object({
+  directive: z.string().trim().min(1, 'Directive text is required').max(2000).optional(),
+  category: z.string().trim().max(100).nullable().optional(),
+  priority: z.enum(['low', 'medium', 'high']).optional(),
+}).refine(update => Object.values(update).some(v => v !== undefined), 'At least one field must be changed');
+
+export const carePlanDirectiveQuerySchema = z.object({
+  includeRetired: z.enum(['true', 'false']).optional(),
+  asOf: z.string().datetime({ offset: true }).or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/)).optional(),
+});
+
+export const progressReportRequestSchema = z.object({
+  periodDays: z.coerce.number().int().min(7).max(90).default(30),
+});
+
+export const progressReportUpdateSchema = z.object({
+  reportMarkdown: z.string().trim().min(1, 'Report text is required').max(50000),
+});
+
+export const chatMessageSchema = z.object({
+  message: z.string().trim().min(1, 'Message is required').max(2000),
+  sessionId: z.coerce.number().int().positive().optional(),
+});
+
+export const chatSessionListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const badgeRuleSchema = z.object({
+  badgeType: z.string().trim().min(1, 'Badge type is required').max(100),
+  metric: z.enum(['dietScore', 'exerciseScore', 'medicationScore']),
+  tier: z.string().trim().min(1, 'Tier is required').max(50),
+  requiredDays: z.coerce.number().int().min(1).max(365),
+  minScore: scoreValue,
+});
+
+export const badgeRuleUpdateSchema = z.object({
+  requiredDays: z.coerce.number().int().min(1).max(365).optional(),
+  minScore: scoreValue.optional(),
+  isActive: z.boolean().optional(),
+}).refine(update => Object.values(update).some(v => v !== undefined), 'At least one field must be changed');
+
+export const notificationListQuerySchema = z.object({
+  unread: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const notificationReadSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1).max(100).optional(),
+});
+
+export const doctorMessageSchema = z.object({
+  message: z.string().trim().min(1, 'Message is required').max(1000),
+});
+
+export const adminUserQuerySchema = z.object({
+  search: z.string().trim().max(255).optional(),
+  role: z.enum(['admin', 'doctor', 'patient']).optional(),
+  isActive: z.enum(['true', 'false']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const adminUserCreateSchema = z.object({
+  role: z.enum(['doctor', 'patient']),
+  email: z.string().trim().email('A valid email is required').max(255),
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  phoneNumber: phoneNumber.nullable().optional(),
+  timezone: z.string().min(1).max(64).optional(),
+  specialization: z.string().trim().max(255).nullable().optional(),
+  licenseNumber: z.string().trim().max(100).nullable().optional(),
+  doctorIds: z.array(z.number().int().positive()).max(20).optional(),
+}).refine(user => user.role !== 'doctor' || !!user.phoneNumber, {
+  message: 'Doctors need a phone number for SMS login',
+  path: ['phoneNumber'],
+});
+
+export const adminUserUpdateSchema = z.object({
+  email: z.string().trim().email('A valid email is required').max(255).optional(),
+  name: z.string().trim().min(1, 'Name is required').max(255).optional(),
+  phoneNumber: phoneNumber.nullable().optional(),
+  specialization: z.string().trim().max(255).nullable().optional(),
+  licenseNumber: z.string().trim().max(100).nullable().optional(),
+  isActive: z.boolean().optional(),
+}).refine(update => Object.values(update).some(v => v !== undefined), 'At least one field must be changed');
+
+export const patientAssignmentSchema = z.object({
+  doctorIds: z.array(z.number().int().positive()).max(20),
+});
+
+export const auditQuerySchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  patientId: z.coerce.number().int().positive().optional(),
+  role: z.enum(['admin', 'doctor', 'patient']).optional(),
+  action: z.enum(['read', 'create', 'update', 'delete']).optional(),
+  dataType: z.string().trim().min(1).max(100).optional(),
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const accountDeletionSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'The confirmation code has 6 digits').optional(),
+});
+
+export const reauthCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'The verification code has 6 digits'),
+});
+
+export const profileUpdateSchema = z.object({
+  timezone: z.string().min(1).max(64).optional(),
+  nudgeChannel: z.enum(['in_app', 'sms', 'email']).optional(),
+}).refine(update => Object.values(update).some(v => v !== undefined), 'At least one field must be changed');
+
+export type ScoreValues = z.infer<typeof scoreValuesSchema>;
+export type ScoreSubmission = z.infer<typeof scoreSubmissionSchema>;
+export type DoctorRosterQuery = z.infer<typeof doctorRosterQuerySchema>;
+export type CarePlanDirectiveInput = z.infer<typeof carePlanDirectiveSchema>;
+export type CarePlanDirectiveUpdate = z.infer<typeof carePlanDirectiveUpdateSchema>;
+export type BadgeRuleInput = z.infer<typeof badgeRuleSchema>;
+export type BadgeRuleUpdate = z.infer<typeof badgeRuleUpdateSchema>;
+export type AdminUserQuery = z.infer<typeof adminUserQuerySchema>;
+export type AdminUserCreate = z.infer<typeof adminUserCreateSchema>;
+export type AdminUserUpdate = z.infer<typeof adminUserUpdateSchema>;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
+
 // Types
 export type User = typeof users.$inferSelect;
+export type LoginChallenge = typeof loginChallenges.$inferSelect;
+export type UserSession = typeof userSessions.$inferSelect;
+export type SmsMessage = typeof smsMessages.$inferSelect;
 export type PatientScore = typeof patientScores.$inferSelect;
 export type PatientBadge = typeof patientBadges.$inferSelect;
+export type BadgeRule = typeof badgeRules.$inferSelect;
 export type Doctor = typeof doctors.$inferSelect;
 export type CarePlanDirective = typeof carePlanDirectives.$inferSelect;
+export type CarePlanDirectiveVersion = typeof carePlanDirectiveVersions.$inferSelect;
 export type SupervisorAgentLog = typeof supervisorAgentLogs.$inferSelect;
-export type ChatSession = typeof chatSessions.$inferSelect;
\ No newline at end of file
+export type ProgressReport = typeof progressReports.$inferSelect;
+export type ChatSession = typeof chatSessions.$inferSelect;
+export type PatientNudge = typeof patientNudges.$inferSelect;
+export type UserNotification = typeof notifications.$inferSelect;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type AccountDeletionRequest = typeof accountDeletionRequests.$inferSelect;
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['server/src/**/*.test.ts'],
+    // Services import ../db, which needs a URL; tests that touch the database mock it with PGlite
+    env: { DATABASE_URL: 'postgres://test@127.0.0.1:1/test' },
+    testTimeout: 30_000,
+    hookTimeout: 60_000,
+  },
+});